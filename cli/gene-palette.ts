@@ -0,0 +1,249 @@
+/**
+ * gene-palette 命令行：读取 CSV / TSV，输出与网页端相同的调色板 JSON、SVG 色卡或时间线插值帧
+ * 便于在 Snakemake / Nextflow 流程中批量生成颜色
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename } from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  DEFAULT_NORMALIZATION,
+  DIFFERENTIAL_NORMALIZATION_LABEL,
+  buildDifferentialPalette,
+  buildMatrixPalette,
+  buildPalettePayload,
+  buildTimelineFramesPayload,
+  builtinPalettes,
+  describeNormalization,
+  hasErrors,
+  parseDifferentialText,
+  parseGeneText,
+  parseSeed,
+  parseTimelineText,
+  readPaletteDefinition,
+  scaleLabels,
+  toSvgSheet,
+  transformLabels,
+  type CountTransform,
+  type ExpressionMatrix,
+  type NormalizationSettings,
+  type PaletteDefinition,
+  type ScaleMethod,
+  type ValidationReport,
+} from '../src/core'
+
+type Command = 'palette' | 'swatches' | 'frames' | 'palettes'
+
+const COMMANDS: Command[] = ['palette', 'swatches', 'frames', 'palettes']
+
+const DIFFERENTIAL_PALETTE = 'diverge'
+
+const USAGE = `用法：
+  gene-palette palette  <input.csv|tsv> [选项]   输出调色板 JSON（与网页端 Export palette JSON 相同）
+  gene-palette swatches <input.csv|tsv> [选项]   输出带 symbol 标签的 SVG 色卡
+  gene-palette frames   <timeline.csv>  [选项]   输出时间线逐帧插值数据 JSON
+  gene-palette palettes                         列出内置色阶
+
+选项：
+  -o, --output <file>         输出文件，缺省写到标准输出
+  -p, --palette <id>          内置色阶 id（默认 ${builtinPalettes[0].id}；--de 时默认 ${DIFFERENTIAL_PALETTE}）
+      --palette-file <json>   自定义色阶：预设 JSON，或网页端导出 JSON 中的 meta.palette
+      --de                    输入为差异表达结果，按 log2FC 着色
+      --sample <name|index>   多样本矩阵中使用的样本（默认第一个）
+      --transform <${Object.keys(transformLabels).join('|')}>
+      --log2                  取 log2(x + pseudocount)
+      --pseudocount <n>       默认 ${DEFAULT_NORMALIZATION.pseudoCount}
+      --quantile              样本间分位数标准化（仅多样本矩阵）
+      --scale <${Object.keys(scaleLabels).join('|')}>
+      --seed <n>              写入 meta.seed 的粒子布局种子（0–4294967295），载入为会话时使用
+      --fps <n>               frames 的帧率，默认 30
+      --strict                存在校验错误的行时直接失败，而不是仅使用有效行
+  -h, --help                  显示帮助
+`
+
+const parseCommandLine = () =>
+  parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      palette: { type: 'string', short: 'p' },
+      'palette-file': { type: 'string' },
+      de: { type: 'boolean', default: false },
+      sample: { type: 'string' },
+      transform: { type: 'string' },
+      log2: { type: 'boolean', default: false },
+      pseudocount: { type: 'string' },
+      quantile: { type: 'boolean', default: false },
+      scale: { type: 'string' },
+      seed: { type: 'string' },
+      fps: { type: 'string' },
+      strict: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+type CliOptions = ReturnType<typeof parseCommandLine>['values']
+
+const warn = (message: string) => process.stderr.write(`gene-palette: ${message}\n`)
+
+const oneOf = <T extends string>(value: string | undefined, choices: T[], name: string, fallback: T): T => {
+  if (value === undefined) return fallback
+  if (!choices.includes(value as T)) throw new Error(`--${name} 只能是 ${choices.join(' / ')}，收到 ${value}`)
+  return value as T
+}
+
+const positiveNumber = (value: string | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new Error(`--${name} 需要正数，收到 ${value}`)
+  return parsed
+}
+
+const readSeed = (value: string | undefined) => {
+  if (value === undefined) return null
+  const seed = parseSeed(value)
+  if (seed === null) throw new Error(`--seed 需要 0 到 4294967295 的整数，收到 ${value}`)
+  return seed
+}
+
+const readNormalization = (options: CliOptions): NormalizationSettings => ({
+  transform: oneOf(options.transform, Object.keys(transformLabels) as CountTransform[], 'transform', DEFAULT_NORMALIZATION.transform),
+  log2: options.log2,
+  pseudoCount: positiveNumber(options.pseudocount, 'pseudocount', DEFAULT_NORMALIZATION.pseudoCount),
+  quantile: options.quantile,
+  scale: oneOf(options.scale, Object.keys(scaleLabels) as ScaleMethod[], 'scale', DEFAULT_NORMALIZATION.scale),
+})
+
+const resolvePalette = async (options: CliOptions): Promise<PaletteDefinition> => {
+  const file = options['palette-file']
+  if (file) {
+    const raw: unknown = JSON.parse(await readFile(file, 'utf8'))
+    // 网页端导出的调色板 JSON 把完整色阶定义放在 meta.palette 中
+    const candidate = typeof raw === 'object' && raw !== null && 'meta' in raw ? (raw.meta as { palette?: unknown }).palette : raw
+    const definition = readPaletteDefinition(candidate)
+    if (!definition) throw new Error(`${file} 不是有效的色阶定义`)
+    return definition
+  }
+  const id = options.palette ?? (options.de ? DIFFERENTIAL_PALETTE : builtinPalettes[0].id)
+  const palette = builtinPalettes.find((p) => p.id === id)
+  if (!palette) throw new Error(`未知色阶 ${id}，可用：${builtinPalettes.map((p) => p.id).join(', ')}`)
+  return palette
+}
+
+/**
+ * 校验报告写到 stderr；--strict 时存在错误行即失败
+ */
+const reportValidation = (report: ValidationReport, strict: boolean) => {
+  if (!report.issues.length) return
+  const errors = report.issues.filter((issue) => issue.severity === 'error').length
+  warn(`校验发现 ${report.issues.length} 个问题（${errors} 个错误）`)
+  report.issues
+    .slice(0, 10)
+    .forEach((issue) => warn(`  第 ${issue.line} 行${issue.column ? ` [${issue.column}]` : ''}：${issue.reason}`))
+  if (hasErrors(report)) {
+    if (strict) throw new Error('输入存在错误行（--strict）')
+    warn('已跳过错误行，仅使用有效行')
+  }
+}
+
+const resolveSampleIndex = (matrix: ExpressionMatrix, sample: string | undefined) => {
+  if (sample === undefined) return 0
+  const byName = matrix.samples.indexOf(sample)
+  if (byName >= 0) return byName
+  const index = Number(sample)
+  if (Number.isInteger(index) && index >= 0 && index < matrix.samples.length) return index
+  throw new Error(`找不到样本 ${sample}，可用：${matrix.samples.join(', ')}`)
+}
+
+const buildGenes = async (input: string, palette: PaletteDefinition, options: CliOptions) => {
+  const text = await readFile(input, 'utf8')
+  if (options.de) {
+    const result = parseDifferentialText(text)
+    if (!result.ok) throw new Error(result.error)
+    reportValidation(result.report, options.strict)
+    return {
+      genes: buildDifferentialPalette(result.data, palette, result.statistic),
+      normalization: DIFFERENTIAL_NORMALIZATION_LABEL,
+      normalizationSettings: null,
+      sample: null,
+    }
+  }
+  const result = parseGeneText(text)
+  if (!result.ok) throw new Error(result.error)
+  reportValidation(result.report, options.strict)
+  const normalization = readNormalization(options)
+  const sampleIndex = resolveSampleIndex(result.data, options.sample)
+  const { genes, notes } = buildMatrixPalette(result.data, palette, { sampleIndex, normalization })
+  notes.forEach(warn)
+  return {
+    genes,
+    normalization: describeNormalization(normalization),
+    normalizationSettings: normalization,
+    sample: result.data.layout === 'matrix' ? result.data.samples[sampleIndex] : null,
+  }
+}
+
+const toJson = (data: unknown) => `${JSON.stringify(data, null, 2)}\n`
+
+const renderPalette = async (input: string, format: 'json' | 'svg', options: CliOptions) => {
+  const palette = await resolvePalette(options)
+  const { genes, ...meta } = await buildGenes(input, palette, options)
+  if (format === 'svg') return toSvgSheet(genes, palette)
+  return toJson(buildPalettePayload(genes, { paletteMode: palette.name, palette, ...meta, seed: readSeed(options.seed) }))
+}
+
+const renderFrames = async (input: string, options: CliOptions) => {
+  const palette = await resolvePalette(options)
+  const result = parseTimelineText(await readFile(input, 'utf8'), basename(input))
+  if (!result.ok) throw new Error(result.error)
+  reportValidation(result.report, options.strict)
+  const fps = positiveNumber(options.fps, 'fps', 30)
+  return toJson(buildTimelineFramesPayload(result.data, palette, { fps, normalization: readNormalization(options) }))
+}
+
+const listPalettes = () =>
+  builtinPalettes
+    .map((p) => `${p.id.padEnd(10)} ${p.name}${p.colorblindSafe ? ' (CVD-safe)' : ''} — ${p.description}`)
+    .join('\n') + '\n'
+
+const run = async () => {
+  const { values: options, positionals } = parseCommandLine()
+  const [command, input] = positionals
+  if (options.help || !command) {
+    process.stdout.write(USAGE)
+    return options.help ? 0 : 2
+  }
+  if (!COMMANDS.includes(command as Command)) {
+    warn(`未知命令 ${command}`)
+    process.stderr.write(USAGE)
+    return 2
+  }
+  if (command !== 'palettes' && !input) {
+    warn(`${command} 需要输入文件`)
+    return 2
+  }
+
+  const output =
+    command === 'palettes'
+      ? listPalettes()
+      : command === 'frames'
+        ? await renderFrames(input, options)
+        : await renderPalette(input, command === 'swatches' ? 'svg' : 'json', options)
+
+  if (options.output) {
+    await writeFile(options.output, output)
+  } else {
+    process.stdout.write(output)
+  }
+  return 0
+}
+
+run().then(
+  (code) => {
+    process.exitCode = code
+  },
+  (err: unknown) => {
+    warn(err instanceof Error ? err.message : String(err))
+    process.exitCode = 1
+  },
+)
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * 由 HGNC complete set 生成离线基因标识符对照表 src/data/geneIdentifiers.json
+ *
+ * 用法：node scripts/build-gene-identifiers.mjs <hgnc_complete_set.txt> [输出文件]
+ * 输入为 HGNC 官网下载的制表符分隔文件（https://www.genenames.org/download/archive/），
+ * 读取 symbol、alias_symbol、prev_symbol、ensembl_gene_id 与 status 列
+ *
+ * 输出格式（紧凑的元组数组，由 src/data/geneIdentifiers.ts 展开）：
+ *   { "source": 输入文件名, "genes": [[symbol, Ensembl 编号数字或 null, "别名1|别名2"], ...] }
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename } from 'node:path'
+
+const DEFAULT_OUTPUT = 'src/data/geneIdentifiers.json'
+
+// HGNC 不收录的常见写法（小鼠同源基因名等），合并到对应人类基因的别名中
+const EXTRA_ALIASES = {
+  TP53: ['TRP53'],
+}
+
+const ENSEMBL_PATTERN = /^ENSG(\d{11})$/
+
+const splitList = (value) =>
+  (value ?? '')
+    .replace(/^"|"$/g, '')
+    .split('|')
+    .map((item) => item.trim().toUpperCase())
+    .filter(Boolean)
+
+const main = async () => {
+  const [input, output = DEFAULT_OUTPUT] = process.argv.slice(2)
+  if (!input) {
+    console.error('用法：node scripts/build-gene-identifiers.mjs <hgnc_complete_set.txt> [输出文件]')
+    process.exit(1)
+  }
+
+  const [headerLine, ...lines] = (await readFile(input, 'utf8')).split(/\r?\n/)
+  const headers = headerLine.split('\t')
+  const column = (name) => {
+    const index = headers.indexOf(name)
+    if (index < 0) throw new Error(`输入缺少 ${name} 列`)
+    return index
+  }
+  const symbolColumn = column('symbol')
+  const statusColumn = column('status')
+  const ensemblColumn = column('ensembl_gene_id')
+  const aliasColumn = column('alias_symbol')
+  const previousColumn = column('prev_symbol')
+
+  const genes = lines
+    .map((line) => line.split('\t'))
+    .filter((cells) => cells[symbolColumn] && cells[statusColumn] === 'Approved')
+    .map((cells) => {
+      const symbol = cells[symbolColumn].trim()
+      const ensembl = ENSEMBL_PATTERN.exec(cells[ensemblColumn]?.trim() ?? '')
+      const aliases = new Set([
+        ...splitList(cells[aliasColumn]),
+        ...splitList(cells[previousColumn]),
+        ...(EXTRA_ALIASES[symbol] ?? []),
+      ])
+      aliases.delete(symbol.toUpperCase())
+      return [symbol, ensembl ? Number(ensembl[1]) : null, [...aliases].sort().join('|')]
+    })
+    .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+
+  // 每个基因一行，便于审阅差异
+  const body = genes.map((gene) => JSON.stringify(gene)).join(',\n')
+  await writeFile(output, `{"source":${JSON.stringify(basename(input))},"genes":[\n${body}\n]}\n`)
+  console.log(`已写入 ${output}：${genes.length} 个基因，其中 ${genes.filter((gene) => gene[1] !== null).length} 个有 Ensembl ID`)
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -1,72 +1,129 @@
-import { useMemo, useRef, useState } from 'react'
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 import { sampleGenes, type GeneExpression } from './data/sampleGenes'
-import { mapValueToColor, type PaletteModeId } from './utils/color'
-import { downloadJSON, downloadPNG, buildPalettePayload } from './utils/export'
-import { parseGeneCsv } from './utils/csv'
-import { computeStats, scaleToRange, toZScore } from './utils/math'
-import type { PaletteGene } from './types/palette'
+import { buildPaletteGradient, builtinPalettes, type PaletteModeId } from './utils/color'
+import { createPresetId, loadPalettePresets, savePalettePresets } from './utils/palettePresets'
+import { downloadHTML, downloadJSON, downloadPNG, downloadSVG, downloadPaletteFormat } from './utils/export'
+import {
+  DIFFERENTIAL_NORMALIZATION_LABEL,
+  applyPalette,
+  buildPalettePayload,
+  normalizeDifferentialGenes,
+  normalizeSampleGenes,
+} from './core'
+import { paletteExportFormats, type PaletteExportFormat } from './utils/paletteFormats'
+import { particleSceneToSvg, posterToSvg } from './utils/svgExport'
+import { particleArtToHtml } from './utils/htmlExport'
+import { DEFAULT_POSTER_TEXT, buildPosterContent, type PosterTextOverrides } from './utils/posterContent'
+import { createSession, type SessionBundle, type SessionParseResult, type SourceFile } from './utils/session'
+import { createProvenance, hashSourceFile } from './utils/provenance'
+import { buildShareLink, readShareHash } from './utils/shareLink'
+import { randomSeed } from './utils/random'
+import { MIN_EMBEDDING_SAMPLES, particleLayouts, type ParticleLayoutId } from './utils/particleLayout'
+import { DEFAULT_POSTER_PAGE, resolvePosterPage, type PosterPageSettings } from './utils/posterPage'
+import { parseDifferentialCsv, parseGeneCsv } from './utils/csv'
+import { getSampleGenes, toSingleSampleMatrix } from './utils/matrix'
+import { hasErrors, type ValidationReport } from './utils/validation'
+import { hasIdentifierFindings, type IdentifierReport } from './utils/identifiers'
+import {
+  DEFAULT_NORMALIZATION,
+  describeNormalization,
+  normalizeMatrix,
+  type NormalizationSettings,
+} from './utils/normalization'
+import type { PaletteDefinition } from './types/palette'
 import type { TimelineData } from './types/timeline'
-import { BioParticleSystem } from './components/art/BioParticleSystem'
+import type { ExpressionMatrix } from './types/matrix'
+import type { DifferentialGene, SignificanceStatistic } from './types/differential'
+import { BioParticleSystem, type BioParticleSystemHandle } from './components/art/BioParticleSystem'
 import { DataStoryExplainer } from './components/art/DataStoryExplainer'
+import { SeedControl } from './components/art/SeedControl'
+import { LayoutControl } from './components/art/LayoutControl'
+import { SelectionPanel } from './components/art/SelectionPanel'
 import { PosterPreview } from './components/poster/PosterPreview'
+import { PosterPrintPanel } from './components/poster/PosterPrintPanel'
+import { PosterStage } from './components/poster/PosterStage'
+import { PosterTextEditor } from './components/poster/PosterTextEditor'
+import { SessionPanel, type SessionNotice } from './components/session/SessionPanel'
+import { ProvenanceDropZone } from './components/session/ProvenanceDropZone'
 import { TimelineAnimator } from './components/animation/TimelineAnimator'
 import { TimelineUploader } from './components/animation/TimelineUploader'
+import { AnimationExportPanel } from './components/animation/AnimationExportPanel'
+import { ValidationReportPanel } from './components/data/ValidationReportPanel'
+import { IdentifierReportPanel } from './components/data/IdentifierReportPanel'
+import { DifferentialPlots } from './components/de/DifferentialPlots'
+import { NormalizationPanel } from './components/data/NormalizationPanel'
+import { PaletteEditor } from './components/palette/PaletteEditor'
+import { CvdFilterDefs, CvdSimulationPanel } from './components/palette/CvdSimulation'
+import { BivariateLegend } from './components/palette/BivariateLegend'
+import { ColorLegend } from './components/palette/ColorLegend'
+import { cvdFilterStyle, type CvdType } from './utils/cvd'
 import { sampleTimelineData, cancerProgressionTimeline } from './data/sampleTimeline'
-type NormalizedGene = Omit<PaletteGene, 'color'>
-
-const paletteModes: Array<{
-  id: PaletteModeId
-  name: string
-  description: string
-  gradient: string
-}> = [
-  {
-    id: 'aurora',
-    name: 'Aurora Flux',
-    description: 'Warm up-regulation, cool down-regulation',
-    gradient: 'from-aurora to-plasma',
-  },
-  {
-    id: 'ion',
-    name: 'Ion Drift',
-    description: 'High variance pops with neon plasma edge',
-    gradient: 'from-ion to-aurora',
-  },
-  {
-    id: 'void',
-    name: 'Void Bloom',
-    description: 'Muted lows with sharp violet peaks',
-    gradient: 'from-slate-500 to-aurora',
-  },
-]
 
 function App() {
-  const [mode, setMode] = useState(paletteModes[0].id)
-  const [source, setSource] = useState<'sample' | 'custom'>('sample')
-  const [customGenes, setCustomGenes] = useState<GeneExpression[]>([])
+  const [mode, setMode] = useState<PaletteModeId>(builtinPalettes[0].id)
+  const [customPalettes, setCustomPalettes] = useState<PaletteDefinition[]>(loadPalettePresets)
+  const [editingPalette, setEditingPalette] = useState<PaletteDefinition | null>(null)
+  const [cvdSimulation, setCvdSimulation] = useState<CvdType>('none')
+  const [exportFormat, setExportFormat] = useState<PaletteExportFormat>('css')
+  const [posterPage, setPosterPage] = useState<PosterPageSettings>(DEFAULT_POSTER_PAGE)
+  const [posterText, setPosterText] = useState<PosterTextOverrides>(DEFAULT_POSTER_TEXT)
+  const [particleSeed, setParticleSeed] = useState(randomSeed)
+  const [particleLayout, setParticleLayout] = useState<ParticleLayoutId>('ring')
+  const [timelineLayout, setTimelineLayout] = useState<ParticleLayoutId>('ring')
+  const [source, setSource] = useState<'sample' | 'custom' | 'de'>('sample')
+  const [customMatrix, setCustomMatrix] = useState<ExpressionMatrix | null>(null)
+  const [sourceFile, setSourceFile] = useState<SourceFile | null>(null)
+  const [sampleIndex, setSampleIndex] = useState(0)
   const [uploadError, setUploadError] = useState<string | null>(null)
+  const [importReport, setImportReport] = useState<ValidationReport | null>(null)
+  const [differentialGenes, setDifferentialGenes] = useState<DifferentialGene[]>([])
+  const [significanceStatistic, setSignificanceStatistic] = useState<SignificanceStatistic>('padj')
+  // 校验报告中存在错误时，等待用户确认“仅导入有效行”
+  const [pendingImport, setPendingImport] = useState<{ apply: () => void } | null>(null)
+  const [identifierReport, setIdentifierReport] = useState<IdentifierReport | null>(null)
   const [selectedGene, setSelectedGene] = useState<GeneExpression | null>(null)
+  // 粒子画布中 Shift 点击 / 套索多选的基因，差异表达图等面板据此联动
+  const [selectedSymbols, setSelectedSymbols] = useState<Set<string>>(() => new Set())
+  const [normalization, setNormalization] = useState<NormalizationSettings>(DEFAULT_NORMALIZATION)
   
   // 时间线动画相关状态
   const [activeTimeline, setActiveTimeline] = useState<TimelineData | null>(null)
   const [timelineSource, setTimelineSource] = useState<'sample1' | 'sample2' | 'custom'>('sample1')
   const [timelineError, setTimelineError] = useState<string | null>(null)
+  const [shareNotice, setShareNotice] = useState<SessionNotice | null>(null)
   
   const previewRef = useRef<HTMLDivElement>(null)
+  const particleSystemRef = useRef<BioParticleSystemHandle>(null)
   const posterRef = useRef<HTMLDivElement>(null)
   const animationRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const deInputRef = useRef<HTMLInputElement>(null)
 
-  const activeGenes = source === 'custom' ? customGenes : sampleGenes
-  const stats = useMemo(() => computeStats(activeGenes.map((gene) => gene.value)), [activeGenes])
-  const normalizedGenes = useMemo<NormalizedGene[]>(
+  const expressionMatrix = useMemo(
+    () => (source === 'custom' && customMatrix ? customMatrix : toSingleSampleMatrix(sampleGenes)),
+    [source, customMatrix],
+  )
+  const activeSampleIndex = source === 'custom' ? sampleIndex : 0
+  const activeGenes = useMemo<GeneExpression[]>(
+    () => (source === 'de' ? differentialGenes : getSampleGenes(expressionMatrix, activeSampleIndex)),
+    [source, differentialGenes, expressionMatrix, activeSampleIndex],
+  )
+  // 整个矩阵一起标准化（分位数标准化需要所有样本）
+  const normalizedMatrix = useMemo(
+    () => normalizeMatrix(expressionMatrix, normalization),
+    [expressionMatrix, normalization],
+  )
+  const normalizationLabel =
+    source === 'de' ? DIFFERENTIAL_NORMALIZATION_LABEL : describeNormalization(normalization)
+  const valueUnitLabel = source === 'de' ? 'log2FC' : 'expression'
+  const activeSampleName =
+    source === 'custom' && customMatrix?.layout === 'matrix' ? customMatrix.samples[sampleIndex] : undefined
+  const normalizedGenes = useMemo(
     () =>
-      activeGenes.map((gene) => ({
-        ...gene,
-        normalized: toZScore(gene.value, stats.mean, stats.std),
-        percentile: scaleToRange(gene.value, stats.min, stats.max, 0, 1),
-      })),
-    [activeGenes, stats],
+      source === 'de'
+        ? normalizeDifferentialGenes(differentialGenes, significanceStatistic)
+        : normalizeSampleGenes(activeGenes, normalizedMatrix.matrix, activeSampleIndex),
+    [source, activeGenes, differentialGenes, significanceStatistic, normalizedMatrix, activeSampleIndex],
   )
 
   const featuredGenes = useMemo(() => normalizedGenes.slice(0, 4), [normalizedGenes])
@@ -75,21 +132,42 @@ function App() {
     [activeGenes],
   )
 
-  const palette = useMemo(
-    () =>
-      normalizedGenes.map((gene) => ({
-        ...gene,
-        color: mapValueToColor(gene.normalized, mode),
-      })),
-    [normalizedGenes, mode],
+  const paletteModes = useMemo(() => [...builtinPalettes, ...customPalettes], [customPalettes])
+  const activeMode = useMemo(
+    () => paletteModes.find((p) => p.id === mode) ?? builtinPalettes[0],
+    [paletteModes, mode],
   )
 
-  const activeMode = useMemo(() => paletteModes.find((p) => p.id === mode), [mode])
+  const palette = useMemo(() => applyPalette(normalizedGenes, activeMode), [normalizedGenes, activeMode])
+  // 多样本矩阵中每个基因跨样本的标准化表达谱，供相关性嵌入布局使用
+  const layoutProfiles = useMemo(
+    () =>
+      source === 'custom' && normalizedMatrix.matrix.samples.length >= MIN_EMBEDDING_SAMPLES
+        ? normalizedMatrix.matrix.genes.map((gene) => gene.values)
+        : null,
+    [source, normalizedMatrix],
+  )
   const selectedPaletteGene = useMemo(() => {
     if (!selectedGene) return null
     return palette.find((gene) => gene.symbol === selectedGene.symbol) ?? null
   }, [selectedGene, palette])
   const posterPrimaryGene = selectedPaletteGene ?? palette[0] ?? null
+  const posterLayout = useMemo(() => resolvePosterPage(posterPage), [posterPage])
+  const posterInput = {
+    palette,
+    primaryGene: posterPrimaryGene,
+    modeName: activeMode.name,
+    scale: activeMode,
+    sampleName: activeSampleName,
+    normalizationLabel,
+  }
+  // 未改写时的自动文字，作为编辑框提示
+  const autoPosterContent = buildPosterContent(posterInput)
+  const posterContent = buildPosterContent({ ...posterInput, text: posterText })
+  const selectedDifferential = useMemo(() => {
+    if (source !== 'de' || !selectedGene) return undefined
+    return differentialGenes.find((gene) => gene.symbol === selectedGene.symbol)
+  }, [source, selectedGene, differentialGenes])
 
   // 时间线数据管理
   const currentTimeline = useMemo(() => {
@@ -105,6 +183,70 @@ function App() {
     }
   }, [timelineSource, activeTimeline])
 
+  const applyCustomMatrix = (matrix: ExpressionMatrix, file: SourceFile | null) => {
+    setCustomMatrix(matrix)
+    setSourceFile(file)
+    setSampleIndex(0)
+    setSource('custom')
+    setUploadError(null)
+  }
+
+  const applyDifferentialGenes = (
+    genes: DifferentialGene[],
+    statistic: SignificanceStatistic,
+    file: SourceFile | null,
+  ) => {
+    setDifferentialGenes(genes)
+    setSignificanceStatistic(statistic)
+    setSourceFile(file)
+    setSource('de')
+    setMode('diverge')
+    setUploadError(null)
+  }
+
+  const savePalettePreset = (preset: PaletteDefinition) => {
+    const exists = customPalettes.some((p) => p.id === preset.id)
+    const next = exists
+      ? customPalettes.map((p) => (p.id === preset.id ? preset : p))
+      : [...customPalettes, preset]
+    setCustomPalettes(next)
+    savePalettePresets(next)
+    setMode(preset.id)
+    setEditingPalette(null)
+  }
+
+  const deletePalettePreset = (id: string) => {
+    const next = customPalettes.filter((p) => p.id !== id)
+    setCustomPalettes(next)
+    savePalettePresets(next)
+    if (mode === id) setMode(builtinPalettes[0].id)
+    setEditingPalette(null)
+  }
+
+  const handleImportResult = <T,>(
+    result:
+      | { ok: true; data: T; report: ValidationReport; identifiers: IdentifierReport }
+      | { ok: false; error: string; report?: ValidationReport },
+    apply: (data: T) => void,
+  ) => {
+    setImportReport(result.report && result.report.issues.length ? result.report : null)
+    setIdentifierReport(result.ok && hasIdentifierFindings(result.identifiers) ? result.identifiers : null)
+    setPendingImport(null)
+    if (!result.ok) {
+      setUploadError(result.error)
+      return
+    }
+
+    const { data } = result
+    if (hasErrors(result.report)) {
+      // 存在错误行时先展示报告，由用户确认是否仅导入有效行
+      setPendingImport({ apply: () => apply(data) })
+      setUploadError(null)
+    } else {
+      apply(data)
+    }
+  }
+
   const handleTimelineLoad = (timeline: TimelineData) => {
     setActiveTimeline(timeline)
     setTimelineSource('custom')
@@ -115,8 +257,133 @@ function App() {
     setTimelineError(error)
   }
 
+  const currentSession = () =>
+    createSession({
+      dataset: {
+        source,
+        matrix: customMatrix,
+        sampleIndex,
+        differential: differentialGenes,
+        statistic: significanceStatistic,
+        file: sourceFile,
+      },
+      normalization,
+      palette: { mode: activeMode.id, definition: activeMode.builtin ? null : activeMode },
+      selectedGene: selectedGene?.symbol ?? null,
+      poster: { text: posterText, page: posterPage },
+      timeline: { source: timelineSource, custom: activeTimeline },
+      view: { cvdSimulation, particleLayout, timelineLayout },
+      particleSeed,
+    })
+
+  const saveSession = () => downloadJSON('gene-flux-session.json', currentSession())
+
+  const currentProvenance = () =>
+    createProvenance({ palette, paletteMode: activeMode.name, normalization: normalizationLabel, session: currentSession() })
+
+  const shareSession = () => buildShareLink(currentSession(), window.location.href)
+
+  const restoreSession = (session: SessionBundle) => {
+    const { dataset } = session
+    setCustomMatrix(dataset.matrix)
+    setSampleIndex(dataset.sampleIndex)
+    setDifferentialGenes(dataset.differential)
+    setSignificanceStatistic(dataset.statistic)
+    setSourceFile(dataset.file)
+    setSource(dataset.source)
+    setNormalization(session.normalization)
+    // 会话中的自定义色阶写入本地预设（同 id 时以会话中的定义为准）
+    if (session.palette.definition) savePalettePreset(session.palette.definition)
+    setMode(session.palette.mode)
+    setEditingPalette(null)
+
+    const restoredGenes: GeneExpression[] =
+      dataset.source === 'de'
+        ? dataset.differential
+        : dataset.source === 'custom' && dataset.matrix
+        ? getSampleGenes(dataset.matrix, dataset.sampleIndex)
+        : sampleGenes
+    setSelectedGene(restoredGenes.find((gene) => gene.symbol === session.selectedGene) ?? null)
+    setSelectedSymbols(new Set())
+
+    setPosterText(session.poster.text)
+    setPosterPage(session.poster.page)
+    setActiveTimeline(session.timeline.custom)
+    setTimelineSource(session.timeline.source)
+    setCvdSimulation(session.view.cvdSimulation)
+    setParticleLayout(session.view.particleLayout)
+    setTimelineLayout(session.view.timelineLayout)
+    setParticleSeed(session.particleSeed)
+    setUploadError(null)
+    setImportReport(null)
+    setIdentifierReport(null)
+    setPendingImport(null)
+    setTimelineError(null)
+  }
+
+  // 打开分享链接时从 URL 片段恢复视图；恢复后清掉片段，避免之后的修改与地址栏内容不一致
+  const applySharedSession = useEffectEvent((result: SessionParseResult | null) => {
+    if (!result) return
+    if (result.ok) {
+      restoreSession(result.session)
+      setShareNotice({ tone: 'info', message: '已从分享链接恢复视图' })
+    } else {
+      setShareNotice({ tone: 'error', message: result.error })
+    }
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+  })
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      readShareHash(window.location.hash).then(applySharedSession)
+    }
+    handleHashChange()
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [])
+
+  // 矢量导出：图例与 PNG 版本使用同一组样本
+  const legendOptions = {
+    palette: activeMode,
+    samples: palette,
+    normalizedLabel: normalizationLabel,
+    unitLabel: valueUnitLabel,
+  }
+
+  // 画布左下角与矢量导出共用的标注，布局与种子写入后可从图像复现构图
+  const artCaption = `${activeMode.name} · ${normalizationLabel} · ${particleLayouts[particleLayout].label} · seed ${particleSeed}`
+
+  const exportArtSvg = () => {
+    const scene = particleSystemRef.current?.getSnapshot()
+    if (!scene) return
+    downloadSVG(
+      'gene-art.svg',
+      particleSceneToSvg(scene, { legend: legendOptions, caption: artCaption }),
+    )
+  }
+
+  const exportArtHtml = () => {
+    const particleSystem = particleSystemRef.current
+    if (!particleSystem) return
+    downloadHTML(
+      'gene-art.html',
+      particleArtToHtml(particleSystem.getSnapshot(), particleSystem.getSimulation(), {
+        genes: palette,
+        palette: activeMode,
+        seed: particleSeed,
+        title: 'Gene Flux Palette',
+        caption: artCaption,
+        unitLabel: valueUnitLabel,
+        statistic: significanceStatistic,
+      }),
+    )
+  }
+
+  const exportPosterSvg = () => downloadSVG('gene-poster.svg', posterToSvg(posterContent, legendOptions))
+
   return (
     <div className="relative min-h-screen overflow-hidden bg-night text-slate-100">
+      <CvdFilterDefs />
       <div className="absolute inset-0 bg-grid-glow bg-grid-sm opacity-40" />
       <div className="absolute inset-0 blur-[180px]">
         <div className="absolute -top-20 left-32 h-64 w-64 rounded-full bg-aurora/30" />
@@ -153,13 +420,38 @@ function App() {
               <div className="rounded-2xl border border-white/5 bg-slate-950/50 p-3">
                 <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Data source</p>
                 <p className="mt-2 font-mono text-sm text-plasma">
-                  {source === 'sample' ? 'Built-in sample' : 'Custom CSV'}
+                  {source === 'sample'
+                    ? 'Built-in sample'
+                    : source === 'de'
+                    ? 'Differential expression'
+                    : customMatrix?.layout === 'matrix'
+                    ? 'Custom matrix'
+                    : 'Custom CSV'}
                 </p>
-                {source === 'custom' && (
+                {source === 'custom' && customMatrix && customMatrix.samples.length > 1 && (
+                  <label className="mt-3 block">
+                    <span className="text-xs text-slate-500">
+                      Sample ({sampleIndex + 1}/{customMatrix.samples.length})
+                    </span>
+                    <select
+                      value={sampleIndex}
+                      onChange={(event) => setSampleIndex(Number(event.target.value))}
+                      className="mt-1 w-full rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-xs text-white focus:border-plasma/50 focus:outline-none"
+                    >
+                      {customMatrix.samples.map((sample, index) => (
+                        <option key={`${sample}-${index}`} value={index}>
+                          {sample}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {source !== 'sample' && (
                   <button
                     className="mt-3 w-full rounded-xl border border-plasma/30 bg-white/5 px-3 py-2 text-xs text-plasma transition hover:bg-white/10"
                     onClick={() => {
                       setSource('sample')
+                      setSourceFile(null)
                       setUploadError(null)
                     }}
                   >
@@ -169,25 +461,80 @@ function App() {
               </div>
             </div>
 
+            <NormalizationPanel
+              settings={normalization}
+              onChange={setNormalization}
+              allowQuantile={expressionMatrix.samples.length > 1}
+              notes={normalizedMatrix.notes}
+              disabledReason={source === 'de' ? '差异表达数据直接使用 log2FC 着色，不再标准化。' : undefined}
+            />
+
             <div className="mb-6 space-y-3">
               <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Palette Modes</p>
               {paletteModes.map((palette) => (
+                <div key={palette.id} className="relative">
+                  <button
+                    onClick={() => setMode(palette.id)}
+                    className={`w-full rounded-2xl border p-3 text-left transition-all duration-200 ${
+                      mode === palette.id
+                        ? 'border-plasma/50 bg-gradient-to-r from-white/10 to-white/5 shadow-lg shadow-plasma/20'
+                        : 'border-white/5 bg-slate-950/40 hover:border-plasma/30 hover:bg-slate-900/60'
+                    }`}
+                  >
+                    <div className="h-2 rounded-full" style={{ background: buildPaletteGradient(palette) }} />
+                    <p className="mt-2 font-medium text-white">
+                      {palette.name}
+                      {palette.colorblindSafe && (
+                        <span className="ml-2 rounded-md border border-ion/40 px-1.5 py-0.5 text-[10px] text-ion">CVD-safe</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-400">{palette.description || `${palette.stops.length} stops · ${palette.interpolation}`}</p>
+                  </button>
+                  {!palette.builtin && (
+                    <button
+                      onClick={() => setEditingPalette(palette)}
+                      className="absolute right-3 top-5 text-[11px] text-slate-400 hover:text-plasma"
+                    >
+                      Edit
+                    </button>
+                  )}
+                </div>
+              ))}
+              {editingPalette ? (
+                <PaletteEditor
+                  key={editingPalette.id}
+                  initial={editingPalette}
+                  previewValues={normalizedGenes.map((gene) => gene.normalized)}
+                  onSave={savePalettePreset}
+                  onCancel={() => setEditingPalette(null)}
+                  onDelete={
+                    customPalettes.some((p) => p.id === editingPalette.id)
+                      ? () => deletePalettePreset(editingPalette.id)
+                      : undefined
+                  }
+                />
+              ) : (
                 <button
-                  key={palette.id}
-                  onClick={() => setMode(palette.id)}
-                  className={`w-full rounded-2xl border p-3 text-left transition-all duration-200 ${
-                    mode === palette.id
-                      ? 'border-plasma/50 bg-gradient-to-r from-white/10 to-white/5 shadow-lg shadow-plasma/20'
-                      : 'border-white/5 bg-slate-950/40 hover:border-plasma/30 hover:bg-slate-900/60'
-                  }`}
+                  onClick={() =>
+                    setEditingPalette({
+                      ...activeMode,
+                      id: createPresetId(),
+                      name: `${activeMode.name} copy`,
+                      description: '',
+                      kind: 'continuous', // 双变量模式复制后以其类别色作为连续色阶节点
+                      builtin: false,
+                      colorblindSafe: false,
+                    })
+                  }
+                  className="w-full rounded-2xl border border-dashed border-white/15 p-2 text-xs text-slate-400 transition hover:border-plasma/40 hover:text-plasma"
                 >
-                  <div className={`h-2 rounded-full bg-gradient-to-r ${palette.gradient}`} />
-                  <p className="mt-2 font-medium text-white">{palette.name}</p>
-                  <p className="text-xs text-slate-400">{palette.description}</p>
+                  + New palette from current
                 </button>
-              ))}
+              )}
             </div>
 
+            <CvdSimulationPanel value={cvdSimulation} onChange={setCvdSimulation} palette={activeMode} />
+
             <div className="mb-6">
               <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Featured genes</p>
               <div className="mt-3 space-y-2">
@@ -197,7 +544,10 @@ function App() {
                     className="flex items-center justify-between rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2"
                   >
                     <div>
-                      <p className="font-mono text-sm text-plasma">{gene.symbol}</p>
+                      <p className="font-mono text-sm text-plasma">
+                        {gene.symbol}
+                        {gene.originalId && <span className="ml-2 text-[10px] text-slate-500">{gene.originalId}</span>}
+                      </p>
                       <p className="text-xs text-slate-400">{gene.description}</p>
                     </div>
                     <p className="font-semibold text-white">{gene.value.toFixed(1)}</p>
@@ -206,6 +556,15 @@ function App() {
               </div>
             </div>
 
+            <SessionPanel
+              onSave={saveSession}
+              onShare={shareSession}
+              onRestore={restoreSession}
+              notice={shareNotice}
+            />
+
+            <ProvenanceDropZone onRestore={restoreSession} />
+
             <div>
               <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Upload CSV</p>
               <div className="mt-2 rounded-2xl border border-dashed border-plasma/40 bg-white/[0.04] p-4">
@@ -217,14 +576,8 @@ function App() {
                   onChange={async (event) => {
                     const file = event.target.files?.[0]
                     if (!file) return
-                    const result = await parseGeneCsv(file)
-                    if (result.ok) {
-                      setCustomGenes(result.data)
-                      setSource('custom')
-                      setUploadError(null)
-                    } else {
-                      setUploadError(result.error)
-                    }
+                    const [result, uploaded] = await Promise.all([parseGeneCsv(file), hashSourceFile(file)])
+                    handleImportResult(result, (matrix) => applyCustomMatrix(matrix, uploaded))
                     if (inputRef.current) {
                       inputRef.current.value = ''
                     }
@@ -236,14 +589,64 @@ function App() {
                 >
                   选择 CSV 文件
                 </button>
+                <input
+                  ref={deInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt"
+                  className="hidden"
+                  onChange={async (event) => {
+                    const file = event.target.files?.[0]
+                    if (!file) return
+                    const [result, uploaded] = await Promise.all([parseDifferentialCsv(file), hashSourceFile(file)])
+                    // 回调只在解析成功时调用，此处的判断仅用于收窄类型
+                    handleImportResult(result, (genes) => {
+                      if (result.ok) applyDifferentialGenes(genes, result.statistic, uploaded)
+                    })
+                    if (deInputRef.current) {
+                      deInputRef.current.value = ''
+                    }
+                  }}
+                />
+                <button
+                  onClick={() => deInputRef.current?.click()}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-white/[0.03] px-3 py-2 text-sm text-slate-200 transition hover:border-plasma/60 hover:shadow-lg hover:shadow-plasma/20"
+                >
+                  导入差异分析结果（DE）
+                </button>
                 <p className="mt-2 text-xs text-slate-400">
-                  需要列：symbol / value / description。value 需为数字；建议 1~200 行。
+                  需要列：symbol / value / description，或第一列为基因、其余列为样本的表达矩阵。数值需为数字；建议 1~200 行。
+                  DE 结果需包含 gene, log2FoldChange, pvalue, padj, baseMean（兼容 edgeR / limma 列名）。
                 </p>
                 {uploadError && (
                   <p className="mt-2 text-xs text-rose-300">
                     {uploadError}
                   </p>
                 )}
+                {importReport && (
+                  <div className="mt-3">
+                    <ValidationReportPanel
+                      report={importReport}
+                      onAcceptValid={
+                        pendingImport
+                          ? () => {
+                              pendingImport.apply()
+                              setPendingImport(null)
+                              setImportReport(null)
+                            }
+                          : undefined
+                      }
+                      onDismiss={() => {
+                        setImportReport(null)
+                        setPendingImport(null)
+                      }}
+                    />
+                  </div>
+                )}
+                {identifierReport && (
+                  <div className="mt-3">
+                    <IdentifierReportPanel report={identifierReport} onDismiss={() => setIdentifierReport(null)} />
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -262,42 +665,114 @@ function App() {
               </div>
               <div className="rounded-2xl border border-plasma/30 bg-slate-950/60 px-4 py-3 text-right sm:flex-shrink-0">
                 <p className="text-xs text-slate-400">Active mode</p>
-                <p className="mt-1 font-display text-lg text-plasma lg:text-xl">{activeMode?.name}</p>
+                <p className="mt-1 font-display text-lg text-plasma lg:text-xl">{activeMode.name}</p>
               </div>
+              <LayoutControl value={particleLayout} onChange={setParticleLayout} embeddable={layoutProfiles !== null} />
+              <SeedControl key={particleSeed} seed={particleSeed} onChange={setParticleSeed} />
             </div>
 
             {/* 粒子系统画布 */}
-            <div
-              ref={previewRef}
-              className="relative min-h-[500px] w-full overflow-hidden rounded-3xl border border-white/10 bg-slate-950/40 p-6 lg:min-h-[600px] lg:p-8"
-            >
-              <BioParticleSystem
-                genes={palette}
-                mode={mode}
-                onParticleClick={(gene) => {
-                  setSelectedGene(gene)
-                  const matched = palette.find(p => p.symbol === gene.symbol)
-                  if (matched) {
-                    setSelectedGene(matched)
-                  }
-                }}
-              />
+            <div style={{ filter: cvdFilterStyle(cvdSimulation) }}>
+              <div
+                ref={previewRef}
+                className="relative min-h-[500px] w-full overflow-hidden rounded-3xl border border-white/10 bg-slate-950/40 p-6 lg:min-h-[600px] lg:p-8"
+              >
+                <BioParticleSystem
+                  ref={particleSystemRef}
+                  genes={palette}
+                  seed={particleSeed}
+                  layout={particleLayout}
+                  profiles={layoutProfiles}
+                  selection={selectedSymbols}
+                  onSelectionChange={setSelectedSymbols}
+                  unitLabel={valueUnitLabel}
+                  mode={mode}
+                  onParticleClick={(gene) => {
+                    setSelectedGene(gene)
+                    const matched = palette.find(p => p.symbol === gene.symbol)
+                    if (matched) {
+                      setSelectedGene(matched)
+                    }
+                  }}
+                />
+                {/* 标注标准化流程与布局种子，导出 PNG 时一并保留 */}
+                <p className="pointer-events-none absolute bottom-4 left-6 font-mono text-[11px] text-slate-500">
+                  {artCaption}
+                </p>
+                <ColorLegend
+                  palette={activeMode}
+                  samples={palette}
+                  normalizedLabel={normalizationLabel}
+                  unitLabel={valueUnitLabel}
+                  className="absolute bottom-4 right-4 w-72"
+                />
+              </div>
             </div>
 
+            <SelectionPanel
+              genes={palette}
+              selection={selectedSymbols}
+              unitLabel={valueUnitLabel}
+              onChange={setSelectedSymbols}
+            />
+
             {/* 导出按钮 */}
             <div className="mt-6 flex flex-wrap gap-3 border-t border-white/5 pt-6">
               <button
-                onClick={() => downloadJSON('gene-palette.json', buildPalettePayload(palette))}
+                onClick={() =>
+                  downloadJSON(
+                    'gene-palette.json',
+                    buildPalettePayload(palette, {
+                      paletteMode: activeMode.name,
+                      palette: activeMode,
+                      normalization: normalizationLabel,
+                      normalizationSettings: source === 'de' ? null : normalization,
+                      sample: activeSampleName ?? null,
+                      seed: particleSeed,
+                    }),
+                  )
+                }
                 className="rounded-xl border border-white/10 bg-white/[0.04] px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma"
               >
                 Export palette JSON
               </button>
+              <div className="flex overflow-hidden rounded-xl border border-white/10 bg-white/[0.04]">
+                <select
+                  value={exportFormat}
+                  onChange={(event) => setExportFormat(event.target.value as PaletteExportFormat)}
+                  className="bg-transparent px-3 py-2 text-sm text-slate-100 focus:outline-none"
+                >
+                  {(Object.keys(paletteExportFormats) as PaletteExportFormat[]).map((id) => (
+                    <option key={id} value={id} className="bg-slate-900">
+                      {paletteExportFormats[id].label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => downloadPaletteFormat(exportFormat, palette, activeMode)}
+                  className="border-l border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:bg-white/[0.08] hover:text-plasma"
+                >
+                  Export
+                </button>
+              </div>
               <button
-                onClick={() => downloadPNG(previewRef.current, 'gene-art.png')}
+                onClick={() => downloadPNG(previewRef.current, 'gene-art.png', currentProvenance())}
                 className="rounded-xl border border-white/10 bg-white/[0.04] px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma"
               >
                 Export art PNG
               </button>
+              <button
+                onClick={exportArtSvg}
+                className="rounded-xl border border-white/10 bg-white/[0.04] px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma"
+              >
+                Export art SVG
+              </button>
+              <button
+                onClick={exportArtHtml}
+                className="rounded-xl border border-white/10 bg-white/[0.04] px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma"
+              >
+                Export art HTML
+              </button>
             </div>
           </div>
 
@@ -307,12 +782,22 @@ function App() {
               gene={selectedGene}
               normalized={selectedGene ? palette.find(p => p.symbol === selectedGene.symbol)?.normalized || 0 : 0}
               color={selectedGene ? palette.find(p => p.symbol === selectedGene.symbol)?.color.hex || '#ffffff' : '#ffffff'}
+              differential={selectedDifferential}
+              statistic={significanceStatistic}
+              palette={activeMode}
             />
 
+            {activeMode.kind === 'bivariate' && (
+              <BivariateLegend palette={activeMode} symbols={palette.map((gene) => gene.symbol)} />
+            )}
+
             {/* 色卡网格 */}
             <div className="rounded-3xl border border-white/10 bg-slate-950/40 p-4 lg:p-6">
               <p className="text-xs uppercase tracking-[0.3em] text-slate-500">基因色卡</p>
-              <div className="mt-4 grid grid-cols-3 gap-2 sm:grid-cols-4 lg:grid-cols-5 lg:gap-3">
+              <div
+                className="mt-4 grid grid-cols-3 gap-2 sm:grid-cols-4 lg:grid-cols-5 lg:gap-3"
+                style={{ filter: cvdFilterStyle(cvdSimulation) }}
+              >
                 {palette.slice(0, 10).map((gene) => (
                   <button
                     key={gene.symbol}
@@ -323,7 +808,7 @@ function App() {
                         : 'border-white/10 hover:border-plasma/40'
                     }`}
                     style={{ backgroundColor: gene.color.hex }}
-                    title={`${gene.symbol}: ${gene.value.toFixed(2)}`}
+                    title={`${gene.symbol}${gene.originalId ? ` (${gene.originalId})` : ''}: ${gene.value.toFixed(2)}`}
                   >
                     <span className="absolute inset-0 flex items-center justify-center text-xs font-bold text-white opacity-0 transition group-hover:opacity-100">
                       {gene.symbol}
@@ -331,10 +816,41 @@ function App() {
         </button>
                 ))}
               </div>
+              <ColorLegend
+                palette={activeMode}
+                samples={palette}
+                normalizedLabel={normalizationLabel}
+                unitLabel={valueUnitLabel}
+                className="mt-4"
+              />
             </div>
           </div>
         </section>
 
+        {/* 差异表达视图 */}
+        {source === 'de' && (
+          <section className="w-full rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl shadow-aurora/10 backdrop-blur-2xl lg:p-8">
+            <div className="mb-6">
+              <p className="text-xs uppercase tracking-[0.35em] text-slate-400">Differential Expression</p>
+              <h2 className="mt-2 font-display text-2xl text-white lg:text-3xl">火山图 / MA 图</h2>
+              <p className="max-w-2xl text-sm leading-relaxed text-slate-300">
+                颜色与粒子画布一致（log2FC 发散色阶），点击散点即可在数据故事中查看该基因。
+              </p>
+            </div>
+            <DifferentialPlots
+              genes={differentialGenes}
+              statistic={significanceStatistic}
+              palette={palette}
+              selectedSymbol={selectedGene?.symbol}
+              highlighted={selectedSymbols}
+              onSelect={(symbol) => {
+                const matched = palette.find((gene) => gene.symbol === symbol)
+                if (matched) setSelectedGene(matched)
+              }}
+            />
+          </section>
+        )}
+
         {/* 下栏：科研海报模板 */}
         <section className="w-full rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl shadow-plasma/10 backdrop-blur-2xl lg:p-8">
           <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
@@ -346,15 +862,44 @@ function App() {
         </p>
       </div>
             <button
-              onClick={() => downloadPNG(posterRef.current, 'gene-poster.png')}
+              onClick={exportPosterSvg}
               className="mt-2 rounded-xl border border-white/10 bg-white/[0.04] px-5 py-2.5 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma md:mt-0"
             >
-              Export poster PNG
+              Export poster SVG
             </button>
           </div>
 
-          <div ref={posterRef}>
-            <PosterPreview palette={palette} primaryGene={posterPrimaryGene} modeName={activeMode?.name} />
+          <PosterTextEditor value={posterText} onChange={setPosterText} placeholders={autoPosterContent} />
+
+          <PosterPrintPanel
+            settings={posterPage}
+            onChange={setPosterPage}
+            targetRef={posterRef}
+            provenance={currentProvenance}
+            title={posterContent.title}
+          />
+
+          {/* 色觉模拟滤镜放在导出节点外层，导出的 PNG 不受影响 */}
+          <div style={{ filter: cvdFilterStyle(cvdSimulation) }}>
+            <PosterStage
+              width={posterLayout.width + posterLayout.bleed * 2}
+              height={posterLayout.height + posterLayout.bleed * 2}
+            >
+              <div ref={posterRef}>
+                <PosterPreview
+                  palette={palette}
+                  primaryGene={posterPrimaryGene}
+                  modeName={activeMode.name}
+                  scale={activeMode}
+                  valueUnitLabel={valueUnitLabel}
+                  sampleName={activeSampleName}
+                  normalizationLabel={normalizationLabel}
+                  text={posterText}
+                  page={posterLayout}
+                  showGuides={posterPage.showGuides}
+                />
+              </div>
+            </PosterStage>
           </div>
         </section>
 
@@ -368,25 +913,44 @@ function App() {
                 输入多组时间序列数据，生成动态艺术动画，讲述"细胞的一生"。
               </p>
             </div>
-            <button
-              onClick={() => downloadPNG(animationRef.current, 'gene-animation.png')}
-              className="mt-2 rounded-xl border border-white/10 bg-white/[0.04] px-5 py-2.5 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma md:mt-0"
-            >
-              Export frame PNG
-            </button>
+            <div className="flex flex-wrap items-center gap-3">
+              <LayoutControl
+                value={timelineLayout}
+                onChange={setTimelineLayout}
+                embeddable={(currentTimeline?.timePoints.length ?? 0) >= MIN_EMBEDDING_SAMPLES}
+              />
+              <button
+                onClick={() => downloadPNG(animationRef.current, 'gene-animation.png')}
+                className="mt-2 rounded-xl border border-white/10 bg-white/[0.04] px-5 py-2.5 text-sm font-medium text-slate-100 transition hover:border-plasma/40 hover:bg-white/[0.08] hover:text-plasma md:mt-0"
+              >
+                Export frame PNG
+              </button>
+            </div>
           </div>
 
           <div className="grid gap-8 lg:grid-cols-[1fr,400px]">
             {/* 动画播放器 */}
-            <div ref={animationRef}>
+            <div className="space-y-4">
+              <div ref={animationRef}>
+                {currentTimeline && (
+                  <TimelineAnimator
+                    timeline={currentTimeline}
+                    palette={activeMode}
+                    normalization={normalization}
+                    layout={timelineLayout}
+                    onFrameChange={(frame, frameIndex) => {
+                      // 可以在这里处理帧变化事件
+                      console.log(`Frame ${frameIndex}:`, frame.timePoint.label)
+                    }}
+                  />
+                )}
+              </div>
               {currentTimeline && (
-                <TimelineAnimator
+                <AnimationExportPanel
                   timeline={currentTimeline}
-                  mode={mode}
-                  onFrameChange={(frame, frameIndex) => {
-                    // 可以在这里处理帧变化事件
-                    console.log(`Frame ${frameIndex}:`, frame.timePoint.label)
-                  }}
+                  palette={activeMode}
+                  normalization={normalization}
+                  layout={timelineLayout}
                 />
               )}
             </div>
@@ -0,0 +1,215 @@
+/**
+ * 时间线动画导出：GIF 或 PNG 帧序列（ZIP），共用分辨率与帧率选项，带进度条
+ */
+
+import { useRef, useState } from 'react'
+import type { TimelineData } from '../../types/timeline'
+import type { PaletteDefinition } from '../../types/palette'
+import type { NormalizationSettings } from '../../utils/normalization'
+import type { GifQuantization } from '../../utils/gif'
+import type { ParticleLayoutId } from '../../utils/particleLayout'
+import { DEFAULT_GIF_OPTIONS, exportTimelineGif, type GifExportOptions } from '../../utils/timelineGif'
+import { exportTimelineFrames } from '../../utils/frameSequence'
+import { TIMELINE_RENDER_CONFIG } from '../../utils/timelineRenderer'
+import { downloadBlob } from '../../utils/export'
+
+type AnimationExportPanelProps = {
+  timeline: TimelineData
+  palette: PaletteDefinition
+  normalization: NormalizationSettings
+  layout: ParticleLayoutId
+}
+
+type ExportFormat = 'gif' | 'frames'
+
+const formatLabels: Record<ExportFormat, string> = {
+  gif: 'Animated GIF',
+  frames: 'PNG frames + manifest (ZIP)',
+}
+
+const scaleOptions = [0.5, 0.75, 1, 2]
+const fpsOptions = [10, 15, 20, 30]
+const colorOptions = [32, 64, 128, 256]
+
+const quantizationLabels: Record<GifQuantization, string> = {
+  'median-cut': 'Median cut (adaptive)',
+  uniform: 'Uniform 252-color cube (fast)',
+}
+
+const selectClassName =
+  'mt-1 w-full rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1.5 text-xs text-white focus:border-plasma/50 focus:outline-none disabled:opacity-40'
+
+export function AnimationExportPanel({ timeline, palette, normalization, layout }: AnimationExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>('gif')
+  const [options, setOptions] = useState<GifExportOptions>(DEFAULT_GIF_OPTIONS)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const update = (patch: Partial<GifExportOptions>) => setOptions((prev) => ({ ...prev, ...patch }))
+  const running = progress !== null
+  const totalFrames = Math.ceil(timeline.totalDuration * options.fps)
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ done: 0, total: totalFrames })
+    const hooks = {
+      signal: controller.signal,
+      onProgress: (done: number, total: number) => setProgress({ done, total }),
+    }
+    const baseName = timeline.title || 'gene-movie'
+    try {
+      if (format === 'gif') {
+        downloadBlob(`${baseName}.gif`, await exportTimelineGif(timeline, palette, normalization, { ...options, layout }, hooks))
+      } else {
+        downloadBlob(`${baseName}-frames.zip`, await exportTimelineFrames(timeline, palette, normalization, { ...options, layout }, hooks))
+      }
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError(err instanceof Error ? err.message : '动画导出失败')
+      }
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/40 p-4 text-xs text-slate-300">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="uppercase tracking-[0.3em] text-slate-500">Animation Export</p>
+        <p className="text-slate-500">
+          {Math.round(TIMELINE_RENDER_CONFIG.canvasWidth * options.scale)}×
+          {Math.round(TIMELINE_RENDER_CONFIG.canvasHeight * options.scale)} · {totalFrames} frames
+        </p>
+      </div>
+
+      <div className="mb-3 flex gap-2">
+        {(Object.keys(formatLabels) as ExportFormat[]).map((id) => (
+          <button
+            key={id}
+            onClick={() => setFormat(id)}
+            disabled={running}
+            className={`rounded-lg border px-3 py-1 transition disabled:opacity-40 ${
+              format === id
+                ? 'border-plasma/50 bg-plasma/10 text-plasma'
+                : 'border-white/10 bg-white/5 text-slate-300 hover:border-plasma/30'
+            }`}
+          >
+            {formatLabels[id]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+        <label className="block">
+          <span className="text-slate-500">Resolution</span>
+          <select
+            value={options.scale}
+            disabled={running}
+            onChange={(event) => update({ scale: Number(event.target.value) })}
+            className={selectClassName}
+          >
+            {scaleOptions.map((scale) => (
+              <option key={scale} value={scale}>
+                {Math.round(TIMELINE_RENDER_CONFIG.canvasWidth * scale)}×{Math.round(TIMELINE_RENDER_CONFIG.canvasHeight * scale)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Frame rate</span>
+          <select
+            value={options.fps}
+            disabled={running}
+            onChange={(event) => update({ fps: Number(event.target.value) })}
+            className={selectClassName}
+          >
+            {fpsOptions.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps} fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Loop count</span>
+          <input
+            type="number"
+            min={0}
+            value={options.loopCount}
+            disabled={running || format !== 'gif'}
+            onChange={(event) => update({ loopCount: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+            className={selectClassName}
+            title="0 = 无限循环"
+          />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Quantization</span>
+          <select
+            value={options.quantization}
+            disabled={running || format !== 'gif'}
+            onChange={(event) => update({ quantization: event.target.value as GifQuantization })}
+            className={selectClassName}
+          >
+            {(Object.keys(quantizationLabels) as GifQuantization[]).map((id) => (
+              <option key={id} value={id}>
+                {quantizationLabels[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Colors / frame</span>
+          <select
+            value={options.colors}
+            disabled={running || format !== 'gif' || options.quantization === 'uniform'}
+            onChange={(event) => update({ colors: Number(event.target.value) })}
+            className={selectClassName}
+          >
+            {colorOptions.map((colors) => (
+              <option key={colors} value={colors}>
+                {colors}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {progress && (
+        <div className="mt-4">
+          <div className="h-2 overflow-hidden rounded-full bg-white/5">
+            <div
+              className="h-full bg-gradient-to-r from-aurora to-plasma transition-all"
+              style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-slate-500">
+            渲染中 {progress.done} / {progress.total} 帧
+          </p>
+        </div>
+      )}
+      {error && <p className="mt-3 text-red-300">{error}</p>}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={running}
+          className="rounded-xl border border-plasma/40 bg-plasma/10 px-4 py-2 text-sm font-medium text-plasma transition hover:bg-plasma/20 disabled:opacity-40"
+        >
+          {format === 'gif' ? 'Export GIF' : 'Export frames ZIP'}
+        </button>
+        {running && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="rounded-xl border border-white/10 px-4 py-2 text-sm text-slate-300 hover:border-red-400/40 hover:text-red-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
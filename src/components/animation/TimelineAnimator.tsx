@@ -1,47 +1,41 @@
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import type { TimelineData, AnimationState, AnimationFrame } from '../../types/timeline'
-import type { PaletteModeId } from '../../utils/color'
-import { generateAnimationFrames, calculateAnimationStats } from '../../utils/animation'
-import { mapValueToColor } from '../../utils/color'
-import { computeStats, toZScore } from '../../utils/math'
-import { getGenePathways } from '../../data/geneKnowledge'
+import type { PaletteDefinition } from '../../types/palette'
+import { generateAnimationFrames } from '../../utils/animation'
+import { DEFAULT_NORMALIZATION, normalizeBySymbol, type NormalizationSettings } from '../../utils/normalization'
+import {
+  TIMELINE_RENDER_CONFIG,
+  createParticles,
+  renderParticles,
+  updateParticles as advanceParticles,
+  type AnimatedParticle,
+} from '../../utils/timelineRenderer'
+import type { ParticleLayoutId } from '../../utils/particleLayout'
+import { ColorLegend } from '../palette/ColorLegend'
+import { applySurfaceTransform, useCanvasSurface } from '../../hooks/useCanvasSurface'
 
 type TimelineAnimatorProps = {
   timeline: TimelineData
-  mode: PaletteModeId
+  palette: PaletteDefinition
+  normalization?: NormalizationSettings
+  layout?: ParticleLayoutId
   onFrameChange?: (frame: AnimationFrame, frameIndex: number) => void
 }
 
-type AnimatedParticle = {
-  symbol: string
-  x: number
-  y: number
-  targetX: number
-  targetY: number
-  vx: number
-  vy: number
-  radius: number
-  targetRadius: number
-  color: string
-  targetColor: string
-  value: number
-  normalized: number
-  trail: Array<{ x: number; y: number; alpha: number }>
-}
-
+// 粒子始终在 canvasWidth × canvasHeight 的逻辑画布中模拟（与离线导出一致），页面上按容器宽度等比缩放显示
 const ANIMATION_CONFIG = {
   fps: 30,
-  particleCount: 50,
-  trailLength: 8,
-  transitionSpeed: 0.15,
-  minRadius: 6,
-  maxRadius: 25,
-  canvasWidth: 800,
-  canvasHeight: 600,
+  aspectRatio: TIMELINE_RENDER_CONFIG.canvasWidth / TIMELINE_RENDER_CONFIG.canvasHeight,
 }
 
-export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnimatorProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
+export function TimelineAnimator({
+  timeline,
+  palette,
+  normalization = DEFAULT_NORMALIZATION,
+  layout = 'ring',
+  onFrameChange,
+}: TimelineAnimatorProps) {
+  const { containerRef, canvasRef, sizeRef, size } = useCanvasSurface({ aspectRatio: ANIMATION_CONFIG.aspectRatio })
   const animationRef = useRef<number | null>(null)
   const particlesRef = useRef<AnimatedParticle[]>([])
   const framesRef = useRef<AnimationFrame[]>([])
@@ -57,6 +51,14 @@ export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnim
   const [currentTimePoint, setCurrentTimePoint] = useState<string>('')
   const [progress, setProgress] = useState<number>(0)
 
+  // 图例按当前时间点的原始数值换算刻度
+  const legendSamples = useMemo(() => {
+    const timePoint = timeline.timePoints.find(tp => tp.label === currentTimePoint) ?? timeline.timePoints[0]
+    if (!timePoint) return []
+    const normalizedValues = normalizeBySymbol(timePoint.genes, normalization)
+    return timePoint.genes.map(g => ({ value: g.value, normalized: normalizedValues.get(g.symbol) ?? 0 }))
+  }, [timeline, currentTimePoint, normalization])
+
   // 生成动画帧
   useEffect(() => {
     const frames = generateAnimationFrames(timeline, ANIMATION_CONFIG.fps)
@@ -68,196 +70,23 @@ export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnim
   const initializeParticles = useCallback(() => {
     if (!timeline.timePoints.length) return
 
-    const stats = calculateAnimationStats(timeline)
-    const firstTimePoint = timeline.timePoints[0]
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const centerX = ANIMATION_CONFIG.canvasWidth / 2
-    const centerY = ANIMATION_CONFIG.canvasHeight / 2
-    const distributionRadius = Math.min(ANIMATION_CONFIG.canvasWidth, ANIMATION_CONFIG.canvasHeight) * 0.3
-
-    const particles: AnimatedParticle[] = stats.uniqueGenes.map((symbol, index) => {
-      const angle = (index / stats.uniqueGenes.length) * Math.PI * 2
-      const gene = firstTimePoint.genes.find(g => g.symbol === symbol)
-      const value = gene?.value || 0
-      
-      // 计算标准化值
-      const allValues = firstTimePoint.genes.map(g => g.value)
-      const geneStats = computeStats(allValues)
-      const normalized = toZScore(value, geneStats.mean, geneStats.std)
-      
-      // 计算颜色和大小
-      const color = mapValueToColor(normalized, mode)
-      const radius = ANIMATION_CONFIG.minRadius + 
-        ((normalized + 3) / 6) * (ANIMATION_CONFIG.maxRadius - ANIMATION_CONFIG.minRadius)
-
-      const x = centerX + Math.cos(angle) * distributionRadius
-      const y = centerY + Math.sin(angle) * distributionRadius
-
-      return {
-        symbol,
-        x,
-        y,
-        targetX: x,
-        targetY: y,
-        vx: 0,
-        vy: 0,
-        radius: Math.max(ANIMATION_CONFIG.minRadius, radius),
-        targetRadius: Math.max(ANIMATION_CONFIG.minRadius, radius),
-        color: color.hex,
-        targetColor: color.hex,
-        value,
-        normalized,
-        trail: [],
-      }
-    })
-
-    particlesRef.current = particles
-  }, [timeline, mode])
+    particlesRef.current = createParticles(timeline, palette, normalization, layout)
+  }, [timeline, palette, normalization, layout])
 
   // 更新粒子状态
   const updateParticles = useCallback((frame: AnimationFrame) => {
-    if (!frame.interpolatedGenes) return
-
-    const allValues = frame.interpolatedGenes.map(g => g.value)
-    const geneStats = computeStats(allValues)
-
-    particlesRef.current.forEach(particle => {
-      const gene = frame.interpolatedGenes!.find(g => g.symbol === particle.symbol)
-      if (!gene) return
-
-      // 更新数值和标准化值
-      particle.value = gene.value
-      particle.normalized = toZScore(gene.value, geneStats.mean, geneStats.std)
-
-      // 更新目标颜色和大小
-      const color = mapValueToColor(particle.normalized, mode)
-      particle.targetColor = color.hex
-      particle.targetRadius = Math.max(
-        ANIMATION_CONFIG.minRadius,
-        ANIMATION_CONFIG.minRadius + 
-        ((particle.normalized + 3) / 6) * (ANIMATION_CONFIG.maxRadius - ANIMATION_CONFIG.minRadius)
-      )
-
-      // 基于生物学通路调整位置
-      const pathways = getGenePathways(particle.symbol)
-      if (pathways.length > 0) {
-        // 有通路关系的基因会相互吸引
-        const relatedParticles = particlesRef.current.filter(p => 
-          p.symbol !== particle.symbol && 
-          pathways.some(pathway => pathway.genes.includes(p.symbol))
-        )
-
-        if (relatedParticles.length > 0) {
-          const avgX = relatedParticles.reduce((sum, p) => sum + p.x, 0) / relatedParticles.length
-          const avgY = relatedParticles.reduce((sum, p) => sum + p.y, 0) / relatedParticles.length
-          
-          // 轻微向相关基因聚集
-          particle.targetX += (avgX - particle.x) * 0.02
-          particle.targetY += (avgY - particle.y) * 0.02
-        }
-      }
-
-      // 平滑过渡
-      particle.x += (particle.targetX - particle.x) * ANIMATION_CONFIG.transitionSpeed
-      particle.y += (particle.targetY - particle.y) * ANIMATION_CONFIG.transitionSpeed
-      particle.radius += (particle.targetRadius - particle.radius) * ANIMATION_CONFIG.transitionSpeed
-      
-      // 颜色插值（简化版，实际应该在RGB空间插值）
-      if (particle.color !== particle.targetColor) {
-        particle.color = particle.targetColor
-      }
-
-      // 更新轨迹
-      particle.trail.unshift({ x: particle.x, y: particle.y, alpha: 1 })
-      if (particle.trail.length > ANIMATION_CONFIG.trailLength) {
-        particle.trail.pop()
-      }
-      
-      // 更新轨迹透明度
-      particle.trail.forEach((point, index) => {
-        point.alpha = 1 - (index / ANIMATION_CONFIG.trailLength)
-      })
-    })
-  }, [mode])
+    advanceParticles(particlesRef.current, frame, palette, normalization)
+  }, [palette, normalization])
 
   // 渲染函数
   const render = useCallback(() => {
-    const canvas = canvasRef.current
-    const ctx = canvas?.getContext('2d')
-    if (!ctx || !canvas) return
-
-    // 清空画布
-    ctx.fillStyle = 'rgba(3, 7, 18, 0.1)' // 轻微的拖尾效果
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-    // 绘制连接线（同一通路的基因）
-    particlesRef.current.forEach(particle => {
-      const pathways = getGenePathways(particle.symbol)
-      pathways.forEach(pathway => {
-        pathway.genes.forEach(geneSymbol => {
-          if (geneSymbol === particle.symbol) return
-          
-          const relatedParticle = particlesRef.current.find(p => p.symbol === geneSymbol)
-          if (!relatedParticle) return
-
-          const distance = Math.sqrt(
-            Math.pow(particle.x - relatedParticle.x, 2) + 
-            Math.pow(particle.y - relatedParticle.y, 2)
-          )
-
-          if (distance < 200) { // 只绘制较近的连接
-            ctx.strokeStyle = `rgba(127, 90, 240, ${0.2 * (1 - distance / 200)})`
-            ctx.lineWidth = 1
-            ctx.beginPath()
-            ctx.moveTo(particle.x, particle.y)
-            ctx.lineTo(relatedParticle.x, relatedParticle.y)
-            ctx.stroke()
-          }
-        })
-      })
-    })
+    const ctx = canvasRef.current?.getContext('2d')
+    const surface = sizeRef.current
+    if (!ctx || !surface) return
 
-    // 绘制粒子轨迹
-    particlesRef.current.forEach(particle => {
-      particle.trail.forEach((point, index) => {
-        if (index === 0) return // 跳过当前位置
-        
-        ctx.beginPath()
-        ctx.arc(point.x, point.y, particle.radius * 0.3, 0, Math.PI * 2)
-        ctx.fillStyle = `${particle.color}${Math.floor(point.alpha * 50).toString(16).padStart(2, '0')}`
-        ctx.fill()
-      })
-    })
-
-    // 绘制粒子
-    particlesRef.current.forEach(particle => {
-      // 发光效果
-      ctx.shadowBlur = 15
-      ctx.shadowColor = particle.color
-      
-      // 主粒子
-      ctx.beginPath()
-      ctx.arc(particle.x, particle.y, particle.radius, 0, Math.PI * 2)
-      ctx.fillStyle = particle.color
-      ctx.fill()
-      
-      // 重置阴影
-      ctx.shadowBlur = 0
-      
-      // 边框
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)'
-      ctx.lineWidth = 1
-      ctx.stroke()
-
-      // 基因标签
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
-      ctx.font = '10px monospace'
-      ctx.textAlign = 'center'
-      ctx.fillText(particle.symbol, particle.x, particle.y + particle.radius + 12)
-    })
-  }, [])
+    applySurfaceTransform(ctx, surface, surface.width / TIMELINE_RENDER_CONFIG.canvasWidth)
+    renderParticles(ctx, particlesRef.current)
+  }, [canvasRef, sizeRef])
 
   // 动画循环
   const animate = useCallback(() => {
@@ -316,8 +145,9 @@ export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnim
     }
   }, [animate, animationState.isPlaying])
 
-  // 初始渲染
+  // 初始渲染；尺寸变化会清空画布、布局变化会重建粒子，暂停时需要重绘当前帧
   useEffect(() => {
+    if (!size) return
     if (!animationState.isPlaying && framesRef.current.length > 0) {
       const currentFrame = framesRef.current[animationState.currentFrame]
       if (currentFrame) {
@@ -325,21 +155,17 @@ export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnim
         render()
       }
     }
-  }, [animationState.currentFrame, updateParticles, render, animationState.isPlaying])
+  }, [animationState.currentFrame, updateParticles, render, animationState.isPlaying, size, initializeParticles])
 
   return (
     <div className="flex flex-col space-y-4">
       {/* 画布 */}
-      <div className="relative overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60">
+      <div ref={containerRef} className="relative overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60">
         <canvas
           ref={canvasRef}
-          width={ANIMATION_CONFIG.canvasWidth}
-          height={ANIMATION_CONFIG.canvasHeight}
           className="block"
           style={{ 
             background: 'radial-gradient(circle at center, rgba(15, 23, 42, 0.8), rgba(3, 7, 18, 0.95))',
-            maxWidth: '100%',
-            height: 'auto'
           }}
         />
         
@@ -349,6 +175,14 @@ export function TimelineAnimator({ timeline, mode, onFrameChange }: TimelineAnim
           <p className="font-mono text-sm text-plasma">{currentTimePoint}</p>
           <p className="text-xs text-slate-500">进度: {Math.round(progress * 100)}%</p>
         </div>
+
+        <ColorLegend
+          palette={palette}
+          samples={legendSamples}
+          normalizedLabel="normalized"
+          unitLabel={`expression @ ${currentTimePoint || timeline.timePoints[0]?.label || ''}`}
+          className="absolute bottom-4 right-4 w-64"
+        />
       </div>
 
       {/* 控制面板 */}
@@ -1,25 +1,40 @@
 import { useState } from 'react'
-import Papa from 'papaparse'
 import type { TimelineData, TimePoint } from '../../types/timeline'
 import type { GeneExpression } from '../../data/sampleGenes'
+import { parseGeneCsv, parseTimelineCsv } from '../../utils/csv'
+import { getSampleGenes } from '../../utils/matrix'
+import { hasErrors, type ValidationReport } from '../../utils/validation'
+import { ValidationReportPanel } from '../data/ValidationReportPanel'
+import { IdentifierReportPanel } from '../data/IdentifierReportPanel'
+import { hasIdentifierFindings, type IdentifierReport } from '../../utils/identifiers'
 
 type TimelineUploaderProps = {
   onTimelineLoad: (timeline: TimelineData) => void
   onError: (error: string) => void
 }
 
+type ParsedCsv = {
+  genes: GeneExpression[]
+  report: ValidationReport
+  identifiers: IdentifierReport
+}
+
 type ParsedTimelineData = {
   title: string
   description: string
   timePoints: Array<{
     label: string
     timestamp: number
-    csvFile: File
+    csvFile: File | null
+    parsed?: ParsedCsv
+    acceptValidOnly?: boolean
   }>
 }
 
 export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderProps) {
   const [isUploading, setIsUploading] = useState(false)
+  const [longFormat, setLongFormat] = useState<{ report: ValidationReport; timeline?: TimelineData } | null>(null)
+  const [longFormatIdentifiers, setLongFormatIdentifiers] = useState<IdentifierReport | null>(null)
   const [timelineConfig, setTimelineConfig] = useState<ParsedTimelineData>({
     title: '',
     description: '',
@@ -34,7 +49,7 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
         {
           label: `时间点 ${prev.timePoints.length + 1}`,
           timestamp: prev.timePoints.length,
-          csvFile: null as any,
+          csvFile: null,
         },
       ],
     }))
@@ -56,67 +71,68 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
     }))
   }
 
-  const handleFileSelect = (index: number, file: File) => {
+  const patchTimePoint = (index: number, patch: Partial<ParsedTimelineData['timePoints'][number]>) => {
     setTimelineConfig(prev => ({
       ...prev,
       timePoints: prev.timePoints.map((tp, i) => 
-        i === index ? { ...tp, csvFile: file } : tp
+        i === index ? { ...tp, ...patch } : tp
       ),
     }))
   }
 
-  const parseCSVFile = (file: File): Promise<GeneExpression[]> => {
-    return new Promise((resolve, reject) => {
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (result) => {
-          if (result.errors.length > 0) {
-            reject(new Error(`CSV 解析错误: ${result.errors[0].message}`))
-            return
-          }
-
-          const requiredHeaders = ['symbol', 'value']
-          const actualHeaders = result.meta.fields || []
-          const missingHeaders = requiredHeaders.filter(h => !actualHeaders.includes(h))
-
-          if (missingHeaders.length > 0) {
-            reject(new Error(`缺少必需的列: ${missingHeaders.join(', ')}`))
-            return
-          }
-
-          const genes: GeneExpression[] = []
-          for (const row of result.data as any[]) {
-            const symbol = String(row.symbol || '').trim()
-            const value = Number(row.value)
-            const description = String(row.description || '').trim()
-
-            if (!symbol) {
-              reject(new Error(`基因符号不能为空`))
-              return
-            }
-            if (isNaN(value)) {
-              reject(new Error(`基因表达值必须是数字: ${row.value}`))
-              return
-            }
-
-            genes.push({ symbol, value, description })
-          }
-
-          if (genes.length === 0) {
-            reject(new Error('未找到有效的基因数据'))
-            return
-          }
-
-          resolve(genes)
-        },
-        error: (error: Error) => {
-          reject(error)
-        },
-      })
+  // 选择文件后立即校验，报告显示在对应时间点下方
+  const handleFileSelect = async (index: number, file: File) => {
+    patchTimePoint(index, { csvFile: file, parsed: undefined, acceptValidOnly: false })
+    try {
+      const parsed = await parseCSVFile(file)
+      patchTimePoint(index, { parsed })
+    } catch (error) {
+      patchTimePoint(index, { csvFile: null })
+      onError(error instanceof Error ? `${file.name}: ${error.message}` : '处理时间线数据时出错')
+    }
+  }
+
+  // 与主面板共用同一套校验：返回有效行以及逐行诊断
+  const parseCSVFile = async (file: File): Promise<ParsedCsv> => {
+    const result = await parseGeneCsv(file)
+    if (!result.ok) {
+      throw new Error(result.error)
+    }
+    return { genes: getSampleGenes(result.data, 0), report: result.report, identifiers: result.identifiers }
+  }
+
+  const loadLongFormatTimeline = (timeline: TimelineData) => {
+    setLongFormat(null)
+    onTimelineLoad({
+      ...timeline,
+      title: timelineConfig.title.trim() || timeline.title,
+      description: timelineConfig.description.trim() || timeline.description,
     })
   }
 
+  // 单个长格式 CSV 直接生成整条时间线，表单中填写的标题/描述优先
+  const handleLongFormatFile = async (file: File) => {
+    setIsUploading(true)
+    const result = await parseTimelineCsv(file)
+    setIsUploading(false)
+
+    if (!result.ok) {
+      setLongFormat(result.report?.issues.length ? { report: result.report } : null)
+      setLongFormatIdentifiers(null)
+      onError(result.error)
+      return
+    }
+
+    setLongFormatIdentifiers(hasIdentifierFindings(result.identifiers) ? result.identifiers : null)
+
+    if (hasErrors(result.report)) {
+      setLongFormat({ report: result.report, timeline: result.data })
+      return
+    }
+
+    loadLongFormatTimeline(result.data)
+  }
+
   const processTimeline = async () => {
     if (!timelineConfig.title.trim()) {
       onError('请输入时间线标题')
@@ -128,12 +144,20 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
       return
     }
 
-    const invalidTimePoints = timelineConfig.timePoints.filter(tp => !tp.csvFile)
+    const invalidTimePoints = timelineConfig.timePoints.filter(tp => !tp.csvFile || !tp.parsed)
     if (invalidTimePoints.length > 0) {
       onError('所有时间点都需要上传CSV文件')
       return
     }
 
+    const unresolved = timelineConfig.timePoints.find(
+      tp => tp.parsed && hasErrors(tp.parsed.report) && !tp.acceptValidOnly
+    )
+    if (unresolved) {
+      onError(`时间点 ${unresolved.label} 的 CSV 存在错误行，请查看校验报告或选择仅导入有效行`)
+      return
+    }
+
     setIsUploading(true)
 
     try {
@@ -141,13 +165,12 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
 
       for (let i = 0; i < timelineConfig.timePoints.length; i++) {
         const tp = timelineConfig.timePoints[i]
-        const genes = await parseCSVFile(tp.csvFile)
         
         processedTimePoints.push({
           id: `t${i}`,
           label: tp.label,
           timestamp: tp.timestamp,
-          genes,
+          genes: tp.parsed!.genes,
         })
       }
 
@@ -203,6 +226,39 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
         </div>
       </div>
 
+      {/* 单文件导入 */}
+      <div className="rounded-lg border border-dashed border-plasma/30 bg-slate-900/30 p-4">
+        <h4 className="text-sm font-medium text-slate-300">单文件导入（长格式）</h4>
+        <p className="mt-1 text-xs text-slate-400">
+          一个 CSV 包含 symbol, timepoint, timestamp, value[, description] 列，自动按时间点分组并排序
+        </p>
+        <input
+          type="file"
+          accept=".csv"
+          disabled={isUploading}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleLongFormatFile(file)
+            e.target.value = ''
+          }}
+          className="mt-3 w-full text-xs text-slate-300 file:mr-2 file:rounded file:border-0 file:bg-plasma/20 file:px-2 file:py-1 file:text-xs file:text-plasma"
+        />
+        {longFormat && (
+          <div className="mt-3">
+            <ValidationReportPanel
+              report={longFormat.report}
+              onAcceptValid={longFormat.timeline ? () => loadLongFormatTimeline(longFormat.timeline!) : undefined}
+              onDismiss={() => setLongFormat(null)}
+            />
+          </div>
+        )}
+        {longFormatIdentifiers && (
+          <div className="mt-3">
+            <IdentifierReportPanel report={longFormatIdentifiers} onDismiss={() => setLongFormatIdentifiers(null)} />
+          </div>
+        )}
+      </div>
+
       {/* 时间点配置 */}
       <div>
         <div className="mb-4 flex items-center justify-between">
@@ -270,6 +326,27 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
               {timePoint.csvFile && (
                 <div className="mt-2 text-xs text-slate-400">
                   已选择: {timePoint.csvFile.name}
+                  {timePoint.parsed && ` · 有效 ${timePoint.parsed.report.validRows}/${timePoint.parsed.report.totalRows} 行`}
+                  {timePoint.acceptValidOnly && ' · 仅导入有效行'}
+                </div>
+              )}
+
+              {timePoint.parsed && hasIdentifierFindings(timePoint.parsed.identifiers) && (
+                <div className="mt-3">
+                  <IdentifierReportPanel report={timePoint.parsed.identifiers} />
+                </div>
+              )}
+
+              {timePoint.parsed && timePoint.parsed.report.issues.length > 0 && !timePoint.acceptValidOnly && (
+                <div className="mt-3">
+                  <ValidationReportPanel
+                    report={timePoint.parsed.report}
+                    onAcceptValid={
+                      hasErrors(timePoint.parsed.report)
+                        ? () => patchTimePoint(index, { acceptValidOnly: true })
+                        : undefined
+                    }
+                  />
                 </div>
               )}
             </div>
@@ -291,6 +368,7 @@ export function TimelineUploader({ onTimelineLoad, onError }: TimelineUploaderPr
         <p className="font-medium text-slate-300 mb-2">使用说明：</p>
         <ul className="space-y-1 list-disc list-inside">
           <li>每个时间点需要一个CSV文件，包含 symbol, value, description 列</li>
+          <li>也可用单个长格式 CSV 一次导入全部时间点，标题默认取自文件名</li>
           <li>时间戳用于确定时间点的顺序和间隔</li>
           <li>建议使用相同的基因集合以获得最佳动画效果</li>
           <li>动画将自动在时间点之间进行平滑插值</li>
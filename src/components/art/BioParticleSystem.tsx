@@ -1,24 +1,40 @@
 /**
  * 基于生物学逻辑的粒子系统
  * 每个粒子代表一个基因，用通路关系驱动运动和颜色
+ * 模拟与绘制由 particleEngine 负责（优先在 Web Worker 中运行），组件只管理数据同步、指针交互与导出
+ *
+ * 交互：悬停查看数值 · 点击选中 · 拖动粒子并固定（双击解除）· 滚轮缩放 · 拖动空白处平移 · Shift 点击 / Shift 拖动套索多选
  */
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useEffectEvent, useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react'
 import type { GeneExpression } from '../../data/sampleGenes'
-import { areInSamePathway } from '../../data/geneKnowledge'
 import type { PaletteModeId } from '../../utils/color'
 import type { PaletteGene } from '../../types/palette'
-
-type Particle = {
-  gene: GeneExpression
-  x: number
-  y: number
-  vx: number
-  vy: number
-  radius: number
-  color: string
-  normalized: number
-}
+import type { ParticleSceneSnapshot } from '../../utils/svgExport'
+import { useCanvasSurface } from '../../hooks/useCanvasSurface'
+import {
+  IDENTITY_VIEW,
+  MIN_VIEW_SCALE,
+  clampView,
+  isIdentityView,
+  isInsidePolygon,
+  toScreen,
+  toWorld,
+  zoomView,
+  type ViewPoint,
+  type ViewTransform,
+} from '../../utils/canvasView'
+import { computeStats, toZScore } from '../../utils/math'
+import { createParticleEngine, type ParticleEngine } from '../../utils/particleEngine'
+import { computeLayout, type ParticleLayoutId } from '../../utils/particleLayout'
+import { getGlow } from '../../utils/particlePhysics'
+import type { RenderParticle } from '../../utils/particleRenderer'
+import {
+  collectPathwayLinks,
+  createSimulation,
+  findParticleAt,
+  type ParticleSimulation,
+} from '../../utils/particleSimulation'
 
 type BioParticleSystemProps = {
   genes: PaletteGene[]
@@ -26,13 +42,41 @@ type BioParticleSystemProps = {
   width?: number  // 未使用，保留用于未来扩展
   height?: number  // 未使用，保留用于未来扩展
   onParticleClick?: (gene: GeneExpression) => void
+  seed: number // 初速度的随机种子，相同种子 + 相同数据得到相同初始状态
+  layout: ParticleLayoutId // 初始布局，物理模拟从该布局开始
+  profiles?: number[][] | null // 与 genes 一一对应的跨样本表达谱，相关性嵌入布局使用
+  selection?: Set<string> // 多选的基因 symbol（由父组件持有，其他面板可据此联动）
+  onSelectionChange?: (symbols: Set<string>) => void
+  unitLabel?: string // 悬停提示中数值的单位
+  ref?: Ref<BioParticleSystemHandle>
+}
+
+export type BioParticleSystemHandle = {
+  getSnapshot: () => ParticleSceneSnapshot // 当前帧的粒子、连线与选中状态，用于矢量导出
+  getSimulation: () => ParticleSimulation<RenderParticle> // 当前的模拟状态（含固定的粒子），用于独立 HTML 导出
 }
 
-const GRAVITY_STRENGTH = 0.0008  // 通路内基因的引力强度（减小，避免过度聚集）
-const REPULSION_STRENGTH = 0.002  // 所有粒子之间的基础斥力（增大，防止重叠）
-const DAMPING = 0.95  // 阻尼系数
-const MIN_DISTANCE = 60  // 最小距离（增大，确保粒子不重叠：最大半径25*2+10余量）
-const MAX_DISTANCE = 200  // 最大引力距离
+// 一次按下到松开的指针手势；移动距离不足 DRAG_THRESHOLD 时视为点击
+type PointerGesture =
+  | { kind: 'drag'; index: number; start: ViewPoint; moved: boolean }
+  | { kind: 'pan'; origin: ViewTransform; start: ViewPoint; moved: boolean }
+  | { kind: 'lasso'; index: number; start: ViewPoint; points: ViewPoint[]; moved: boolean }
+
+type HoverState = {
+  gene: PaletteGene
+  x: number
+  y: number
+}
+
+const DRAG_THRESHOLD = 4
+const WHEEL_ZOOM_SPEED = 0.0015
+const TOOLTIP_OFFSET = 14
+const TOOLTIP_WIDTH = 180
+
+const styleOf = (gene: PaletteGene) => ({ color: gene.color.hex, glow: getGlow(gene) })
+
+const indicesOf = (genes: PaletteGene[], symbols: Set<string> | undefined) =>
+  symbols?.size ? genes.flatMap((gene, index) => (symbols.has(gene.symbol) ? [index] : [])) : []
 
 export function BioParticleSystem({
   genes,
@@ -40,351 +84,376 @@ export function BioParticleSystem({
   width: _propWidth, // 未使用，保留用于未来扩展
   height: _propHeight, // 未使用，保留用于未来扩展
   onParticleClick,
+  seed,
+  layout,
+  profiles,
+  selection,
+  onSelectionChange,
+  unitLabel = 'value',
+  ref,
 }: BioParticleSystemProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const containerRef = useRef<HTMLDivElement>(null)
-  const animationRef = useRef<number | undefined>(undefined)
-  const particlesRef = useRef<Particle[]>([])
-  const selectedGeneRef = useRef<GeneExpression | null>(null)
+  const engineRef = useRef<ParticleEngine | null>(null)
+  const genesRef = useRef<PaletteGene[]>([])  // 与粒子下标一一对应
+  const seedRef = useRef<number | null>(null)  // 当前粒子对应的种子
+  const layoutRef = useRef<ParticleLayoutId | null>(null)  // 当前粒子对应的初始布局
+  const gestureRef = useRef<PointerGesture | null>(null)
   const [selectedGene, setSelectedGene] = useState<GeneExpression | null>(null)
-  
-  // 完全固定的尺寸，只在首次加载时计算一次，之后不再改变
-  const dimensionsRef = useRef<{ width: number; height: number } | null>(null)
-  const dimensionsInitializedRef = useRef(false)
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW)
+  const [hovered, setHovered] = useState<HoverState | null>(null)
+  const [lasso, setLasso] = useState<ViewPoint[] | null>(null)
+
+  // 画布随容器缩放并按 devicePixelRatio 渲染；尺寸变化时按比例换算粒子坐标与平移量，模拟继续运行而不是重新开始
+  const { containerRef, canvasRef, sizeRef, size } = useCanvasSurface({
+    onResize: (next, previous) => {
+      if (!previous) return
+      engineRef.current?.resize(next)
+      setView((current) =>
+        clampView(
+          { ...current, x: (current.x * next.width) / previous.width, y: (current.y * next.height) / previous.height },
+          next,
+        ),
+      )
+    },
+  })
+  const ready = size !== null
+
+  // 悬停提示中的 z-score 以当前基因列表的原始数值计算
+  const valueStats = useMemo(() => computeStats(genes.map((gene) => gene.value)), [genes])
+
+  // 基因列表、种子与布局不变时只更新颜色和数值，绝对不重置位置；否则按布局与种子重新开始
+  const syncParticles = useEffectEvent(() => {
+    const engine = engineRef.current
+    const bounds = sizeRef.current
+    if (!engine || !bounds) return
+
+    const current = engine.simulation().particles
+    if (
+      seedRef.current === seed &&
+      layoutRef.current === layout &&
+      current.length === genes.length &&
+      current.every((p, i) => p.symbol === genes[i]?.symbol)
+    ) {
+      engine.restyle(genes.map(styleOf))
+    } else {
+      // 差异表达数据用显著性决定粒子大小，否则使用标准化表达值
+      seedRef.current = seed
+      layoutRef.current = layout
+      const points = computeLayout(
+        layout,
+        genes.map((gene, i) => ({ symbol: gene.symbol, value: gene.normalized, profile: profiles?.[i] })),
+      )
+      const simulation = createSimulation(
+        genes.map((gene) => ({ symbol: gene.symbol, size: gene.significance ?? gene.normalized })),
+        bounds,
+        seed,
+        points,
+      )
+      engine.reset({
+        ...simulation,
+        particles: simulation.particles.map((particle, i) => ({ ...particle, ...styleOf(genes[i]) })),
+      })
+    }
+    genesRef.current = genes
+    engine.select(genes.findIndex((gene) => gene.symbol === selectedGene?.symbol))
+    engine.highlight(indicesOf(genes, selection))
+  })
 
-  // 同步 selectedGene 到 ref（用于动画循环，避免重启动画）
-  useEffect(() => {
-    selectedGeneRef.current = selectedGene
-    // 不触发任何副作用，只更新 ref
-  }, [selectedGene])
+  const syncView = useEffectEvent(() => {
+    engineRef.current?.setView(view)
+  })
 
-  // 一次性初始化画布尺寸（只在组件挂载时执行一次）
+  // 画布就绪后创建引擎并启动动画循环（尺寸、视图与选择状态变化都不会重启循环）
   useEffect(() => {
-    if (dimensionsInitializedRef.current) return  // 已经初始化过，不再执行
-    if (!containerRef.current) return
-
-    const initDimensions = () => {
-      if (!containerRef.current || !canvasRef.current) return
-
-      const rect = containerRef.current.getBoundingClientRect()
-      // containerRef 是 flex 容器，应该填满父容器
-      // 使用容器的实际尺寸作为画布的逻辑尺寸，确保一一对应
-      const width = Math.floor(rect.width) || 600
-      const height = Math.floor(rect.height) || 400
-
-      if (width > 100 && height > 100) {
-        dimensionsRef.current = { width, height }
-        dimensionsInitializedRef.current = true
-
-        // 立即设置画布的逻辑尺寸（width/height 属性）
-        // 这必须和容器的实际尺寸匹配，否则画布会被拉伸或缩小
-        canvasRef.current.width = width
-        canvasRef.current.height = height
-        
-        // 确保画布在容器中居中（通过 CSS 的 flex 布局实现）
-        // 这样画布的逻辑尺寸和显示尺寸就完全匹配了
-      }
-    }
+    const canvas = canvasRef.current
+    const bounds = sizeRef.current
+    if (!ready || !canvas || !bounds) return
 
-    // 延迟初始化，确保布局完成，可能需要多次尝试
-    let attemptCount = 0
-    const maxAttempts = 10
-    
-    const tryInit = () => {
-      if (dimensionsInitializedRef.current || attemptCount >= maxAttempts) return
-      
-      const rect = containerRef.current?.getBoundingClientRect()
-      if (rect && rect.width > 100 && rect.height > 100) {
-        initDimensions()
-      } else {
-        attemptCount++
-        setTimeout(tryInit, 50)
-      }
-    }
+    const engine = createParticleEngine(canvas, bounds)
+    engineRef.current = engine
+    seedRef.current = null
+    syncParticles()
+    syncView()
 
-    const timeoutId = setTimeout(tryInit, 100)
+    let animationId = 0
+    const animate = () => {
+      engine.frame()
+      animationId = requestAnimationFrame(animate)
+    }
+    animate()
 
     return () => {
-      clearTimeout(timeoutId)
+      cancelAnimationFrame(animationId)
+      engine.dispose()
+      engineRef.current = null
     }
-  }, [])  // 空依赖数组，只在挂载时执行一次
+  }, [ready, canvasRef, sizeRef])
 
-  // 初始化粒子（只在基因列表变化时初始化，确保画布尺寸已设置）
   useEffect(() => {
-    if (!canvasRef.current || genes.length === 0) return
-
-    const canvas = canvasRef.current
+    syncParticles()
+  }, [genes, seed, layout])
 
-    // 获取画布尺寸（优先使用画布实际尺寸，最准确）
-    let currentWidth = canvas.width || dimensionsRef.current?.width || 600
-    let currentHeight = canvas.height || dimensionsRef.current?.height || 400
+  // 同步选中状态到引擎（用于高亮，不重启动画）
+  useEffect(() => {
+    engineRef.current?.select(genesRef.current.findIndex((gene) => gene.symbol === selectedGene?.symbol))
+  }, [selectedGene])
 
-    // 如果画布尺寸还没设置，从容器获取（作为临时值）
-    if ((!currentWidth || currentWidth < 100) && containerRef.current) {
-      const rect = containerRef.current.getBoundingClientRect()
-      currentWidth = Math.floor(rect.width) || 600
-    }
-    if ((!currentHeight || currentHeight < 100) && containerRef.current) {
-      const rect = containerRef.current.getBoundingClientRect()
-      currentHeight = Math.floor(rect.height) || 400
-    }
+  useEffect(() => {
+    engineRef.current?.highlight(indicesOf(genesRef.current, selection))
+  }, [selection])
 
-    // 确保尺寸有效
-    if (currentWidth < 100) currentWidth = 600
-    if (currentHeight < 100) currentHeight = 400
+  useEffect(() => {
+    engineRef.current?.setView(view)
+  }, [view])
+
+  // 滚轮缩放需要阻止页面滚动，React 的 onWheel 是被动监听，只能手动注册
+  const handleWheel = useEffectEvent((event: WheelEvent) => {
+    const container = containerRef.current
+    const bounds = sizeRef.current
+    if (!container || !bounds) return
+    // 未放大时向下滚动交还给页面
+    if (view.scale <= MIN_VIEW_SCALE && event.deltaY > 0) return
+    event.preventDefault()
+    const rect = container.getBoundingClientRect()
+    const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY
+    setView((current) =>
+      zoomView(current, Math.exp(-delta * WHEEL_ZOOM_SPEED), { x: event.clientX - rect.left, y: event.clientY - rect.top }, bounds),
+    )
+  })
 
-    // 如果粒子已存在且基因列表匹配，只更新颜色和数值，绝对不重置位置
-    const existingParticles = particlesRef.current
-    if (
-      existingParticles.length === genes.length &&
-      existingParticles.every((p, i) => p.gene.symbol === genes[i]?.symbol)
-    ) {
-      // 只更新颜色和数值，保留所有位置和速度信息
-      particlesRef.current = existingParticles.map((p, i) => ({
-        ...p,
-        gene: genes[i],  // 更新基因对象（可能包含新的 description）
-        color: genes[i].color.hex,
-        normalized: genes[i].normalized,
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const listener = (event: WheelEvent) => handleWheel(event)
+    container.addEventListener('wheel', listener, { passive: false })
+    return () => container.removeEventListener('wheel', listener)
+  }, [containerRef])
+
+  // 按与绘制相同的规则采集当前画面（不含缩放与平移，导出完整画布）
+  useImperativeHandle(ref, () => ({
+    getSimulation: () => engineRef.current?.simulation() ?? { particles: [], adjacency: [], spacing: 1 },
+    getSnapshot: () => {
+      const simulation = engineRef.current?.simulation() ?? { particles: [], adjacency: [], spacing: 1 }
+      const { particles, spacing } = simulation
+      const links = collectPathwayLinks(simulation).map(({ from, to, opacity }) => ({
+        x1: particles[from].x,
+        y1: particles[from].y,
+        x2: particles[to].x,
+        y2: particles[to].y,
+        opacity,
       }))
-      return
-    }
-
-    // 只在基因列表完全改变时创建新粒子
-    const normalizedValues = genes.map(g => g.normalized)
-    const minNorm = Math.min(...normalizedValues)
-    const maxNorm = Math.max(...normalizedValues)
-    const normRange = maxNorm - minNorm || 1
-
-    // 使用画布的逻辑中心点（width/2, height/2），这是画布的实际中心
-    const margin = 40  // 边界缓冲区，确保粒子不会贴边
-    const centerX = currentWidth / 2  // 画布的逻辑中心 X
-    const centerY = currentHeight / 2  // 画布的逻辑中心 Y
-    
-    // 增大初始分布半径，确保粒子分散，避免重叠
-    const maxParticleRadius = 25
-    const availableWidth = currentWidth - margin * 2 - maxParticleRadius * 2
-    const availableHeight = currentHeight - margin * 2 - maxParticleRadius * 2
-    // 增大分布半径到50%，让粒子更分散
-    const distributionRadius = Math.max(80, Math.min(availableWidth, availableHeight) * 0.5)
-
-    particlesRef.current = genes.map((gene, i) => {
-      const angle = (i / genes.length) * Math.PI * 2
-      const normalizedRatio = normRange > 0 ? (gene.normalized - minNorm) / normRange : 0.5
-      const particleRadius = Math.max(8, 8 + normalizedRatio * 17)
-      
-      // 从画布中心开始分布
-      const initialX = centerX + Math.cos(angle) * distributionRadius
-      const initialY = centerY + Math.sin(angle) * distributionRadius
-      
-      // 边界检查，确保粒子初始位置在画布的逻辑边界内
-      const minX = margin + particleRadius
-      const maxX = currentWidth - margin - particleRadius
-      const minY = margin + particleRadius
-      const maxY = currentHeight - margin - particleRadius
-      
-      const safeX = Math.max(minX, Math.min(maxX, initialX))
-      const safeY = Math.max(minY, Math.min(maxY, initialY))
-      
       return {
-        gene,
-        x: safeX,
-        y: safeY,
-        vx: (Math.random() - 0.5) * 1.5,
-        vy: (Math.random() - 0.5) * 1.5,
-        radius: particleRadius,
-        color: gene.color.hex,
-        normalized: gene.normalized,
+        width: sizeRef.current?.width ?? 600,
+        height: sizeRef.current?.height ?? 400,
+        spacing,
+        particles: particles.map((p) => ({
+          symbol: p.symbol,
+          x: p.x,
+          y: p.y,
+          radius: Math.max(8 * spacing, p.radius),
+          labelOffset: p.radius + 12,
+          color: p.color,
+          glow: p.glow * spacing,
+          selected: selectedGene?.symbol === p.symbol,
+        })),
+        links,
       }
-    })
-  }, [genes])  // 只在基因列表变化时执行，完全不依赖尺寸
+    },
+  }), [sizeRef, selectedGene])
 
-  // 动画循环（使用固定的尺寸，完全不依赖 state）
-  useEffect(() => {
-    if (!canvasRef.current || particlesRef.current.length === 0) return
+  const pointerAt = (event: React.PointerEvent | React.MouseEvent): ViewPoint => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
 
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+  // 指针坐标（CSS 像素）按视图变换换算为模拟坐标后做命中检测
+  const particleAt = (point: ViewPoint) => {
+    const simulation = engineRef.current?.simulation()
+    if (!simulation) return -1
+    const world = toWorld(view, point)
+    return findParticleAt(simulation, world.x, world.y)
+  }
 
-    // 获取固定尺寸（从 ref 或画布实际尺寸）
-    const dims = dimensionsRef.current || { width: canvas.width || 600, height: canvas.height || 400 }
-    const width = dims.width
-    const height = dims.height
+  const selectParticle = (index: number) => {
+    const gene = genesRef.current[index]
+    if (gene) {
+      setSelectedGene(gene)
+      onParticleClick?.(gene)
+    } else {
+      setSelectedGene(null)
+    }
+  }
 
-    if (width === 0 || height === 0) return
+  const toggleSelection = (index: number) => {
+    const gene = genesRef.current[index]
+    if (!gene) return
+    const next = new Set(selection)
+    if (next.has(gene.symbol)) next.delete(gene.symbol)
+    else next.add(gene.symbol)
+    onSelectionChange?.(next)
+  }
 
-    const margin = 40  // 增大边界缓冲区，确保大粒子（半径最大25）也不会贴边或越界
+  // 套索按屏幕坐标判断，与缩放后看到的画面一致；结果并入已有的多选
+  const selectInLasso = (polygon: ViewPoint[]) => {
+    const particles = engineRef.current?.simulation().particles ?? []
+    const next = new Set(selection)
+    particles.forEach((particle, index) => {
+      const gene = genesRef.current[index]
+      if (gene && isInsidePolygon(toScreen(view, particle), polygon)) next.add(gene.symbol)
+    })
+    onSelectionChange?.(next)
+  }
 
-    const animate = () => {
-      ctx.clearRect(0, 0, width, height)
-
-      const particles = particlesRef.current
-
-      // 更新粒子位置（基于生物学逻辑的力）
-      for (let i = 0; i < particles.length; i++) {
-        const p1 = particles[i]
-        
-        // 边界反弹（带缓冲区，确保粒子始终在可视区域内，包括粒子的完整半径）
-        const minX = margin + p1.radius
-        const maxX = width - margin - p1.radius
-        const minY = margin + p1.radius
-        const maxY = height - margin - p1.radius
-
-        if (p1.x < minX || p1.x > maxX) {
-          p1.vx *= -0.8
-          p1.x = Math.max(minX, Math.min(maxX, p1.x))
-        }
-        if (p1.y < minY || p1.y > maxY) {
-          p1.vy *= -0.8
-          p1.y = Math.max(minY, Math.min(maxY, p1.y))
-        }
-
-        // 基于生物学逻辑的相互作用
-        for (let j = i + 1; j < particles.length; j++) {
-          const p2 = particles[j]
-          const dx = p2.x - p1.x
-          const dy = p2.y - p1.y
-          const distance = Math.sqrt(dx * dx + dy * dy) || 1
-
-          // 所有粒子之间的基础斥力（防止重叠，这是最重要的）
-          const minSeparation = p1.radius + p2.radius + 10  // 最小分离距离（两个粒子半径之和 + 10px余量）
-          if (distance < MIN_DISTANCE || distance < minSeparation) {
-            const force = REPULSION_STRENGTH * (1 / (distance / 30 + 0.1)) * (1 - distance / MIN_DISTANCE)
-            const angle = Math.atan2(dy, dx)
-            p1.vx -= Math.cos(angle) * force
-            p1.vy -= Math.sin(angle) * force
-            p2.vx += Math.cos(angle) * force
-            p2.vy += Math.sin(angle) * force
-          }
-
-          // 通路内基因：引力（生物学逻辑：相关基因聚集）
-          if (areInSamePathway(p1.gene.symbol, p2.gene.symbol)) {
-            // 只有当距离足够大时才有引力（避免与斥力冲突）
-            if (distance > minSeparation && distance < MAX_DISTANCE) {
-              const force = GRAVITY_STRENGTH / (distance / 100 + 0.1)
-              const angle = Math.atan2(dy, dx)
-              p1.vx += Math.cos(angle) * force
-              p1.vy += Math.sin(angle) * force
-              p2.vx -= Math.cos(angle) * force
-              p2.vy -= Math.sin(angle) * force
-
-              // 绘制连线（通路关系）
-              ctx.strokeStyle = `rgba(127, 90, 240, ${0.3 * (1 - distance / MAX_DISTANCE)})`
-              ctx.lineWidth = 1
-              ctx.beginPath()
-              ctx.moveTo(p1.x, p1.y)
-              ctx.lineTo(p2.x, p2.y)
-              ctx.stroke()
-            }
-          }
-        }
-
-        // 应用速度
-        p1.x += p1.vx
-        p1.y += p1.vy
-        p1.vx *= DAMPING
-        p1.vy *= DAMPING
-
-        // 绘制粒子（确保半径为正值，添加可见性增强）
-        const drawRadius = Math.max(8, p1.radius)  // 最小8像素
-        const isSelected = selectedGeneRef.current?.symbol === p1.gene.symbol
-        
-        // 添加发光效果（外圈阴影）
-        ctx.shadowBlur = 10
-        ctx.shadowColor = p1.color
-        ctx.shadowOffsetX = 0
-        ctx.shadowOffsetY = 0
-        
-        ctx.beginPath()
-        ctx.arc(p1.x, p1.y, drawRadius, 0, Math.PI * 2)
-        
-        // 绘制填充
-        ctx.fillStyle = p1.color
-        ctx.fill()
-        
-        // 重置阴影
-        ctx.shadowBlur = 0
-        
-        // 添加描边（让粒子更明显）
-        if (isSelected) {
-          // 选中状态：亮绿色描边
-          ctx.strokeStyle = '#00ffd0'
-          ctx.lineWidth = 3
-          ctx.stroke()
-          // 添加外层光环
-          ctx.beginPath()
-          ctx.arc(p1.x, p1.y, drawRadius + 4, 0, Math.PI * 2)
-          ctx.strokeStyle = 'rgba(0, 255, 208, 0.3)'
-          ctx.lineWidth = 2
-          ctx.stroke()
-        } else {
-          // 普通状态：淡白色描边，增加可见性
-          ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)'
-          ctx.lineWidth = 1.5
-          ctx.stroke()
-        }
-
-        // 绘制基因符号标签
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
-        ctx.font = '10px monospace'
-        ctx.textAlign = 'center'
-        ctx.fillText(p1.gene.symbol, p1.x, p1.y + p1.radius + 12)
-      }
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    const point = pointerAt(event)
+    const index = particleAt(point)
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setHovered(null)
+    if (event.shiftKey) {
+      gestureRef.current = { kind: 'lasso', index, start: point, points: [point], moved: false }
+    } else if (index >= 0) {
+      gestureRef.current = { kind: 'drag', index, start: point, moved: false }
+    } else {
+      gestureRef.current = { kind: 'pan', origin: view, start: point, moved: false }
+    }
+  }
 
-      animationRef.current = requestAnimationFrame(animate)
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointerAt(event)
+    const gesture = gestureRef.current
+    if (!gesture) {
+      const gene = genesRef.current[particleAt(point)]
+      setHovered(gene ? { gene, x: point.x, y: point.y } : null)
+      return
     }
+    if (!gesture.moved && Math.hypot(point.x - gesture.start.x, point.y - gesture.start.y) < DRAG_THRESHOLD) return
+    gesture.moved = true
+
+    if (gesture.kind === 'drag') {
+      // 拖动中的粒子即被固定，松开后保持在原处
+      engineRef.current?.pin(gesture.index, toWorld(view, point))
+    } else if (gesture.kind === 'pan') {
+      const bounds = sizeRef.current
+      if (!bounds) return
+      setView(
+        clampView(
+          { ...gesture.origin, x: gesture.origin.x + point.x - gesture.start.x, y: gesture.origin.y + point.y - gesture.start.y },
+          bounds,
+        ),
+      )
+    } else {
+      gesture.points.push(point)
+      setLasso([...gesture.points])
+    }
+  }
 
-    animate()
+  const handlePointerUp = () => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    if (!gesture) return
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
+    if (gesture.kind === 'lasso') {
+      setLasso(null)
+      if (gesture.moved) selectInLasso(gesture.points)
+      else if (gesture.index >= 0) toggleSelection(gesture.index)
+      return
     }
-  }, [genes])  // 只在基因列表变化时重启动画，完全不依赖尺寸和选择状态
-
-  // 点击检测
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current) return
+    // 未移动视为点击：点中粒子则选中，点在空白处取消选中
+    if (!gesture.moved) selectParticle(gesture.kind === 'drag' ? gesture.index : -1)
+  }
 
-    const rect = canvasRef.current.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+  // 双击固定的粒子解除固定，重新受力
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const index = particleAt(pointerAt(event))
+    if (index >= 0 && engineRef.current?.simulation().particles[index]?.pinned) engineRef.current.pin(index, null)
+  }
 
-    const clickedParticle = particlesRef.current.find(p => {
-      const dx = p.x - x
-      const dy = p.y - y
-      return Math.sqrt(dx * dx + dy * dy) < p.radius + 10
+  const unpinAll = () => {
+    const engine = engineRef.current
+    engine?.simulation().particles.forEach((particle, index) => {
+      if (particle.pinned) engine.pin(index, null)
     })
-
-    if (clickedParticle) {
-      setSelectedGene(clickedParticle.gene)
-      onParticleClick?.(clickedParticle.gene)
-    } else {
-      setSelectedGene(null)
-    }
   }
 
-  // 获取固定尺寸（优先使用 ref，如果没有则使用默认值）
-  const canvasWidth = dimensionsRef.current?.width || 600
-  const canvasHeight = dimensionsRef.current?.height || 400
+  const tooltipOnLeft = hovered !== null && size !== null && hovered.x > size.width - TOOLTIP_WIDTH - TOOLTIP_OFFSET
 
   return (
-    <div ref={containerRef} className="relative h-full w-full flex items-center justify-center">
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setHovered(null)}
+      onDoubleClick={handleDoubleClick}
+      className={`relative h-[452px] w-full touch-none select-none lg:h-[536px] ${hovered ? 'cursor-pointer' : 'cursor-grab'}`}
+    >
       <canvas
         ref={canvasRef}
-        width={canvasWidth}
-        height={canvasHeight}
-        onClick={handleClick}
-        className="cursor-pointer rounded-2xl border border-white/10"
-        style={{ 
-          background: 'rgba(15, 23, 42, 0.6)',
-          display: 'block',  // 确保canvas不产生内联空隙
-          // 不使用 CSS 缩放，确保逻辑尺寸和显示尺寸一致
-          // 画布的 width/height 属性应该和容器的实际尺寸匹配
-        }}
+        className="absolute left-0 top-0 block rounded-2xl border border-white/10"
+        style={{ background: 'rgba(15, 23, 42, 0.6)' }}
       />
+
+      {/* 套索轨迹 */}
+      {lasso && (
+        <svg className="pointer-events-none absolute inset-0 h-full w-full">
+          <polygon
+            points={lasso.map((point) => `${point.x},${point.y}`).join(' ')}
+            fill="rgba(250, 204, 21, 0.08)"
+            stroke="#facc15"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+
+      {/* 悬停提示 */}
+      {hovered && (
+        <div
+          className="pointer-events-none absolute z-10 rounded-lg border border-white/10 bg-slate-900/90 px-3 py-2 text-xs text-slate-300 shadow-lg backdrop-blur-sm"
+          style={{
+            top: hovered.y + TOOLTIP_OFFSET,
+            width: TOOLTIP_WIDTH,
+            left: tooltipOnLeft ? hovered.x - TOOLTIP_WIDTH - TOOLTIP_OFFSET : hovered.x + TOOLTIP_OFFSET,
+          }}
+        >
+          <p className="font-mono text-sm text-plasma">{hovered.gene.symbol}</p>
+          <p className="mt-1 flex justify-between">
+            <span className="text-slate-500">{unitLabel}</span>
+            <span className="font-mono">{hovered.gene.value.toFixed(2)}</span>
+          </p>
+          <p className="flex justify-between">
+            <span className="text-slate-500">z-score</span>
+            <span className="font-mono">{toZScore(hovered.gene.value, valueStats.mean, valueStats.std).toFixed(2)}</span>
+          </p>
+          <p className="flex justify-between">
+            <span className="text-slate-500">percentile</span>
+            <span className="font-mono">{Math.round(hovered.gene.percentile * 100)}%</span>
+          </p>
+        </div>
+      )}
+
+      {/* 视图控制（按钮上的按下不触发画布手势） */}
+      <div className="absolute right-3 top-3 flex gap-2" onPointerDown={(event) => event.stopPropagation()}>
+        <button
+          onClick={unpinAll}
+          title="解除所有固定的粒子"
+          className="rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-[11px] text-slate-300 transition hover:border-plasma/40 hover:text-plasma"
+        >
+          Unpin all
+        </button>
+        <button
+          onClick={() => setView(IDENTITY_VIEW)}
+          disabled={isIdentityView(view)}
+          title="恢复默认缩放与位置"
+          className="rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-[11px] text-slate-300 transition hover:border-plasma/40 hover:text-plasma disabled:opacity-40"
+        >
+          Reset view{view.scale > 1 && ` · ${view.scale.toFixed(1)}×`}
+        </button>
+      </div>
+      <p className="pointer-events-none absolute left-3 top-3 text-[11px] text-slate-500">
+        滚轮缩放 · 拖动空白处平移 · 拖动粒子固定（双击解除）· Shift 点击 / 拖动多选
+      </p>
     </div>
   )
 }
-
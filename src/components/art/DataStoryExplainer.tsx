@@ -4,15 +4,26 @@
  */
 
 import type { GeneExpression } from '../../data/sampleGenes'
-import { getGeneCategories, getGenePathways, geneStories, getCategoryColorHint } from '../../data/geneKnowledge'
+import { getGeneCategories, getGenePathways, geneStories, getCategoryColorHint, getPrimaryCategory } from '../../data/geneKnowledge'
+import type { DifferentialGene, SignificanceStatistic } from '../../types/differential'
+import type { PaletteDefinition } from '../../types/palette'
+import { getRegulation } from '../../utils/differential'
 
 type DataStoryExplainerProps = {
   gene: GeneExpression | null
   normalized: number
   color: string
+  differential?: DifferentialGene
+  statistic: SignificanceStatistic // 差异表达数据判断显著性所用的统计量
+  palette: PaletteDefinition // 颜色解释需与实际绘制的色阶一致
 }
 
-export function DataStoryExplainer({ gene, normalized, color }: DataStoryExplainerProps) {
+const formatPValue = (value: number | null) =>
+  value === null ? 'NA' : value < 0.001 ? value.toExponential(2) : value.toFixed(3)
+
+const regulationLabels = { up: '显著上调', down: '显著下调', ns: '无显著差异' }
+
+export function DataStoryExplainer({ gene, normalized, color, differential, statistic, palette }: DataStoryExplainerProps) {
   if (!gene) {
     return (
       <div className="min-h-[400px] rounded-2xl border border-white/10 bg-slate-950/60 p-7 backdrop-blur-xl">
@@ -27,6 +38,7 @@ export function DataStoryExplainer({ gene, normalized, color }: DataStoryExplain
   const categories = getGeneCategories(gene.symbol)
   const pathways = getGenePathways(gene.symbol)
   const story = geneStories[gene.symbol] || gene.description || '功能待补充'
+  const primaryCategory = getPrimaryCategory(gene.symbol)
 
   // 计算表达状态
   const expressionStatus = normalized > 0.6 
@@ -41,6 +53,9 @@ export function DataStoryExplainer({ gene, normalized, color }: DataStoryExplain
         <div>
           <p className="text-xs uppercase tracking-[0.3em] text-slate-500">数据故事</p>
           <h3 className="mt-3 font-display text-2xl text-plasma">{gene.symbol}</h3>
+          {gene.originalId && (
+            <p className="mt-1 font-mono text-xs text-slate-500">原始 ID: {gene.originalId}</p>
+          )}
         </div>
         <div 
           className="h-14 w-14 rounded-full border-2 border-white/20 shadow-lg shadow-plasma/30"
@@ -50,14 +65,30 @@ export function DataStoryExplainer({ gene, normalized, color }: DataStoryExplain
 
       <div className="space-y-5">
         {/* 表达状态 */}
-        <div>
-          <p className="text-xs uppercase tracking-[0.1em] text-slate-500">表达状态</p>
-          <p className="mt-2 text-sm text-white">
-            <span className="font-semibold">{expressionStatus}</span>
-            {' '}
-            <span className="text-slate-400">(log2 = {gene.value.toFixed(2)})</span>
-          </p>
-        </div>
+        {differential ? (
+          <div>
+            <p className="text-xs uppercase tracking-[0.1em] text-slate-500">差异表达</p>
+            <p className="mt-2 text-sm text-white">
+              <span className="font-semibold">{regulationLabels[getRegulation(differential, statistic)]}</span>
+              {' '}
+              <span className="text-slate-400">(log2FC = {differential.log2FoldChange.toFixed(2)})</span>
+            </p>
+            <div className="mt-2 grid grid-cols-3 gap-2 font-mono text-xs text-slate-400">
+              <span>p = {formatPValue(differential.pvalue)}</span>
+              <span>padj = {formatPValue(differential.padj)}</span>
+              <span>baseMean = {differential.baseMean === null ? 'NA' : differential.baseMean.toFixed(1)}</span>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <p className="text-xs uppercase tracking-[0.1em] text-slate-500">表达状态</p>
+            <p className="mt-2 text-sm text-white">
+              <span className="font-semibold">{expressionStatus}</span>
+              {' '}
+              <span className="text-slate-400">(log2 = {gene.value.toFixed(2)})</span>
+            </p>
+          </div>
+        )}
 
         {/* 生物学故事 */}
         <div>
@@ -103,11 +134,20 @@ export function DataStoryExplainer({ gene, normalized, color }: DataStoryExplain
         {/* 颜色解释 */}
         <div>
           <p className="text-xs uppercase tracking-[0.1em] text-slate-500">颜色映射</p>
-          <p className="mt-2 text-sm leading-relaxed text-slate-300">
-            基于 {categories[0] ? getCategoryColorHint(categories[0]) : '表达强度'} 
-            {' '}生成。颜色越 {normalized > 0.5 ? '亮' : '暗'}，表示表达越 
-            {normalized > 0.5 ? '高' : '低'}。
-          </p>
+          {palette.kind === 'bivariate' ? (
+            <p className="mt-2 text-sm leading-relaxed text-slate-300">
+              色相取自主要功能类别：
+              {primaryCategory
+                ? `${primaryCategory.replace(/_/g, ' ')}（${getCategoryColorHint(primaryCategory)}）`
+                : '未收录于知识库（灰色）'}
+              ；亮度表示表达强度，颜色越 {normalized > 0 ? '亮' : '暗'}，表达越 {normalized > 0 ? '高' : '低'}。
+            </p>
+          ) : (
+            <p className="mt-2 text-sm leading-relaxed text-slate-300">
+              由 {palette.name} 色阶按标准化表达值（{normalized.toFixed(2)}）映射，与功能类别无关；
+              数值越 {normalized > 0 ? '高' : '低'}，颜色越靠近色阶的{normalized > 0 ? '高端' : '低端'}。
+            </p>
+          )}
         </div>
       </div>
     </div>
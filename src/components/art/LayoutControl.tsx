@@ -0,0 +1,44 @@
+/**
+ * 粒子初始布局选择：圆环、功能类别扇区、通路簇、表达螺旋与相关性嵌入
+ * 切换后粒子从新布局重新开始，由物理模拟继续演化
+ */
+
+import {
+  MIN_EMBEDDING_SAMPLES,
+  particleLayouts,
+  type ParticleLayoutId,
+} from '../../utils/particleLayout'
+
+type LayoutControlProps = {
+  value: ParticleLayoutId
+  onChange: (layout: ParticleLayoutId) => void
+  embeddable: boolean // 当前数据是否有足够的样本 / 时间点做相关性嵌入
+}
+
+export function LayoutControl({ value, onChange, embeddable }: LayoutControlProps) {
+  const fallback = value === 'embedding' && !embeddable
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 sm:flex-shrink-0">
+      <p className="text-xs text-slate-400">Layout</p>
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value as ParticleLayoutId)}
+        title={particleLayouts[value].description}
+        aria-label="粒子初始布局"
+        className="mt-1 w-44 rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-sm text-white focus:border-plasma/50 focus:outline-none"
+      >
+        {(Object.keys(particleLayouts) as ParticleLayoutId[]).map((id) => (
+          <option key={id} value={id} disabled={id === 'embedding' && !embeddable} className="bg-slate-900">
+            {particleLayouts[id].label}
+          </option>
+        ))}
+      </select>
+      {fallback && (
+        <p className="mt-1 w-44 text-[11px] leading-snug text-amber-300/80">
+          需要至少 {MIN_EMBEDDING_SAMPLES} 个样本或时间点，当前使用圆环布局
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+/**
+ * 粒子布局种子：显示、手动输入与重新随机
+ * 相同种子 + 相同数据得到相同构图，用于复现图像
+ */
+
+import { useState } from 'react'
+import { parseSeed, randomSeed } from '../../utils/random'
+
+type SeedControlProps = {
+  seed: number
+  onChange: (seed: number) => void
+}
+
+export function SeedControl({ seed, onChange }: SeedControlProps) {
+  // 外部种子变化时由父组件以 key 重置草稿
+  const [draft, setDraft] = useState(String(seed))
+  const parsed = parseSeed(draft)
+
+  const commit = () => {
+    if (parsed === null) {
+      setDraft(String(seed))
+      return
+    }
+    if (parsed !== seed) onChange(parsed)
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 sm:flex-shrink-0">
+      <p className="text-xs text-slate-400">Layout seed</p>
+      <div className="mt-1 flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') commit()
+          }}
+          inputMode="numeric"
+          aria-label="粒子布局种子"
+          aria-invalid={parsed === null}
+          className={`w-28 rounded-lg border bg-slate-900/80 px-2 py-1 font-mono text-sm text-white focus:outline-none ${
+            parsed === null ? 'border-rose-400/60' : 'border-white/10 focus:border-plasma/50'
+          }`}
+        />
+        <button
+          onClick={() => onChange(randomSeed())}
+          title="随机选择新的种子"
+          className="rounded-lg border border-white/10 bg-white/[0.04] px-2 py-1 text-sm text-slate-100 transition hover:border-plasma/40 hover:text-plasma"
+        >
+          Reroll
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+/**
+ * 粒子画布多选（Shift 点击 / 套索）的汇总：基因列表、平均数值，可逐个移除或清空
+ */
+
+import { useMemo } from 'react'
+import type { PaletteGene } from '../../types/palette'
+
+type SelectionPanelProps = {
+  genes: PaletteGene[]
+  selection: Set<string>
+  unitLabel: string
+  onChange: (symbols: Set<string>) => void
+}
+
+export function SelectionPanel({ genes, selection, unitLabel, onChange }: SelectionPanelProps) {
+  // 只列出当前数据中存在的基因，保持数据集顺序
+  const selectedGenes = useMemo(() => genes.filter((gene) => selection.has(gene.symbol)), [genes, selection])
+  if (!selectedGenes.length) return null
+
+  const mean = selectedGenes.reduce((sum, gene) => sum + gene.value, 0) / selectedGenes.length
+
+  const remove = (symbol: string) => {
+    const next = new Set(selection)
+    next.delete(symbol)
+    onChange(next)
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border border-amber-300/20 bg-slate-950/60 p-4">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-slate-400">
+          <span className="font-medium text-amber-300">{selectedGenes.length}</span> genes selected · mean {unitLabel}{' '}
+          <span className="font-mono text-slate-200">{mean.toFixed(2)}</span>
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => navigator.clipboard?.writeText(selectedGenes.map((gene) => gene.symbol).join('\n'))}
+            className="rounded-lg border border-white/10 bg-white/[0.04] px-2 py-1 text-xs text-slate-300 transition hover:border-plasma/40 hover:text-plasma"
+          >
+            Copy symbols
+          </button>
+          <button
+            onClick={() => onChange(new Set())}
+            className="rounded-lg border border-white/10 bg-white/[0.04] px-2 py-1 text-xs text-slate-300 transition hover:border-plasma/40 hover:text-plasma"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <div className="flex max-h-32 flex-wrap gap-1.5 overflow-y-auto">
+        {selectedGenes.map((gene) => (
+          <button
+            key={gene.symbol}
+            onClick={() => remove(gene.symbol)}
+            title="从多选中移除"
+            className="flex items-center gap-1.5 rounded-full border border-white/10 bg-white/5 px-2 py-0.5 font-mono text-[11px] text-slate-200 transition hover:border-rose-400/40"
+          >
+            <span className="h-2 w-2 rounded-full" style={{ background: gene.color.hex }} />
+            {gene.symbol}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+/**
+ * 基因标识符解析报告
+ * 汇总别名 / Ensembl ID 的转换结果、无法识别或存在歧义的标识符，以及知识库未收录的基因
+ */
+
+import { geneIdentifierTable, isSampleIdentifierTable } from '../../data/geneIdentifiers'
+import type { IdentifierReport } from '../../utils/identifiers'
+
+type IdentifierReportPanelProps = {
+  report: IdentifierReport
+  onDismiss?: () => void
+}
+
+const MAX_LISTED = 12
+
+const formatList = (items: string[]) =>
+  items.length > MAX_LISTED
+    ? `${items.slice(0, MAX_LISTED).join(', ')} 等 ${items.length} 个`
+    : items.join(', ')
+
+export function IdentifierReportPanel({ report, onDismiss }: IdentifierReportPanelProps) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/70 p-4 text-xs text-slate-300">
+      <div className="flex items-start justify-between gap-3">
+        <p className="uppercase tracking-[0.3em] text-slate-500">标识符解析</p>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-slate-500 transition hover:text-white">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 space-y-2 leading-relaxed">
+        {report.mapped.length > 0 && (
+          <p>
+            <span className="text-plasma">已转换 {report.mapped.length} 个：</span>
+            {formatList(report.mapped.map((entry) => `${entry.input} → ${entry.symbol}`))}
+          </p>
+        )}
+        {report.ambiguous.length > 0 && (
+          <p>
+            <span className="text-amber-300">存在歧义 {report.ambiguous.length} 个（保留原名）：</span>
+            {formatList(report.ambiguous.map((entry) => `${entry.input} (${entry.candidates.join(' / ')})`))}
+          </p>
+        )}
+        {report.collisions.length > 0 && (
+          <p>
+            <span className="text-rose-300">重复已跳过 {report.collisions.length} 个：</span>
+            {formatList(report.collisions.map((entry) => `${entry.input} → ${entry.symbol}`))}
+          </p>
+        )}
+        {report.unmapped.length > 0 && (
+          <p>
+            <span className="text-rose-300">无法识别 {report.unmapped.length} 个（不是 HGNC symbol、别名或 Ensembl ID，保留原名）：</span>
+            {formatList(report.unmapped)}
+          </p>
+        )}
+        {report.unmapped.length > 0 && isSampleIdentifierTable && (
+          <p className="text-amber-300/80">
+            内置对照表只是 {geneIdentifierTable.length} 个基因的示例，其他基因的别名与 Ensembl ID 都无法识别；
+            完整对照表需下载 HGNC complete set 后运行 npm run data:identifiers 生成。
+          </p>
+        )}
+        {report.outsideKnowledge.length > 0 && (
+          <p>
+            <span className="text-slate-400">
+              知识库未收录 {report.outsideKnowledge.length} 个（已识别，但没有功能分类与通路注释）：
+            </span>
+            {formatList(report.outsideKnowledge)}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+/**
+ * 标准化流程选择面板
+ */
+
+import {
+  describeNormalization,
+  scaleLabels,
+  transformLabels,
+  type CountTransform,
+  type NormalizationSettings,
+  type ScaleMethod,
+} from '../../utils/normalization'
+
+type NormalizationPanelProps = {
+  settings: NormalizationSettings
+  onChange: (settings: NormalizationSettings) => void
+  allowQuantile: boolean
+  notes?: string[]
+  disabledReason?: string // 例如差异表达数据不参与标准化
+}
+
+const selectClassName =
+  'mt-1 w-full rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-xs text-white focus:border-plasma/50 focus:outline-none'
+
+export function NormalizationPanel({
+  settings,
+  onChange,
+  allowQuantile,
+  notes = [],
+  disabledReason,
+}: NormalizationPanelProps) {
+  const update = (patch: Partial<NormalizationSettings>) => onChange({ ...settings, ...patch })
+
+  return (
+    <div className="mb-6 space-y-3">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Normalization</p>
+      {disabledReason ? (
+        <p className="rounded-2xl border border-white/5 bg-slate-900/40 p-3 text-xs text-slate-400">{disabledReason}</p>
+      ) : (
+        <div className="space-y-3 rounded-2xl border border-white/5 bg-slate-900/40 p-3 text-xs text-slate-300">
+          <label className="block">
+            <span className="text-slate-500">Counts</span>
+            <select
+              value={settings.transform}
+              onChange={(event) => update({ transform: event.target.value as CountTransform })}
+              className={selectClassName}
+            >
+              {(Object.keys(transformLabels) as CountTransform[]).map((id) => (
+                <option key={id} value={id}>
+                  {transformLabels[id]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.log2}
+                onChange={(event) => update({ log2: event.target.checked })}
+                className="accent-plasma"
+              />
+              log2
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-slate-500">pseudocount</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={settings.pseudoCount}
+                disabled={!settings.log2}
+                onChange={(event) => update({ pseudoCount: Math.max(0, Number(event.target.value) || 0) })}
+                className="w-16 rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-white disabled:opacity-40"
+              />
+            </label>
+          </div>
+
+          {allowQuantile && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.quantile}
+                onChange={(event) => update({ quantile: event.target.checked })}
+                className="accent-plasma"
+              />
+              Quantile normalize across samples
+            </label>
+          )}
+
+          <label className="block">
+            <span className="text-slate-500">Scaling</span>
+            <select
+              value={settings.scale}
+              onChange={(event) => update({ scale: event.target.value as ScaleMethod })}
+              className={selectClassName}
+            >
+              {(Object.keys(scaleLabels) as ScaleMethod[]).map((id) => (
+                <option key={id} value={id}>
+                  {scaleLabels[id]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p className="font-mono text-[11px] text-plasma">{describeNormalization(settings)}</p>
+          {notes.map((note) => (
+            <p key={note} className="text-amber-300">
+              {note}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
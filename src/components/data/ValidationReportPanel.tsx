@@ -0,0 +1,85 @@
+/**
+ * 数据导入校验报告
+ * 逐行列出被跳过的数据及原因，并允许仅导入有效行
+ */
+
+import { countIssues, type ValidationReport } from '../../utils/validation'
+
+type ValidationReportPanelProps = {
+  report: ValidationReport
+  title?: string
+  onAcceptValid?: () => void
+  onDismiss?: () => void
+}
+
+const MAX_VISIBLE_ISSUES = 200
+
+export function ValidationReportPanel({
+  report,
+  title = '校验报告',
+  onAcceptValid,
+  onDismiss,
+}: ValidationReportPanelProps) {
+  const errorCount = countIssues(report, 'error')
+  const warningCount = countIssues(report, 'warning')
+  const visibleIssues = report.issues.slice(0, MAX_VISIBLE_ISSUES)
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/70 p-4 text-xs text-slate-300">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="uppercase tracking-[0.3em] text-slate-500">{title}</p>
+          <p className="mt-2">
+            共 {report.totalRows} 行，有效 <span className="text-plasma">{report.validRows}</span> 行
+            {errorCount > 0 && <span className="text-rose-300"> · {errorCount} 个错误</span>}
+            {warningCount > 0 && <span className="text-amber-300"> · {warningCount} 个警告</span>}
+          </p>
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-slate-500 transition hover:text-white">
+            ✕
+          </button>
+        )}
+      </div>
+
+      {visibleIssues.length > 0 && (
+        <div className="mt-3 max-h-48 overflow-y-auto rounded-xl border border-white/5">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-slate-900 text-slate-500">
+              <tr>
+                <th className="px-2 py-1 font-normal">行</th>
+                <th className="px-2 py-1 font-normal">列</th>
+                <th className="px-2 py-1 font-normal">级别</th>
+                <th className="px-2 py-1 font-normal">原因</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleIssues.map((issue, index) => (
+                <tr key={`${issue.line}-${index}`} className="border-t border-white/5">
+                  <td className="px-2 py-1 font-mono">{issue.line || '—'}</td>
+                  <td className="px-2 py-1 font-mono">{issue.column ?? '—'}</td>
+                  <td className={`px-2 py-1 ${issue.severity === 'error' ? 'text-rose-300' : 'text-amber-300'}`}>
+                    {issue.severity === 'error' ? '错误' : '警告'}
+                  </td>
+                  <td className="px-2 py-1">{issue.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {report.issues.length > MAX_VISIBLE_ISSUES && (
+        <p className="mt-2 text-slate-500">仅显示前 {MAX_VISIBLE_ISSUES} 条，共 {report.issues.length} 条。</p>
+      )}
+
+      {onAcceptValid && report.validRows > 0 && (
+        <button
+          onClick={onAcceptValid}
+          className="mt-3 w-full rounded-xl border border-plasma/30 bg-plasma/10 px-3 py-2 text-plasma transition hover:bg-plasma/20"
+        >
+          仅导入有效行（{report.validRows}）
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+/**
+ * 差异表达视图：火山图与 MA 图
+ * 点击散点即可在数据故事面板中选中对应基因，粒子画布中多选的基因以琥珀色圆圈标出
+ */
+
+import { useMemo, useState } from 'react'
+import type { DifferentialGene, SignificanceStatistic } from '../../types/differential'
+import { FOLD_CHANGE_THRESHOLD, SIGNIFICANCE_THRESHOLD } from '../../types/differential'
+import type { PaletteGene } from '../../types/palette'
+import { getSignificanceP, isSignificant } from '../../utils/differential'
+
+type DifferentialPlotsProps = {
+  genes: DifferentialGene[]
+  statistic: SignificanceStatistic // 火山图纵轴与显著性判断使用同一统计量
+  palette: PaletteGene[]
+  selectedSymbol?: string | null
+  highlighted?: Set<string> // 粒子画布中的多选
+  onSelect: (symbol: string) => void
+}
+
+type PlotView = 'volcano' | 'ma'
+
+type PlotPoint = {
+  symbol: string
+  x: number
+  y: number
+  color: string
+  significant: boolean
+}
+
+const WIDTH = 520
+const HEIGHT = 340
+const MARGIN = { top: 16, right: 16, bottom: 40, left: 48 }
+
+const niceTicks = (min: number, max: number, count = 5) => {
+  const span = max - min || 1
+  const step = 10 ** Math.floor(Math.log10(span / count))
+  const multiplier = [1, 2, 5, 10].find((m) => span / (step * m) <= count) ?? 10
+  const tickStep = step * multiplier
+  const ticks: number[] = []
+  for (let tick = Math.ceil(min / tickStep) * tickStep; tick <= max + 1e-9; tick += tickStep) {
+    ticks.push(Number(tick.toFixed(6)))
+  }
+  return ticks
+}
+
+const extent = (values: number[]): [number, number] => {
+  if (!values.length) return [0, 1]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  return min === max ? [min - 1, max + 1] : [min, max]
+}
+
+export function DifferentialPlots({ genes, statistic, palette, selectedSymbol, highlighted, onSelect }: DifferentialPlotsProps) {
+  const [view, setView] = useState<PlotView>('volcano')
+
+  const colorBySymbol = useMemo(
+    () => new Map(palette.map((gene) => [gene.symbol, gene.color.hex])),
+    [palette],
+  )
+
+  const points = useMemo<PlotPoint[]>(() => {
+    return genes.flatMap((gene) => {
+      const color = colorBySymbol.get(gene.symbol) ?? '#94a3b8'
+      const significant = isSignificant(gene, statistic)
+      if (view === 'volcano') {
+        const p = getSignificanceP(gene, statistic)
+        if (p === null) return []
+        return [{ symbol: gene.symbol, x: gene.log2FoldChange, y: -Math.log10(Math.max(p, 1e-300)), color, significant }]
+      }
+      if (gene.baseMean === null || gene.baseMean <= 0) return []
+      return [{ symbol: gene.symbol, x: Math.log10(gene.baseMean), y: gene.log2FoldChange, color, significant }]
+    })
+  }, [genes, statistic, colorBySymbol, view])
+
+  const xDomain = useMemo(() => {
+    const [min, max] = extent(points.map((point) => point.x))
+    // 火山图以 0 为中心对称
+    if (view === 'volcano') {
+      const bound = Math.max(Math.abs(min), Math.abs(max), FOLD_CHANGE_THRESHOLD + 0.5)
+      return [-bound, bound] as const
+    }
+    return [min, max] as const
+  }, [points, view])
+
+  const yDomain = useMemo(() => {
+    const [min, max] = extent(points.map((point) => point.y))
+    if (view === 'volcano') return [0, Math.max(max, -Math.log10(SIGNIFICANCE_THRESHOLD) + 1)] as const
+    const bound = Math.max(Math.abs(min), Math.abs(max), FOLD_CHANGE_THRESHOLD + 0.5)
+    return [-bound, bound] as const
+  }, [points, view])
+
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+  const scaleX = (x: number) => MARGIN.left + ((x - xDomain[0]) / (xDomain[1] - xDomain[0])) * innerWidth
+  const scaleY = (y: number) => MARGIN.top + innerHeight - ((y - yDomain[0]) / (yDomain[1] - yDomain[0])) * innerHeight
+
+  // 阈值参考线
+  const guides =
+    view === 'volcano'
+      ? {
+          vertical: [-FOLD_CHANGE_THRESHOLD, FOLD_CHANGE_THRESHOLD],
+          horizontal: [-Math.log10(SIGNIFICANCE_THRESHOLD)],
+        }
+      : { vertical: [], horizontal: [-FOLD_CHANGE_THRESHOLD, 0, FOLD_CHANGE_THRESHOLD] }
+
+  const labels =
+    view === 'volcano'
+      ? { x: 'log2 Fold Change', y: statistic === 'padj' ? '-log10 padj' : '-log10 p-value' }
+      : { x: 'log10 baseMean', y: 'log2 Fold Change' }
+
+  const selectedPoint = points.find((point) => point.symbol === selectedSymbol)
+  const skipped = genes.length - points.length
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/40 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex gap-2">
+          {(['volcano', 'ma'] as const).map((id) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`rounded-lg border px-3 py-1 text-xs transition ${
+                view === id
+                  ? 'border-plasma/50 bg-plasma/10 text-plasma'
+                  : 'border-white/10 bg-white/5 text-slate-300 hover:border-plasma/30'
+              }`}
+            >
+              {id === 'volcano' ? 'Volcano' : 'MA'}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          {points.filter((point) => point.significant).length} significant / {points.length} plotted
+          {skipped > 0 && ` · ${skipped} skipped (NA)`}
+        </p>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={`${view} plot`}>
+        {/* 坐标轴与刻度 */}
+        {niceTicks(xDomain[0], xDomain[1]).map((tick) => (
+          <g key={`x-${tick}`}>
+            <line x1={scaleX(tick)} x2={scaleX(tick)} y1={MARGIN.top} y2={MARGIN.top + innerHeight} stroke="rgba(148,163,184,0.08)" />
+            <text x={scaleX(tick)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize="10" fill="#64748b">
+              {tick}
+            </text>
+          </g>
+        ))}
+        {niceTicks(yDomain[0], yDomain[1]).map((tick) => (
+          <g key={`y-${tick}`}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="rgba(148,163,184,0.08)" />
+            <text x={MARGIN.left - 8} y={scaleY(tick) + 3} textAnchor="end" fontSize="10" fill="#64748b">
+              {tick}
+            </text>
+          </g>
+        ))}
+        <text x={MARGIN.left + innerWidth / 2} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill="#94a3b8">
+          {labels.x}
+        </text>
+        <text
+          transform={`translate(12 ${MARGIN.top + innerHeight / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#94a3b8"
+        >
+          {labels.y}
+        </text>
+
+        {guides.vertical.map((x) => (
+          <line key={`gv-${x}`} x1={scaleX(x)} x2={scaleX(x)} y1={MARGIN.top} y2={MARGIN.top + innerHeight} stroke="rgba(127,90,240,0.5)" strokeDasharray="4 4" />
+        ))}
+        {guides.horizontal.map((y) => (
+          <line key={`gh-${y}`} x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={scaleY(y)} y2={scaleY(y)} stroke="rgba(127,90,240,0.5)" strokeDasharray="4 4" />
+        ))}
+
+        {/* 散点 */}
+        {points.map((point) => (
+          <circle
+            key={point.symbol}
+            cx={scaleX(point.x)}
+            cy={scaleY(point.y)}
+            r={point.significant ? 3.5 : 2.5}
+            fill={point.color}
+            fillOpacity={point.significant ? 0.95 : 0.35}
+            className="cursor-pointer"
+            onClick={() => onSelect(point.symbol)}
+          >
+            <title>{`${point.symbol}: ${point.x.toFixed(2)}, ${point.y.toFixed(2)}`}</title>
+          </circle>
+        ))}
+
+        {highlighted && highlighted.size > 0 && (
+          <g pointerEvents="none">
+            {points
+              .filter((point) => highlighted.has(point.symbol))
+              .map((point) => (
+                <circle key={`hl-${point.symbol}`} cx={scaleX(point.x)} cy={scaleY(point.y)} r={5.5} fill="none" stroke="#facc15" strokeWidth={1.5} />
+              ))}
+          </g>
+        )}
+
+        {selectedPoint && (
+          <g pointerEvents="none">
+            <circle cx={scaleX(selectedPoint.x)} cy={scaleY(selectedPoint.y)} r={7} fill="none" stroke="#00ffd0" strokeWidth={2} />
+            <text x={scaleX(selectedPoint.x) + 10} y={scaleY(selectedPoint.y) - 8} fontSize="11" fill="#00ffd0">
+              {selectedPoint.symbol}
+            </text>
+          </g>
+        )}
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+/**
+ * 双变量图例：行 = 基因主要功能类别（色相），列 = 表达强度（亮度）
+ */
+
+import { useMemo } from 'react'
+import type { PaletteDefinition } from '../../types/palette'
+import { getPrimaryCategory, type GeneCategory } from '../../data/geneKnowledge'
+import { mapBivariateColor } from '../../utils/color'
+
+type BivariateLegendProps = {
+  palette: PaletteDefinition
+  symbols: string[] // 当前数据中的基因，只列出出现过的类别
+}
+
+const LEVELS = 5
+
+const formatCategory = (category: GeneCategory | null) =>
+  category ? category.replace(/_/g, ' ') : 'uncategorized'
+
+export function BivariateLegend({ palette, symbols }: BivariateLegendProps) {
+  const rows = useMemo(() => {
+    const counts = new Map<GeneCategory | null, number>()
+    symbols.forEach((symbol) => {
+      const category = getPrimaryCategory(symbol)
+      counts.set(category, (counts.get(category) ?? 0) + 1)
+    })
+    // 未分类放在最后
+    return Array.from(counts.entries()).sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+  }, [symbols])
+
+  const [min, max] = palette.domain
+  const levels = Array.from({ length: LEVELS }, (_, idx) => min + ((max - min) * idx) / (LEVELS - 1))
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/40 p-4 lg:p-6">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Category × Expression</p>
+      <table className="mt-4 w-full border-separate border-spacing-1 text-[11px]">
+        <tbody>
+          {rows.map(([category, count]) => (
+            <tr key={category ?? 'none'}>
+              <td className="pr-2 text-slate-400">
+                {formatCategory(category)}
+                <span className="ml-1 text-slate-600">({count})</span>
+              </td>
+              {levels.map((level) => (
+                <td
+                  key={level}
+                  className="h-5 rounded"
+                  style={{ backgroundColor: mapBivariateColor(level, category, palette).hex }}
+                />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td className="pr-2 text-slate-600">hue ↓ / lightness →</td>
+            {levels.map((level) => (
+              <td key={level} className="text-center font-mono text-slate-500">
+                {level.toFixed(1)}
+              </td>
+            ))}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * 色条图例：刻度同时标注标准化值与原始单位，并标出被钳制 / 超范围的区间
+ * 放在各导出节点内部，PNG 导出时自动包含
+ */
+
+import { useMemo } from 'react'
+import type { PaletteDefinition } from '../../types/palette'
+import { buildGradient } from '../../utils/color'
+import { buildLegendTicks, countOutOfDomain, formatLegendTick, type LegendSample } from '../../utils/legend'
+
+type ColorLegendProps = {
+  palette: PaletteDefinition
+  samples: LegendSample[]
+  normalizedLabel?: string // 例如 "Z-Score"、"log2FC"
+  unitLabel?: string // 原始单位名称
+  className?: string
+}
+
+const GRADIENT_STEPS = 24
+
+export function ColorLegend({
+  palette,
+  samples,
+  normalizedLabel = 'normalized',
+  unitLabel = 'value',
+  className = '',
+}: ColorLegendProps) {
+  const ticks = useMemo(() => buildLegendTicks(palette, samples), [palette, samples])
+  const outside = useMemo(() => countOutOfDomain(palette, samples), [palette, samples])
+  const gradient = useMemo(() => {
+    const [min, max] = palette.domain
+    const values = Array.from({ length: GRADIENT_STEPS }, (_, idx) => min + ((max - min) * idx) / (GRADIENT_STEPS - 1))
+    return buildGradient(values, palette)
+  }, [palette])
+
+  const marked = palette.clamp === 'mark'
+  // 色条两端：钳制模式显示箭头，标记模式显示超范围颜色
+  const endCap = (side: 'low' | 'high') => (
+    <div
+      className="flex h-3 w-4 items-center justify-center text-[9px] text-slate-300"
+      style={{ backgroundColor: marked ? palette.outOfRangeColor : undefined }}
+      title={marked ? 'Out of range' : 'Clamped'}
+    >
+      {!marked && (side === 'low' ? '◀' : '▶')}
+    </div>
+  )
+
+  return (
+    <div className={`rounded-xl border border-white/10 bg-slate-950/80 p-3 text-[10px] text-slate-400 ${className}`}>
+      <div className="mb-2 flex items-center justify-between gap-3">
+        <span className="font-medium text-slate-200">{palette.name}</span>
+        <span>{palette.kind === 'bivariate' ? 'lightness = expression · hue = category' : normalizedLabel}</span>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {endCap('low')}
+        <div className="relative h-3 flex-1 rounded-sm" style={{ background: gradient }} />
+        {endCap('high')}
+      </div>
+
+      <div className="relative mx-5 mt-1 h-7 font-mono">
+        {ticks.map((tick) => (
+          <div
+            key={tick.position}
+            className="absolute -translate-x-1/2 text-center leading-tight"
+            style={{ left: `${tick.position * 100}%` }}
+          >
+            <p className="text-slate-200">{formatLegendTick(tick.normalized)}</p>
+            <p>{formatLegendTick(tick.original)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-1 flex justify-between gap-3">
+        <span>
+          上行 {normalizedLabel} · 下行 {unitLabel}
+        </span>
+        {outside.below + outside.above > 0 && (
+          <span className="text-amber-300">
+            {outside.below + outside.above} 个值超出 [{palette.domain[0]}, {palette.domain[1]}]
+            {marked ? '，已单独标记' : '，已钳制到两端颜色'}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * 色觉缺陷（CVD）模拟：SVG 滤镜定义 + 切换面板与相邻色块可分辨性提示
+ */
+
+import { useMemo } from 'react'
+import type { PaletteDefinition } from '../../types/palette'
+import {
+  cvdFilterId,
+  cvdFilterValues,
+  cvdLabels,
+  findIndistinguishableSteps,
+  type CvdType,
+} from '../../utils/cvd'
+
+const simulatedTypes = ['protanopia', 'deuteranopia', 'tritanopia'] as const
+
+/**
+ * 页面内只需渲染一次，粒子画布、色卡与海报通过 CSS filter 引用
+ */
+export function CvdFilterDefs() {
+  return (
+    <svg aria-hidden="true" className="pointer-events-none absolute h-0 w-0">
+      <defs>
+        {simulatedTypes.map((type) => (
+          <filter key={type} id={cvdFilterId(type)} colorInterpolationFilters="linearRGB">
+            <feColorMatrix type="matrix" values={cvdFilterValues(type)} />
+          </filter>
+        ))}
+      </defs>
+    </svg>
+  )
+}
+
+type CvdSimulationPanelProps = {
+  value: CvdType
+  onChange: (type: CvdType) => void
+  palette: PaletteDefinition
+}
+
+const formatValue = (value: number) => value.toFixed(2)
+
+export function CvdSimulationPanel({ value, onChange, palette }: CvdSimulationPanelProps) {
+  const collisions = useMemo(() => findIndistinguishableSteps(palette, value), [palette, value])
+
+  return (
+    <div className="mb-6 space-y-3">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Color Vision</p>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(cvdLabels) as CvdType[]).map((type) => (
+          <button
+            key={type}
+            onClick={() => onChange(type)}
+            className={`rounded-lg border px-2 py-1.5 text-xs transition ${
+              value === type
+                ? 'border-plasma/50 bg-plasma/10 text-plasma'
+                : 'border-white/10 bg-white/5 text-slate-300 hover:border-plasma/30'
+            }`}
+          >
+            {cvdLabels[type]}
+          </button>
+        ))}
+      </div>
+      {collisions.length > 0 && (
+        <div className="rounded-2xl border border-amber-400/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+          <p>
+            {palette.name} 在 {cvdLabels[value]} 下有 {collisions.length} 组相邻色块难以区分：
+          </p>
+          <ul className="mt-1 space-y-0.5 font-mono text-[11px]">
+            {collisions.map((pair) => (
+              <li key={pair.from}>
+                {formatValue(pair.from)} → {formatValue(pair.to)}（ΔE {pair.deltaE.toFixed(1)}）
+              </li>
+            ))}
+          </ul>
+          {!palette.colorblindSafe && <p className="mt-1 text-amber-300">可改用 Viridis / Cividis / RdBu 等科学色阶。</p>}
+        </div>
+      )}
+    </div>
+  )
+}
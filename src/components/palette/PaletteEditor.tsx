@@ -0,0 +1,196 @@
+/**
+ * 自定义色阶编辑器：颜色节点、domain、插值空间与超范围处理，实时预览
+ */
+
+import { useMemo, useState } from 'react'
+import chroma from 'chroma-js'
+import type { PaletteClampMode, PaletteDefinition, PaletteInterpolation } from '../../types/palette'
+import { buildPaletteGradient, mapValueToColor, validatePaletteDefinition } from '../../utils/color'
+
+type PaletteEditorProps = {
+  initial: PaletteDefinition
+  previewValues: number[] // 当前数据的标准化值，用于预览着色效果
+  onSave: (palette: PaletteDefinition) => void
+  onCancel: () => void
+  onDelete?: () => void
+}
+
+const interpolationLabels: Record<PaletteInterpolation, string> = {
+  lrgb: 'Linear RGB',
+  lab: 'CIE Lab',
+  lch: 'CIE LCh',
+  hsl: 'HSL',
+}
+
+const clampLabels: Record<PaletteClampMode, string> = {
+  clamp: 'Clamp to end colors',
+  mark: 'Mark out-of-range',
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-xs text-white focus:border-plasma/50 focus:outline-none'
+
+// <input type="color"> 只接受 #rrggbb
+const toColorInputValue = (value: string) => (chroma.valid(value) ? chroma(value).hex('rgb') : '#000000')
+
+export function PaletteEditor({ initial, previewValues, onSave, onCancel, onDelete }: PaletteEditorProps) {
+  const [draft, setDraft] = useState<PaletteDefinition>(initial)
+  const update = (patch: Partial<PaletteDefinition>) => setDraft((prev) => ({ ...prev, ...patch }))
+
+  const error = validatePaletteDefinition(draft)
+  const preview = useMemo(() => {
+    if (error) return null
+    return {
+      gradient: buildPaletteGradient(draft),
+      swatches: previewValues.map((value) => mapValueToColor(value, draft)),
+    }
+  }, [draft, error, previewValues])
+
+  const updateStop = (index: number, value: string) =>
+    update({ stops: draft.stops.map((stop, idx) => (idx === index ? value : stop)) })
+  const removeStop = (index: number) => update({ stops: draft.stops.filter((_, idx) => idx !== index) })
+  const addStop = () => update({ stops: [...draft.stops, draft.stops[draft.stops.length - 1] ?? '#ffffff'] })
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-plasma/30 bg-slate-900/60 p-3 text-xs text-slate-300">
+      <input
+        value={draft.name}
+        onChange={(event) => update({ name: event.target.value })}
+        placeholder="Palette name"
+        className={inputClassName}
+      />
+
+      {/* 实时预览 */}
+      <div>
+        <div
+          className="h-4 rounded-full border border-white/10"
+          style={{ background: preview?.gradient ?? '#1f2937' }}
+        />
+        <div className="mt-1 flex justify-between font-mono text-[10px] text-slate-500">
+          <span>{draft.domain[0]}</span>
+          <span>{draft.domain[1]}</span>
+        </div>
+        {preview && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {preview.swatches.map((swatch, index) => (
+              <span
+                key={index}
+                className={`h-3 w-3 rounded-sm ${swatch.outOfRange ? 'ring-1 ring-white' : ''}`}
+                style={{ backgroundColor: swatch.hex }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-slate-500">Color stops</p>
+        {draft.stops.map((stop, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={toColorInputValue(stop)}
+              onChange={(event) => updateStop(index, event.target.value)}
+              className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+            />
+            <input value={stop} onChange={(event) => updateStop(index, event.target.value)} className={inputClassName} />
+            <button
+              onClick={() => removeStop(index)}
+              disabled={draft.stops.length <= 2}
+              className="rounded-lg border border-white/10 px-2 py-1 text-slate-400 hover:border-red-400/50 hover:text-red-300 disabled:opacity-30"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button onClick={addStop} className="w-full rounded-lg border border-dashed border-white/15 py-1 text-slate-400 hover:border-plasma/40">
+          + Add stop
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-slate-500">Domain min</span>
+          <input
+            type="number"
+            step={0.1}
+            value={draft.domain[0]}
+            onChange={(event) => update({ domain: [Number(event.target.value), draft.domain[1]] })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Domain max</span>
+          <input
+            type="number"
+            step={0.1}
+            value={draft.domain[1]}
+            onChange={(event) => update({ domain: [draft.domain[0], Number(event.target.value)] })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-slate-500">Interpolation</span>
+        <select
+          value={draft.interpolation}
+          onChange={(event) => update({ interpolation: event.target.value as PaletteInterpolation })}
+          className={inputClassName}
+        >
+          {(Object.keys(interpolationLabels) as PaletteInterpolation[]).map((id) => (
+            <option key={id} value={id}>
+              {interpolationLabels[id]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex items-end gap-2">
+        <label className="block flex-1">
+          <span className="text-slate-500">Out of domain</span>
+          <select
+            value={draft.clamp}
+            onChange={(event) => update({ clamp: event.target.value as PaletteClampMode })}
+            className={inputClassName}
+          >
+            {(Object.keys(clampLabels) as PaletteClampMode[]).map((id) => (
+              <option key={id} value={id}>
+                {clampLabels[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {draft.clamp === 'mark' && (
+          <input
+            type="color"
+            value={toColorInputValue(draft.outOfRangeColor)}
+            onChange={(event) => update({ outOfRangeColor: event.target.value })}
+            className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+            title="Out-of-range color"
+          />
+        )}
+      </div>
+
+      {error && <p className="text-amber-300">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={Boolean(error)}
+          className="flex-1 rounded-lg border border-plasma/50 bg-plasma/10 py-1.5 text-plasma hover:bg-plasma/20 disabled:opacity-40"
+        >
+          Save preset
+        </button>
+        <button onClick={onCancel} className="rounded-lg border border-white/10 px-3 py-1.5 text-slate-300 hover:border-white/30">
+          Cancel
+        </button>
+        {onDelete && (
+          <button onClick={onDelete} className="rounded-lg border border-red-400/30 px-3 py-1.5 text-red-300 hover:bg-red-500/10">
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
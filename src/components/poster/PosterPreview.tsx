@@ -1,35 +1,65 @@
 import { memo } from 'react'
-import type { PaletteGene } from '../../types/palette'
-import { geneStories, getGeneCategories, getGenePathways } from '../../data/geneKnowledge'
+import type { PaletteDefinition, PaletteGene } from '../../types/palette'
+import { ColorLegend } from '../palette/ColorLegend'
+import { buildPosterContent, type PosterTextOverrides } from '../../utils/posterContent'
+import type { PosterPageLayout } from '../../utils/posterPage'
 
 type PosterPreviewProps = {
   palette: PaletteGene[]
   primaryGene: PaletteGene | null
   modeName?: string
+  scale?: PaletteDefinition // 当前色阶，用于图例与颜色说明
+  valueUnitLabel?: string
+  sampleName?: string
+  normalizationLabel?: string
+  text?: PosterTextOverrides // 用户改写的标题 / 导语 / 页脚
+  page?: PosterPageLayout // 印刷版式；缺省时为 900px 高的屏幕预览
+  showGuides?: boolean
+}
+
+// 版式内容至少保留的内边距（px）
+const CONTENT_PADDING = 40
+
+/**
+ * 裁切线与安全线，带 data-print-guide 标记，导出时被过滤
+ */
+function PrintGuides({ page }: { page: PosterPageLayout }) {
+  const safeInset = page.bleed + page.safe
+  return (
+    <div data-print-guide className="pointer-events-none absolute inset-0 z-20 font-mono text-[10px]">
+      <div className="absolute inset-0 border-solid border-red-500/25" style={{ borderWidth: page.bleed }} />
+      <div className="absolute border border-dashed border-red-400/80" style={{ inset: page.bleed }}>
+        <span className="absolute left-1 top-1 text-red-300/90">TRIM</span>
+      </div>
+      <div className="absolute border border-dashed border-plasma/70" style={{ inset: safeInset }}>
+        <span className="absolute left-1 top-1 text-plasma/90">SAFE</span>
+      </div>
+    </div>
+  )
 }
 
 export const PosterPreview = memo(function PosterPreview({
   palette,
   primaryGene,
   modeName = 'Aurora Flux',
+  scale,
+  valueUnitLabel,
+  sampleName,
+  normalizationLabel = 'Z-Score',
+  text,
+  page,
+  showGuides = false,
 }: PosterPreviewProps) {
-  const focusGene = primaryGene ?? palette[0]
-  const fallbackStory = '探索基因表达数据与视觉艺术的跨界融合'
-  const story = focusGene ? geneStories[focusGene.symbol] ?? focusGene.description ?? fallbackStory : fallbackStory
-  const categories = focusGene ? getGeneCategories(focusGene.symbol) : []
-  const pathways = focusGene ? getGenePathways(focusGene.symbol) : []
-  const topPalette = palette.slice(0, 6)
-
-  // 生成洞察信息
-  const insights = [
-    `基因 ${focusGene?.symbol || 'N/A'} 在当前样本中呈 ${focusGene && focusGene.normalized > 0 ? '高表达' : '低表达'} 状态 (log2 = ${focusGene?.value.toFixed(2) || 'N/A'})`,
-    `该基因主要参与 ${categories.map(c => c.replace(/[_\s]+/g, ' ')).join(', ') || '多种生物学功能'}`,
-    pathways.length > 0 ? `与 ${pathways.map(p => p.name).join(', ')} 通路相关联` : '参与重要的细胞信号通路',
-    `通过 ${modeName} 调色模式，其表达强度被映射为 ${focusGene?.color.hex || '#ffffff'}`,
-  ]
+  const { focusGene, title, story, categories, pathways, topPalette, insights, technicalDetails, footer } =
+    buildPosterContent({ palette, primaryGene, modeName, scale, sampleName, normalizationLabel, text })
 
   return (
-    <div className="relative h-[900px] w-full overflow-hidden rounded-3xl bg-gradient-to-br from-night via-nebula to-night text-white shadow-2xl">
+    <div
+      className={`relative overflow-hidden bg-gradient-to-br from-night via-nebula to-night text-white ${
+        page ? '' : 'h-[900px] w-full rounded-3xl shadow-2xl'
+      }`}
+      style={page ? { width: page.width + page.bleed * 2, height: page.height + page.bleed * 2 } : undefined}
+    >
       {/* 背景网格效果 */}
       <div className="absolute inset-0 bg-grid-glow bg-grid-sm opacity-20" />
       
@@ -40,12 +70,16 @@ export const PosterPreview = memo(function PosterPreview({
         <div className="absolute bottom-20 left-1/2 h-32 w-32 rounded-full bg-ion/20" />
       </div>
 
-      <div className="relative z-10 flex h-full flex-col p-10">
+      {/* 背景铺满出血区域，文字留在安全线以内 */}
+      <div
+        className="relative z-10 flex h-full flex-col p-10"
+        style={page ? { padding: page.bleed + Math.max(page.safe, CONTENT_PADDING) } : undefined}
+      >
         {/* 顶部标题区域 */}
         <header className="mb-8 text-center">
           <p className="text-sm uppercase tracking-[0.4em] text-plasma opacity-90">Gene Flux Palette Research</p>
           <h1 className="mt-3 font-display text-5xl font-bold text-white drop-shadow-glow">
-            {focusGene ? `${focusGene.symbol} 表达谱艺术化研究` : 'Gene Expression Art Study'}
+            {title}
           </h1>
           <p className="mt-4 text-lg text-slate-300 opacity-90">
             {story}
@@ -76,12 +110,21 @@ export const PosterPreview = memo(function PosterPreview({
                       </div>
                     </div>
                     <div className="ml-auto text-right">
-                      <p className="text-xs text-slate-500">z-score</p>
+                      <p className="text-xs text-slate-500">normalized</p>
                       <p className="font-mono text-sm text-slate-300">{gene.normalized.toFixed(2)}</p>
                     </div>
                   </div>
                 ))}
               </div>
+              {scale && (
+                <ColorLegend
+                  palette={scale}
+                  samples={palette}
+                  normalizedLabel={normalizationLabel}
+                  unitLabel={valueUnitLabel}
+                  className="mt-5"
+                />
+              )}
             </div>
 
             {/* 核心洞察 */}
@@ -138,7 +181,7 @@ export const PosterPreview = memo(function PosterPreview({
                         key={category}
                         className="rounded-full bg-aurora/20 px-3 py-1 text-xs font-medium text-aurora border border-aurora/30"
                       >
-                        {category.replace(/[_\s]+/g, ' ')}
+                        {category}
                       </span>
                     ))}
                   </div>
@@ -153,7 +196,7 @@ export const PosterPreview = memo(function PosterPreview({
                       <div key={pathway.name} className="rounded-lg bg-slate-800/50 p-3">
                         <p className="text-sm font-medium text-ion">{pathway.name}</p>
                         <p className="text-xs text-slate-400 mt-1">
-                          Related genes: {pathway.genes.filter(g => g !== focusGene?.symbol).join(', ')}
+                          Related genes: {pathway.relatedGenes.join(', ')}
                         </p>
                       </div>
                     ))}
@@ -166,22 +209,12 @@ export const PosterPreview = memo(function PosterPreview({
             <div className="rounded-2xl border border-white/10 bg-slate-900/70 p-6 backdrop-blur-xl">
               <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Technical Details</p>
               <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <p className="text-slate-400">Palette Mode</p>
-                  <p className="font-medium text-white">{modeName}</p>
-                </div>
-                <div>
-                  <p className="text-slate-400">Dataset Size</p>
-                  <p className="font-medium text-white">{palette.length} genes</p>
-                </div>
-                <div>
-                  <p className="text-slate-400">Color Space</p>
-                  <p className="font-medium text-white">LCH Perceptual</p>
-                </div>
-                <div>
-                  <p className="text-slate-400">Normalization</p>
-                  <p className="font-medium text-white">Z-Score</p>
-                </div>
+                {technicalDetails.map((detail) => (
+                  <div key={detail.label}>
+                    <p className="text-slate-400">{detail.label}</p>
+                    <p className="font-medium text-white">{detail.value}</p>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -191,11 +224,13 @@ export const PosterPreview = memo(function PosterPreview({
         <footer className="mt-8 text-center">
           <div className="rounded-2xl border border-white/5 bg-slate-950/60 px-6 py-4">
             <p className="text-xs text-slate-400">
-              Generated by Gene Flux Palette • Transforming biological data into visual narratives • {new Date().getFullYear()}
+              {footer}
             </p>
           </div>
         </footer>
       </div>
+
+      {page && showGuides && <PrintGuides page={page} />}
     </div>
   )
 })
@@ -0,0 +1,181 @@
+/**
+ * 印刷设置：纸张、方向、DPI、出血与安全边距，导出高分辨率 PNG 或单页 PDF
+ */
+
+import { useState, type RefObject } from 'react'
+import { downloadBlob } from '../../utils/export'
+import { exportPosterPdf, exportPosterPng } from '../../utils/posterExport'
+import {
+  posterDpiOptions,
+  posterSizes,
+  resolvePosterPage,
+  type PosterDpi,
+  type PosterOrientation,
+  type PosterPageSettings,
+  type PosterSizeId,
+} from '../../utils/posterPage'
+import type { Provenance } from '../../utils/provenance'
+
+type PosterPrintPanelProps = {
+  settings: PosterPageSettings
+  onChange: (settings: PosterPageSettings) => void
+  targetRef: RefObject<HTMLElement | null> // 导出节点（PosterPreview 外层）
+  title?: string
+  provenance?: () => Provenance // 导出时生成，写入 PNG 文本块
+}
+
+type PrintFormat = 'png' | 'pdf'
+
+const orientationLabels: Record<PosterOrientation, string> = {
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+}
+
+const inputClassName =
+  'mt-1 w-full rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1.5 text-xs text-white focus:border-plasma/50 focus:outline-none disabled:opacity-40'
+
+const clampMm = (value: number, max: number) => Math.min(max, Math.max(0, Number.isFinite(value) ? value : 0))
+
+const formatMm = (value: number) => Number(value.toFixed(1))
+
+export function PosterPrintPanel({ settings, onChange, targetRef, title, provenance }: PosterPrintPanelProps) {
+  const [running, setRunning] = useState<PrintFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const layout = resolvePosterPage(settings)
+  const fixedOrientation = posterSizes[settings.size].fixedOrientation
+  const update = (patch: Partial<PosterPageSettings>) => onChange({ ...settings, ...patch })
+
+  const handleExport = async (format: PrintFormat) => {
+    const node = targetRef.current
+    if (!node) return
+    setError(null)
+    setRunning(format)
+    const baseName = `gene-poster-${settings.size}-${settings.dpi}dpi`
+    try {
+      if (format === 'png') {
+        downloadBlob(`${baseName}.png`, await exportPosterPng(node, settings, provenance?.()))
+      } else {
+        downloadBlob(`${baseName}.pdf`, await exportPosterPdf(node, settings, title))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '海报导出失败')
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  return (
+    <div className="mb-6 rounded-2xl border border-white/10 bg-slate-950/40 p-4 text-xs text-slate-300">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="uppercase tracking-[0.3em] text-slate-500">Print Setup</p>
+        <p className="text-slate-500">
+          {formatMm(layout.trimMm.width)} × {formatMm(layout.trimMm.height)} mm
+          {settings.bleedMm > 0 && ` + ${settings.bleedMm} mm bleed`} · {layout.pixels.width}×{layout.pixels.height} px
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-6">
+        <label className="col-span-2 block">
+          <span className="text-slate-500">Paper size</span>
+          <select
+            value={settings.size}
+            disabled={running !== null}
+            onChange={(event) => update({ size: event.target.value as PosterSizeId })}
+            className={inputClassName}
+          >
+            {(Object.keys(posterSizes) as PosterSizeId[]).map((id) => (
+              <option key={id} value={id}>
+                {posterSizes[id].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Orientation</span>
+          <select
+            value={fixedOrientation ?? settings.orientation}
+            disabled={running !== null || fixedOrientation !== undefined}
+            onChange={(event) => update({ orientation: event.target.value as PosterOrientation })}
+            className={inputClassName}
+          >
+            {(Object.keys(orientationLabels) as PosterOrientation[]).map((id) => (
+              <option key={id} value={id}>
+                {orientationLabels[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Resolution</span>
+          <select
+            value={settings.dpi}
+            disabled={running !== null}
+            onChange={(event) => update({ dpi: Number(event.target.value) as PosterDpi })}
+            className={inputClassName}
+          >
+            {posterDpiOptions.map((dpi) => (
+              <option key={dpi} value={dpi}>
+                {dpi} DPI
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Bleed (mm)</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={settings.bleedMm}
+            disabled={running !== null}
+            onChange={(event) => update({ bleedMm: clampMm(Number(event.target.value), 10) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Safe margin (mm)</span>
+          <input
+            type="number"
+            min={0}
+            max={50}
+            step={1}
+            value={settings.safeMm}
+            disabled={running !== null}
+            onChange={(event) => update({ safeMm: clampMm(Number(event.target.value), 50) })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <label className="mt-3 flex items-center gap-2 text-slate-400">
+        <input
+          type="checkbox"
+          checked={settings.showGuides}
+          onChange={(event) => update({ showGuides: event.target.checked })}
+          className="accent-plasma"
+        />
+        预览中显示裁切线（红）与安全线（青），导出时不包含
+      </label>
+
+      {!layout.withinCanvasLimit && (
+        <p className="mt-3 text-amber-300">当前尺寸与 DPI 超出浏览器画布上限，请降低 DPI 或选择更小的纸张。</p>
+      )}
+      {error && <p className="mt-3 text-red-300">{error}</p>}
+
+      <div className="mt-4 flex gap-2">
+        {(['png', 'pdf'] as PrintFormat[]).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={running !== null || !layout.withinCanvasLimit}
+            className="rounded-xl border border-plasma/40 bg-plasma/10 px-4 py-2 text-sm font-medium text-plasma transition hover:bg-plasma/20 disabled:opacity-40"
+          >
+            {running === format ? '渲染中…' : `Export ${format.toUpperCase()} · ${settings.dpi} DPI`}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
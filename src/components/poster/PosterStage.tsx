@@ -0,0 +1,35 @@
+/**
+ * 按容器宽度缩放显示印刷尺寸的海报；被缩放的是外层包裹，导出节点本身保持原始尺寸
+ */
+
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+
+type PosterStageProps = {
+  width: number
+  height: number
+  maxHeight?: number // 竖版海报的预览高度上限
+  children: ReactNode
+}
+
+export function PosterStage({ width, height, maxHeight = 900, children }: PosterStageProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [available, setAvailable] = useState(width)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setAvailable(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const scale = Math.min(1, available / width, maxHeight / height)
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <div className="mx-auto overflow-hidden rounded-xl shadow-2xl" style={{ width: width * scale, height: height * scale }}>
+        <div style={{ width, height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>{children}</div>
+      </div>
+    </div>
+  )
+}
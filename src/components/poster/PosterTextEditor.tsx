@@ -0,0 +1,46 @@
+/**
+ * 海报文字改写：留空时使用根据焦点基因自动生成的内容
+ */
+
+import { DEFAULT_POSTER_TEXT, type PosterTextOverrides } from '../../utils/posterContent'
+
+type PosterTextEditorProps = {
+  value: PosterTextOverrides
+  onChange: (value: PosterTextOverrides) => void
+  placeholders: PosterTextOverrides // 自动生成的文字，作为输入框提示
+}
+
+const fieldLabels: Record<keyof PosterTextOverrides, string> = {
+  title: 'Title',
+  story: 'Lead',
+  footer: 'Footer',
+}
+
+export function PosterTextEditor({ value, onChange, placeholders }: PosterTextEditorProps) {
+  return (
+    <div className="mb-6 rounded-2xl border border-white/10 bg-slate-950/40 p-4 text-xs text-slate-300">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="uppercase tracking-[0.3em] text-slate-500">Poster Text</p>
+        <button
+          onClick={() => onChange(DEFAULT_POSTER_TEXT)}
+          className="text-slate-500 transition hover:text-plasma"
+        >
+          恢复自动文字
+        </button>
+      </div>
+      <div className="grid gap-3 md:grid-cols-3">
+        {(Object.keys(fieldLabels) as Array<keyof PosterTextOverrides>).map((field) => (
+          <label key={field} className="block">
+            <span className="text-slate-500">{fieldLabels[field]}</span>
+            <input
+              value={value[field]}
+              placeholder={placeholders[field]}
+              onChange={(event) => onChange({ ...value, [field]: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1.5 text-xs text-white placeholder:text-slate-600 focus:border-plasma/50 focus:outline-none"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
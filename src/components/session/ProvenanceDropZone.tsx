@@ -0,0 +1,144 @@
+/**
+ * PNG 来源信息：拖入本应用导出的 PNG，读取其中的文本块并可恢复生成它的会话
+ */
+
+import { useRef, useState } from 'react'
+import { isPng } from '../../utils/png'
+import { readProvenance, type ReadProvenance } from '../../utils/provenance'
+import type { SessionBundle } from '../../utils/session'
+
+type ProvenanceDropZoneProps = {
+  onRestore: (session: SessionBundle) => void
+}
+
+type Inspected = { fileName: string; provenance: ReadProvenance }
+
+const SWATCH_LIMIT = 16
+
+export function ProvenanceDropZone({ onRestore }: ProvenanceDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [inspected, setInspected] = useState<Inspected | null>(null)
+  const [restored, setRestored] = useState(false)
+
+  const inspect = async (file: File) => {
+    setRestored(false)
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    if (!isPng(bytes)) {
+      setInspected(null)
+      setError('请拖入 PNG 图像')
+      return
+    }
+    const result = await readProvenance(bytes)
+    if (!result.ok) {
+      setInspected(null)
+      setError(result.error)
+      return
+    }
+    setError(null)
+    setInspected({ fileName: file.name, provenance: result.provenance })
+  }
+
+  const provenance = inspected?.provenance
+  const colors = Object.entries(provenance?.colors ?? {})
+  const details = provenance
+    ? [
+        { label: 'App', value: provenance.appVersion ? `v${provenance.appVersion}` : undefined },
+        { label: 'Exported', value: provenance.exportedAt && new Date(provenance.exportedAt).toLocaleString() },
+        { label: 'Input', value: provenance.file?.name },
+        { label: 'SHA-256', value: provenance.file?.sha256 && `${provenance.file.sha256.slice(0, 16)}…` },
+        { label: 'Normalization', value: provenance.normalization },
+        { label: 'Palette', value: provenance.paletteMode },
+        { label: 'Seed', value: provenance.seed?.toString() },
+        { label: 'Genes', value: colors.length ? String(colors.length) : undefined },
+      ].filter((item): item is { label: string; value: string } => Boolean(item.value))
+    : []
+
+  return (
+    <div className="mb-6">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">PNG Provenance</p>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' || event.key === ' ') inputRef.current?.click()
+        }}
+        onDragOver={(event) => {
+          event.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault()
+          setDragging(false)
+          const file = event.dataTransfer.files[0]
+          if (file) inspect(file)
+        }}
+        className={`mt-2 cursor-pointer rounded-2xl border border-dashed px-3 py-4 text-center text-xs transition ${
+          dragging ? 'border-plasma bg-plasma/10 text-plasma' : 'border-white/15 bg-white/[0.03] text-slate-400 hover:border-plasma/40'
+        }`}
+      >
+        拖入导出的 PNG，查看来源信息并恢复会话
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".png,image/png"
+        className="hidden"
+        onChange={async (event) => {
+          const file = event.target.files?.[0]
+          if (!file) return
+          await inspect(file)
+          if (inputRef.current) {
+            inputRef.current.value = ''
+          }
+        }}
+      />
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+      {inspected && provenance && (
+        <div className="mt-3 space-y-2 rounded-xl border border-white/10 bg-slate-950/40 p-3 text-xs">
+          <p className="truncate font-mono text-slate-300">{inspected.fileName}</p>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            {details.map((item) => (
+              <div key={item.label} className="contents">
+                <dt className="text-slate-500">{item.label}</dt>
+                <dd className="truncate text-slate-200" title={item.value}>
+                  {item.value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          {colors.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {colors.slice(0, SWATCH_LIMIT).map(([symbol, hex]) => (
+                <span
+                  key={symbol}
+                  title={`${symbol} ${hex}`}
+                  className="h-3 w-3 rounded-sm border border-white/10"
+                  style={{ backgroundColor: hex }}
+                />
+              ))}
+              {colors.length > SWATCH_LIMIT && <span className="text-slate-500">+{colors.length - SWATCH_LIMIT}</span>}
+            </div>
+          )}
+          {provenance.session === null && <p className="text-slate-500">图像未附带会话，无法恢复视图。</p>}
+          {provenance.session && !provenance.session.ok && <p className="text-rose-300">{provenance.session.error}</p>}
+          {provenance.session?.ok && (
+            <button
+              onClick={() => {
+                if (!provenance.session?.ok) return
+                onRestore(provenance.session.session)
+                setRestored(true)
+              }}
+              className="w-full rounded-xl border border-plasma/40 bg-plasma/10 px-3 py-2 text-xs font-medium text-plasma transition hover:bg-plasma/20"
+            >
+              {restored ? '已恢复该图像的会话' : '恢复生成该图像的会话'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
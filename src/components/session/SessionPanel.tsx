@@ -0,0 +1,127 @@
+/**
+ * 会话保存 / 载入：导出当前视图为 JSON，重新导入后恢复；也可生成分享链接
+ */
+
+import { useRef, useState } from 'react'
+import { parseSession, type SessionBundle } from '../../utils/session'
+import type { ShareLinkResult } from '../../utils/shareLink'
+
+// 外部传入的提示，例如从分享链接恢复的结果
+export type SessionNotice = { tone: 'info' | 'error'; message: string }
+
+type SessionPanelProps = {
+  onSave: () => void
+  onShare: () => Promise<ShareLinkResult>
+  onRestore: (session: SessionBundle) => void
+  notice?: SessionNotice | null
+}
+
+type ShareState = { url: string; message: string; copied: boolean }
+
+const buttonClassName =
+  'rounded-xl border border-white/10 bg-white/[0.04] px-3 py-2 text-xs text-slate-100 transition hover:border-plasma/40 hover:text-plasma disabled:opacity-40'
+
+export function SessionPanel({ onSave, onShare, onRestore, notice }: SessionPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [restoredAt, setRestoredAt] = useState<string | null>(null)
+  const [sharing, setSharing] = useState(false)
+  const [share, setShare] = useState<ShareState | null>(null)
+
+  const handleShare = async () => {
+    setSharing(true)
+    setError(null)
+    try {
+      const result = await onShare()
+      if (!result.ok) {
+        setShare(null)
+        setError(result.error)
+        return
+      }
+      const message =
+        result.scope === 'full'
+          ? `分享链接共 ${result.url.length} 字符`
+          : `数据集较大，链接仅包含当前样本的基因列表（${result.url.length} 字符）`
+      // 非 HTTPS 环境下剪贴板不可用，退回到手动复制
+      const copied = await navigator.clipboard?.writeText(result.url).then(
+        () => true,
+        () => false,
+      )
+      setShare({ url: result.url, message, copied: Boolean(copied) })
+    } catch (err) {
+      // 例如浏览器的 CompressionStream 压缩失败
+      setShare(null)
+      setError(err instanceof Error ? `生成分享链接失败：${err.message}` : '生成分享链接失败')
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    const result = parseSession(await file.text())
+    if (!result.ok) {
+      setError(result.error)
+      setRestoredAt(null)
+      return
+    }
+    setError(null)
+    setRestoredAt(result.session.savedAt)
+    onRestore(result.session)
+  }
+
+  return (
+    <div className="mb-6">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Session</p>
+      <div className="mt-2 grid grid-cols-3 gap-2">
+        <button onClick={onSave} className={buttonClassName}>
+          保存会话
+        </button>
+        <button onClick={() => inputRef.current?.click()} className={buttonClassName}>
+          载入会话
+        </button>
+        <button onClick={handleShare} disabled={sharing} className={buttonClassName}>
+          {sharing ? '生成中…' : '分享链接'}
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={async (event) => {
+          const file = event.target.files?.[0]
+          if (!file) return
+          await handleFile(file)
+          if (inputRef.current) {
+            inputRef.current.value = ''
+          }
+        }}
+      />
+      <p className="mt-2 text-xs text-slate-500">
+        会话文件记录数据集、标准化、色阶、选中基因、海报文字与粒子种子；也可载入旧版导出的调色板 JSON。
+        分享链接把同样的内容压缩进网址 # 之后，不经过服务器。
+      </p>
+      {share && (
+        <div className="mt-2 space-y-1">
+          <input
+            readOnly
+            value={share.url}
+            onFocus={(event) => event.target.select()}
+            className="w-full rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1.5 font-mono text-[10px] text-slate-300 focus:border-plasma/50 focus:outline-none"
+          />
+          <p className="text-xs text-plasma">
+            {share.copied ? '已复制到剪贴板 · ' : '请手动复制 · '}
+            {share.message}
+          </p>
+        </div>
+      )}
+      {notice && !error && (
+        <p className={`mt-2 text-xs ${notice.tone === 'error' ? 'text-rose-300' : 'text-plasma'}`}>{notice.message}</p>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+      {restoredAt && !error && (
+        <p className="mt-2 text-xs text-plasma">已恢复 {new Date(restoredAt).toLocaleString()} 保存的会话</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * Gene Flux Palette 核心库：解析、标准化、色阶映射、时间线插值与基因知识库
+ * 不依赖 DOM 与 React，可在浏览器、Node CLI 与批处理流程（Snakemake / Nextflow）中使用
+ */
+
+export type { GeneExpression } from '../data/sampleGenes'
+export type { DifferentialGene, SignificanceStatistic } from '../types/differential'
+export type { ExpressionMatrix, MatrixGene } from '../types/matrix'
+export type {
+  PaletteClampMode,
+  PaletteDefinition,
+  PaletteGene,
+  PaletteInterpolation,
+  PaletteKind,
+} from '../types/palette'
+export type { AnimationFrame, TimelineData, TimePoint } from '../types/timeline'
+
+// 解析：CSV / TSV 文本 → 表达矩阵、差异表达结果或时间线，附逐行校验报告
+export {
+  parseDifferentialText,
+  parseGeneText,
+  parseTimelineText,
+  type CsvResult,
+  type DifferentialCsvResult,
+  type TimelineCsvResult,
+} from '../utils/csv'
+export { hasErrors, type ValidationIssue, type ValidationReport } from '../utils/validation'
+export type { IdentifierReport } from '../utils/identifiers'
+export { getSampleGenes, toSingleSampleMatrix } from '../utils/matrix'
+
+// 标准化
+export {
+  DEFAULT_NORMALIZATION,
+  describeNormalization,
+  normalizeBySymbol,
+  normalizeMatrix,
+  normalizeValues,
+  scaleLabels,
+  transformLabels,
+  type CountTransform,
+  type NormalizationResult,
+  type NormalizationSettings,
+  type ScaleMethod,
+} from '../utils/normalization'
+export { computeStats, scaleToRange } from '../utils/math'
+
+// 色阶
+export {
+  builtinPalettes,
+  buildGradient,
+  colorForGene,
+  mapValueToColor,
+  readPaletteDefinition,
+  validatePaletteDefinition,
+  type GeneColorSample,
+} from '../utils/color'
+export {
+  getRegulation,
+  getSignificance,
+  getSignificanceP,
+  inferSignificanceStatistic,
+  isSignificant,
+} from '../utils/differential'
+export {
+  DIFFERENTIAL_NORMALIZATION_LABEL,
+  applyPalette,
+  buildDifferentialPalette,
+  buildMatrixPalette,
+  buildPalettePayload,
+  normalizeDifferentialGenes,
+  normalizeSampleGenes,
+  type MatrixPaletteOptions,
+  type MatrixPaletteResult,
+  type NormalizedGene,
+  type PalettePayload,
+  type PalettePayloadMeta,
+} from './palette'
+
+// 色卡导出：CSS / Tailwind / GPL / ASE / Design tokens / SVG
+export {
+  paletteExportFormats,
+  toAse,
+  toCssVariables,
+  toDesignTokens,
+  toGpl,
+  toSvgSheet,
+  toTailwindColors,
+  type PaletteExportFormat,
+} from '../utils/paletteFormats'
+
+// 可复现的随机数：粒子布局种子
+export { createRandom, parseSeed } from '../utils/random'
+
+// 时间线
+export { calculateAnimationStats, generateAnimationFrames, interpolateGenes } from '../utils/animation'
+export {
+  buildTimelineFrames,
+  buildTimelineFramesPayload,
+  type TimelineFrameData,
+  type TimelineFrameOptions,
+} from './timeline'
+
+// 粒子初始布局（单位圆坐标）：功能类别扇区、通路簇、表达螺旋与相关性嵌入
+export {
+  MIN_EMBEDDING_SAMPLES,
+  canEmbed,
+  computeLayout,
+  particleLayouts,
+  type LayoutInput,
+  type LayoutPoint,
+  type ParticleLayoutId,
+} from '../utils/particleLayout'
+
+// 基因知识库
+export {
+  areInSamePathway,
+  buildPathwayAdjacency,
+  geneStories,
+  getGeneCategories,
+  getGenePathways,
+  getPrimaryCategory,
+  type GeneCategory,
+  type PathwayRelation,
+} from '../data/geneKnowledge'
@@ -0,0 +1,114 @@
+/**
+ * 调色流程：表达数据 → 标准化值 → 色阶颜色
+ * Web 应用与 CLI 共用同一套实现，同一输入在浏览器与批处理流程中得到相同的颜色
+ */
+
+import type { GeneExpression } from '../data/sampleGenes'
+import type { DifferentialGene, SignificanceStatistic } from '../types/differential'
+import type { ExpressionMatrix } from '../types/matrix'
+import type { PaletteDefinition, PaletteGene } from '../types/palette'
+import { colorForGene } from '../utils/color'
+import { getSignificance } from '../utils/differential'
+import { computeStats, scaleToRange } from '../utils/math'
+import { getSampleGenes } from '../utils/matrix'
+import { DEFAULT_NORMALIZATION, normalizeMatrix, type NormalizationSettings } from '../utils/normalization'
+
+export type NormalizedGene = Omit<PaletteGene, 'color'>
+
+// 差异表达数据不经过标准化流程，直接使用 log2FC
+export const DIFFERENTIAL_NORMALIZATION_LABEL = 'log2FC (DE, no normalization)'
+
+export type MatrixPaletteOptions = {
+  sampleIndex?: number
+  normalization?: NormalizationSettings
+}
+
+export type MatrixPaletteResult = {
+  genes: PaletteGene[]
+  notes: string[] // 标准化流程中的回退或跳过说明
+}
+
+export type PalettePayloadMeta = {
+  paletteMode: string
+  palette: PaletteDefinition // 完整色阶定义，自定义预设也可复现
+  normalization: string // 可读的流程描述
+  normalizationSettings: NormalizationSettings | null // 差异表达数据为 null
+  sample: string | null
+  seed: number | null // 粒子布局种子，载入为会话时恢复同一构图；CLI 未指定 --seed 时为 null
+}
+
+// percentile 为原始值在当前数据中的相对位置
+const percentileOf = (genes: GeneExpression[]) => {
+  const stats = computeStats(genes.map((gene) => gene.value))
+  return (value: number) => scaleToRange(value, stats.min, stats.max, 0, 1)
+}
+
+/**
+ * 取标准化矩阵中指定样本的值；normalizedMatrix 需由整个矩阵一起标准化（分位数标准化需要所有样本）
+ */
+export const normalizeSampleGenes = (
+  genes: GeneExpression[],
+  normalizedMatrix: ExpressionMatrix,
+  sampleIndex: number,
+): NormalizedGene[] => {
+  const percentile = percentileOf(genes)
+  return genes.map((gene, index) => ({
+    ...gene,
+    normalized: normalizedMatrix.genes[index].values[sampleIndex],
+    percentile: percentile(gene.value),
+  }))
+}
+
+/**
+ * 差异表达数据直接以 log2FC 着色（发散色阶以 0 为中心），显著性驱动粒子大小与光晕
+ */
+export const normalizeDifferentialGenes = (
+  genes: DifferentialGene[],
+  statistic: SignificanceStatistic,
+): NormalizedGene[] => {
+  const percentile = percentileOf(genes)
+  return genes.map((gene) => ({
+    ...gene,
+    normalized: gene.log2FoldChange,
+    percentile: percentile(gene.value),
+    significance: getSignificance(gene, statistic),
+  }))
+}
+
+export const applyPalette = (genes: NormalizedGene[], palette: PaletteDefinition): PaletteGene[] =>
+  genes.map((gene) => ({ ...gene, color: colorForGene(gene, palette) }))
+
+export const buildMatrixPalette = (
+  matrix: ExpressionMatrix,
+  palette: PaletteDefinition,
+  { sampleIndex = 0, normalization = DEFAULT_NORMALIZATION }: MatrixPaletteOptions = {},
+): MatrixPaletteResult => {
+  const index = Math.min(Math.max(sampleIndex, 0), matrix.samples.length - 1)
+  const normalized = normalizeMatrix(matrix, normalization)
+  return {
+    genes: applyPalette(normalizeSampleGenes(getSampleGenes(matrix, index), normalized.matrix, index), palette),
+    notes: normalized.notes,
+  }
+}
+
+export const buildDifferentialPalette = (
+  genes: DifferentialGene[],
+  palette: PaletteDefinition,
+  statistic: SignificanceStatistic,
+) => applyPalette(normalizeDifferentialGenes(genes, statistic), palette)
+
+/**
+ * 导出的 JSON 同时记录调色模式与标准化流程，便于复现
+ */
+export const buildPalettePayload = (genes: PaletteGene[], meta: PalettePayloadMeta) => ({
+  meta: { ...meta, exportedAt: new Date().toISOString() },
+  genes: genes.map((gene) => ({
+    symbol: gene.symbol,
+    value: Number(gene.value.toFixed(3)),
+    normalized: Number(gene.normalized.toFixed(3)),
+    percentile: Number(gene.percentile.toFixed(3)),
+    colorHex: gene.color.hex,
+  })),
+})
+
+export type PalettePayload = ReturnType<typeof buildPalettePayload>
@@ -0,0 +1,80 @@
+/**
+ * 时间线逐帧数据：插值后的基因数值、标准化值与颜色，不含画布与粒子物理
+ */
+
+import type { PaletteDefinition } from '../types/palette'
+import type { TimelineData } from '../types/timeline'
+import { generateAnimationFrames } from '../utils/animation'
+import { colorForGene } from '../utils/color'
+import {
+  DEFAULT_NORMALIZATION,
+  describeNormalization,
+  normalizeBySymbol,
+  type NormalizationSettings,
+} from '../utils/normalization'
+
+export type TimelineFrameOptions = {
+  fps?: number
+  normalization?: NormalizationSettings
+}
+
+export type TimelineFrameData = {
+  frame: number // 从 1 开始，与 PNG 帧序列的编号一致
+  time: number // 秒
+  timePoint: { id: string; label: string; timestamp: number }
+  progress: number // 到下一个时间点的插值进度
+  genes: Array<{ symbol: string; value: number; normalized: number; color: string }>
+}
+
+const DEFAULT_FPS = 30
+
+const round = (value: number) => Number(value.toFixed(4))
+
+export const buildTimelineFrames = (
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  { fps = DEFAULT_FPS, normalization = DEFAULT_NORMALIZATION }: TimelineFrameOptions = {},
+): TimelineFrameData[] => {
+  const frames = generateAnimationFrames(timeline, fps)
+  return frames.map((frame, index) => {
+    const genes = frame.interpolatedGenes ?? frame.timePoint.genes
+    const normalized = normalizeBySymbol(genes, normalization)
+    return {
+      frame: index + 1,
+      time: round((index / frames.length) * timeline.totalDuration),
+      timePoint: { id: frame.timePoint.id, label: frame.timePoint.label, timestamp: frame.timePoint.timestamp },
+      progress: round(frame.progress),
+      genes: genes.map((gene) => {
+        const value = normalized.get(gene.symbol) ?? 0
+        return {
+          symbol: gene.symbol,
+          value: round(gene.value),
+          normalized: round(value),
+          color: colorForGene({ symbol: gene.symbol, normalized: value }, palette).hex,
+        }
+      }),
+    }
+  })
+}
+
+/**
+ * 与 PNG 帧序列的 manifest.json 结构一致（不含画布尺寸与文件名）
+ */
+export const buildTimelineFramesPayload = (
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  options: TimelineFrameOptions = {},
+) => {
+  const frames = buildTimelineFrames(timeline, palette, options)
+  return {
+    title: timeline.title,
+    description: timeline.description,
+    fps: options.fps ?? DEFAULT_FPS,
+    frameCount: frames.length,
+    duration: timeline.totalDuration,
+    palette: palette.name,
+    normalization: describeNormalization(options.normalization ?? DEFAULT_NORMALIZATION),
+    exportedAt: new Date().toISOString(),
+    frames,
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * 离线基因标识符对照表
+ * HGNC 官方 symbol ↔ Ensembl 基因 ID ↔ 别名 / 旧名（含小鼠写法）
+ * 数据（geneIdentifiers.json）由 scripts/build-gene-identifiers.mjs 生成，不要手工编辑
+ * 仓库内附带的是 29 个基因的示例表；完整对照表需下载 HGNC complete set 后运行 npm run data:identifiers 生成
+ */
+
+import table from './geneIdentifiers.json'
+
+export type GeneIdentifierRecord = {
+  symbol: string        // HGNC 官方 symbol
+  ensembl: string | null // Ensembl 人类基因 ID（不含版本号），HGNC 未对应时为 null
+  aliases: string[]     // 别名、旧名与常见写法（大小写不敏感）
+}
+
+// JSON 中的紧凑元组：[symbol, ENSG 后的数字编号, "别名1|别名2"]
+type CompactRecord = [string, number | null, string]
+
+const toEnsemblId = (id: number) => `ENSG${String(id).padStart(11, '0')}`
+
+export const geneIdentifierTable: GeneIdentifierRecord[] = (table.genes as CompactRecord[]).map(
+  ([symbol, ensembl, aliases]) => ({
+    symbol,
+    ensembl: ensembl === null ? null : toEnsemblId(ensembl),
+    aliases: aliases ? aliases.split('|') : [],
+  }),
+)
+
+// HGNC complete set 约有 4 万多个基因；低于该数量时视为示例表，在解析报告中提示覆盖范围有限
+const FULL_TABLE_MIN_GENES = 1000
+
+export const isSampleIdentifierTable = geneIdentifierTable.length < FULL_TABLE_MIN_GENES
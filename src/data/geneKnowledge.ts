@@ -102,6 +102,30 @@ export function getGeneCategories(symbol: string): GeneCategory[] {
   return geneCategories[symbol] || ['signaling']
 }
 
+/**
+ * 获取基因的主要功能类别（知识库中的第一项），未收录时返回 null
+ */
+export function getPrimaryCategory(symbol: string): GeneCategory | null {
+  return geneCategories[symbol]?.[0] ?? null
+}
+
+/**
+ * 双变量色彩模式中各类别的色相（LCh hue）与饱和度（chroma）
+ * 与 getCategoryColorHint 的描述保持一致：促癌暖色、抑癌冷色、其余低饱和中性色
+ */
+export const categoryHues: Record<GeneCategory, { hue: number; chroma: number }> = {
+  tumor_suppressor: { hue: 285, chroma: 55 },
+  oncogene: { hue: 35, chroma: 70 },
+  cell_cycle: { hue: 80, chroma: 25 },
+  apoptosis: { hue: 205, chroma: 45 },
+  angiogenesis: { hue: 340, chroma: 60 },
+  metabolism: { hue: 110, chroma: 50 },
+  immune: { hue: 150, chroma: 25 },
+  dna_repair: { hue: 250, chroma: 55 },
+  signaling: { hue: 300, chroma: 20 },
+  transcription: { hue: 60, chroma: 20 },
+}
+
 /**
  * 判断两个基因是否在同一通路
  */
@@ -111,6 +135,31 @@ export function areInSamePathway(gene1: string, gene2: string): boolean {
   )
 }
 
+/**
+ * 预先计算通路邻接表：adjacency[i] 为与第 i 个基因同处某条通路的基因下标（升序，不含自身下标）
+ * 模拟中每帧按邻接表遍历，代替对所有基因对调用 areInSamePathway
+ */
+export function buildPathwayAdjacency(symbols: string[]): number[][] {
+  const indices = new Map<string, number[]>()
+  symbols.forEach((symbol, index) => indices.set(symbol, [...(indices.get(symbol) ?? []), index]))
+
+  const neighbours = symbols.map(() => new Set<number>())
+  pathways.forEach(pathway => {
+    const members = pathway.genes.flatMap(gene => indices.get(gene) ?? [])
+    members.forEach(a => members.forEach(b => {
+      if (a !== b) neighbours[a].add(b)
+    }))
+  })
+  return neighbours.map(set => [...set].sort((a, b) => a - b))
+}
+
+/**
+ * 知识库是否收录该基因（功能分类、通路或数据故事任一即可）
+ */
+export function hasGeneKnowledge(symbol: string): boolean {
+  return symbol in geneCategories || symbol in geneStories || getGenePathways(symbol).length > 0
+}
+
 /**
  * 获取基因通路信息
  */
@@ -2,6 +2,8 @@ export type GeneExpression = {
   symbol: string
   value: number
   description?: string
+  originalId?: string // 导入时的原始标识符（别名 / Ensembl ID），symbol 为解析后的官方名
+  length?: number // 基因长度（bp），仅用于 TPM
 }
 
 export const sampleGenes: GeneExpression[] = [
@@ -0,0 +1,8 @@
+// 由 vite.config.ts 的 define 注入（package.json 的 version）
+declare const __APP_VERSION__: string
+
+// 由 vite.inlineScript.ts 打包为字符串的脚本入口
+declare module '*?inline-script' {
+  const code: string
+  export default code
+}
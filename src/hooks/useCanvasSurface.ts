@@ -0,0 +1,85 @@
+/**
+ * 响应式、HiDPI 画布：监听容器尺寸与 devicePixelRatio，按设备像素分配画布缓冲区
+ * 组件始终在 CSS 像素坐标系中绘制，尺寸变化通过 onResize 通知（用于按比例换算粒子坐标，而不是重启模拟）
+ */
+
+import { useEffect, useEffectEvent, useRef, useState } from 'react'
+
+export type CanvasSurfaceSize = {
+  width: number // CSS 像素
+  height: number
+  pixelRatio: number
+}
+
+type CanvasSurfaceOptions = {
+  aspectRatio?: number // 宽 / 高；设置后高度随宽度变化，否则填满容器
+  onResize?: (next: CanvasSurfaceSize, previous: CanvasSurfaceSize | null) => void
+}
+
+const MIN_SIZE = 1
+
+/**
+ * 每帧绘制前调用：把坐标系设为 CSS 像素（scale 用于逻辑尺寸与显示尺寸不同的画布）
+ */
+export const applySurfaceTransform = (ctx: CanvasRenderingContext2D, size: CanvasSurfaceSize, scale = 1) => {
+  const ratio = size.pixelRatio * scale
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+}
+
+export function useCanvasSurface({ aspectRatio, onResize }: CanvasSurfaceOptions = {}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const sizeRef = useRef<CanvasSurfaceSize | null>(null) // 供动画循环读取，避免因尺寸变化重启循环
+  const [size, setSize] = useState<CanvasSurfaceSize | null>(null)
+
+  const resize = useEffectEvent(() => {
+    const container = containerRef.current
+    const canvas = canvasRef.current
+    if (!container || !canvas) return
+
+    const width = Math.max(MIN_SIZE, Math.floor(container.clientWidth))
+    const height = Math.max(MIN_SIZE, aspectRatio ? Math.round(width / aspectRatio) : Math.floor(container.clientHeight))
+    const pixelRatio = window.devicePixelRatio || 1
+    const previous = sizeRef.current
+    if (previous && previous.width === width && previous.height === height && previous.pixelRatio === pixelRatio) return
+
+    // 修改 width / height 会清空画布并重置上下文状态，调用方每帧重新设置变换
+    canvas.width = Math.round(width * pixelRatio)
+    canvas.height = Math.round(height * pixelRatio)
+    canvas.style.width = `${width}px`
+    canvas.style.height = `${height}px`
+
+    const next = { width, height, pixelRatio }
+    sizeRef.current = next
+    onResize?.(next, previous)
+    setSize(next)
+  })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => resize())
+    observer.observe(container)
+
+    // 窗口在不同缩放比例的屏幕间移动时 devicePixelRatio 会变化，ResizeObserver 不会触发
+    let media: MediaQueryList | null = null
+    const watchPixelRatio = () => {
+      media?.removeEventListener('change', handlePixelRatioChange)
+      media = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`)
+      media.addEventListener('change', handlePixelRatioChange)
+    }
+    const handlePixelRatioChange = () => {
+      resize()
+      watchPixelRatio()
+    }
+    watchPixelRatio()
+
+    return () => {
+      observer.disconnect()
+      media?.removeEventListener('change', handlePixelRatioChange)
+    }
+  }, [])
+
+  return { containerRef, canvasRef, sizeRef, size }
+}
@@ -0,0 +1,87 @@
+/**
+ * 独立 HTML 导出的运行时脚本：构建时由 vite.inlineScript.ts 打包成一段 IIFE，内联到导出的文件中
+ * 直接复用应用中的 particleSimulation 与 particleRenderer，物理与绘制始终与画布一致
+ */
+
+import type { ParticleArtData } from '../utils/htmlExport'
+import { IDENTITY_VIEW } from '../utils/canvasView'
+import { drawParticleScene } from '../utils/particleRenderer'
+import { findParticleAt, stepSimulation } from '../utils/particleSimulation'
+
+const data: ParticleArtData = JSON.parse(document.getElementById('gene-art-data')!.textContent ?? '{}')
+const canvas = document.getElementById('gene-art') as HTMLCanvasElement
+const ctx = canvas.getContext('2d')!
+const panel = document.getElementById('gene-info')!
+
+const size = { width: data.width, height: data.height, pixelRatio: window.devicePixelRatio || 1 }
+canvas.width = Math.round(size.width * size.pixelRatio)
+canvas.height = Math.round(size.height * size.pixelRatio)
+
+const simulation = { particles: data.particles, adjacency: data.adjacency, spacing: data.spacing }
+let selected = data.selected
+
+const row = (label: string, value: string) => {
+  const item = document.createElement('div')
+  const dt = document.createElement('dt')
+  const dd = document.createElement('dd')
+  dt.textContent = label
+  dd.textContent = value
+  item.append(dt, dd)
+  return item
+}
+
+const showInfo = () => {
+  panel.replaceChildren()
+  const p = data.particles[selected]
+  if (!p) {
+    const hint = document.createElement('p')
+    hint.className = 'hint'
+    hint.textContent = '点击粒子查看基因信息'
+    panel.append(hint)
+    return
+  }
+  const head = document.createElement('header')
+  const swatch = document.createElement('span')
+  swatch.className = 'swatch'
+  swatch.style.background = p.color
+  const name = document.createElement('h2')
+  name.textContent = p.symbol
+  head.append(swatch, name)
+  const list = document.createElement('dl')
+  list.append(row('颜色', p.color))
+  if (p.info) {
+    if (p.info.originalId) list.append(row('原始 ID', p.info.originalId))
+    list.append(
+      row(data.unitLabel, String(p.info.value)),
+      row('标准化值', String(p.info.normalized)),
+      row('百分位', `${(p.info.percentile * 100).toFixed(0)}%`),
+    )
+    if (p.info.significance !== null) list.append(row(data.significanceLabel, String(p.info.significance)))
+    if (p.info.pathways.length) list.append(row('通路', p.info.pathways.join('、')))
+  }
+  panel.append(head, list)
+  if (p.info?.story) {
+    const story = document.createElement('p')
+    story.className = 'story'
+    story.textContent = p.info.story
+    panel.append(story)
+  }
+}
+
+const animate = () => {
+  stepSimulation(simulation, size)
+  drawParticleScene(ctx, simulation, size, { selected, highlighted: new Set(), view: IDENTITY_VIEW })
+  requestAnimationFrame(animate)
+}
+
+// 画布按 CSS 缩放显示，点击坐标需换算回画布坐标
+canvas.addEventListener('click', (event) => {
+  const rect = canvas.getBoundingClientRect()
+  const x = ((event.clientX - rect.left) * size.width) / rect.width
+  const y = ((event.clientY - rect.top) * size.height) / rect.height
+  selected = findParticleAt(simulation, x, y)
+  showInfo()
+})
+
+showInfo()
+animate()
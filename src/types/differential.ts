@@ -0,0 +1,18 @@
+import type { GeneExpression } from '../data/sampleGenes'
+
+/**
+ * 差异表达结果（DESeq2 / edgeR / limma 导出表）
+ * value 与 log2FoldChange 相同，便于复用调色板与粒子系统
+ */
+export type DifferentialGene = GeneExpression & {
+  log2FoldChange: number
+  pvalue: number | null // DESeq2 对离群基因输出 NA
+  padj: number | null   // 独立过滤后可能为 NA
+  baseMean: number | null
+}
+
+// 判断显著性所用的统计量，每个数据集确定一次（见 utils/differential）
+export type SignificanceStatistic = 'padj' | 'pvalue'
+
+export const SIGNIFICANCE_THRESHOLD = 0.05
+export const FOLD_CHANGE_THRESHOLD = 1 // |log2FC|
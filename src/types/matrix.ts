@@ -0,0 +1,15 @@
+export type MatrixLayout = 'single' | 'matrix'
+
+export type MatrixGene = {
+  symbol: string
+  description?: string
+  originalId?: string
+  length?: number // 基因长度（bp），TPM 需要
+  values: number[] // 与 samples 一一对应
+}
+
+export type ExpressionMatrix = {
+  layout: MatrixLayout
+  samples: string[]
+  genes: MatrixGene[]
+}
@@ -5,5 +5,37 @@ export type PaletteGene = GeneExpression & {
   normalized: number
   percentile: number
   color: GeneColorSample
+  significance?: number // 差异表达的 -log10(padj 或 p-value)，仅 DE 数据存在
 }
 
+/**
+ * - continuous: 单变量色阶，颜色只由标准化表达值决定
+ * - bivariate: 色相来自基因主要功能类别，亮度表示表达强度
+ */
+export type PaletteKind = 'continuous' | 'bivariate'
+
+export type PaletteInterpolation = 'lrgb' | 'lab' | 'lch' | 'hsl'
+
+/**
+ * 超出 domain 的数值处理方式：
+ * - clamp: 取两端颜色
+ * - mark: 使用 outOfRangeColor 单独标记
+ */
+export type PaletteClampMode = 'clamp' | 'mark'
+
+/**
+ * 色阶定义：内置模式与用户保存的预设共用同一结构
+ */
+export type PaletteDefinition = {
+  id: string
+  name: string
+  description: string
+  kind?: PaletteKind // 缺省为 continuous
+  stops: string[] // 在 domain 内均匀分布
+  domain: [number, number]
+  interpolation: PaletteInterpolation
+  clamp: PaletteClampMode
+  outOfRangeColor: string
+  builtin?: boolean
+  colorblindSafe?: boolean // 感知均匀且对常见色盲友好的科学色阶
+}
@@ -0,0 +1,82 @@
+/**
+ * 粒子画布的视图变换（滚轮缩放 / 拖动平移）与套索命中检测
+ * 模拟始终在画布尺寸的坐标系中进行，视图变换只影响绘制与指针坐标换算
+ */
+
+import { clamp } from './math'
+
+// 缩放与平移：屏幕坐标（CSS 像素）= 模拟坐标 × scale + (x, y)
+export type ViewTransform = {
+  scale: number
+  x: number
+  y: number
+}
+
+export type ViewPoint = {
+  x: number
+  y: number
+}
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 }
+
+export const MIN_VIEW_SCALE = 1
+export const MAX_VIEW_SCALE = 8
+
+export const isIdentityView = (view: ViewTransform) => view.scale === 1 && view.x === 0 && view.y === 0
+
+/**
+ * 屏幕坐标 → 模拟坐标
+ */
+export const toWorld = (view: ViewTransform, point: ViewPoint): ViewPoint => ({
+  x: (point.x - view.x) / view.scale,
+  y: (point.y - view.y) / view.scale,
+})
+
+/**
+ * 模拟坐标 → 屏幕坐标
+ */
+export const toScreen = (view: ViewTransform, point: ViewPoint): ViewPoint => ({
+  x: point.x * view.scale + view.x,
+  y: point.y * view.scale + view.y,
+})
+
+/**
+ * 限制平移范围，画布始终被模拟区域填满（不会拖出空白）
+ */
+export const clampView = (view: ViewTransform, { width, height }: { width: number; height: number }): ViewTransform => {
+  const scale = clamp(view.scale, MIN_VIEW_SCALE, MAX_VIEW_SCALE)
+  return {
+    scale,
+    x: clamp(view.x, width - width * scale, 0),
+    y: clamp(view.y, height - height * scale, 0),
+  }
+}
+
+/**
+ * 以屏幕上的 anchor 为中心缩放（滚轮位置保持不动）
+ */
+export const zoomView = (
+  view: ViewTransform,
+  factor: number,
+  anchor: ViewPoint,
+  bounds: { width: number; height: number },
+): ViewTransform => {
+  const scale = clamp(view.scale * factor, MIN_VIEW_SCALE, MAX_VIEW_SCALE)
+  const world = toWorld(view, anchor)
+  return clampView({ scale, x: anchor.x - world.x * scale, y: anchor.y - world.y * scale }, bounds)
+}
+
+/**
+ * 射线法判断点是否在套索多边形内
+ */
+export const isInsidePolygon = (point: ViewPoint, polygon: ViewPoint[]) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
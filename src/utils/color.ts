@@ -1,47 +1,232 @@
 import chroma from 'chroma-js'
-import { clamp } from './math'
+import type { PaletteClampMode, PaletteDefinition, PaletteInterpolation } from '../types/palette'
+import { categoryHues, getPrimaryCategory, type GeneCategory } from '../data/geneKnowledge'
 
-export type PaletteModeId = 'aurora' | 'ion' | 'void'
+// 色阶 id：内置模式或用户预设（custom-*）
+export type PaletteModeId = string
 export type GeneColorSample = {
   hex: string
   rgb: string
   luminance: number
+  outOfRange?: boolean // 仅在 clamp = 'mark' 且数值超出 domain 时为 true
 }
 
-const paletteScaleStops: Record<PaletteModeId, string[]> = {
-  aurora: ['#152238', '#7f5af0', '#00ffd0'],
-  ion: ['#041625', '#46c1ff', '#f5f3ff'],
-  void: ['#111827', '#4338ca', '#f0abfc'],
+const DEFAULT_DOMAIN: [number, number] = [-2.5, 2.5]
+
+const INTERPOLATIONS: PaletteInterpolation[] = ['lrgb', 'lab', 'lch', 'hsl']
+const CLAMP_MODES: PaletteClampMode[] = ['clamp', 'mark']
+
+const createBuiltin = (
+  id: string,
+  name: string,
+  description: string,
+  stops: string[],
+  options: Partial<PaletteDefinition> = {},
+): PaletteDefinition => ({
+  id,
+  name,
+  description,
+  stops,
+  domain: DEFAULT_DOMAIN,
+  interpolation: 'lrgb',
+  clamp: 'clamp',
+  outOfRangeColor: '#facc15',
+  builtin: true,
+  ...options,
+})
+
+// 科学色阶按原始色表等距取样，在 Lab 空间插值以保持感知均匀
+const scientific = { interpolation: 'lab', colorblindSafe: true } as const
+
+// 双变量模式的亮度范围（LCh 的 L），低表达暗、高表达亮
+const BIVARIATE_LIGHTNESS = [22, 88] as const
+
+const categoryColor = (category: GeneCategory | null, lightness: number) => {
+  const { hue, chroma: saturation } = category ? categoryHues[category] : { hue: 0, chroma: 0 }
+  return chroma.lch(lightness, saturation, hue)
+}
+
+// 卡片渐变展示几个代表性类别的色相
+const bivariateStops = (['oncogene', 'angiogenesis', 'tumor_suppressor', 'dna_repair', 'apoptosis', 'metabolism'] as const).map(
+  (category) => categoryColor(category, 60).hex(),
+)
+
+export const builtinPalettes: PaletteDefinition[] = [
+  createBuiltin('aurora', 'Aurora Flux', 'Warm up-regulation, cool down-regulation', ['#152238', '#7f5af0', '#00ffd0']),
+  createBuiltin('ion', 'Ion Drift', 'High variance pops with neon plasma edge', ['#041625', '#46c1ff', '#f5f3ff']),
+  createBuiltin('void', 'Void Bloom', 'Muted lows with sharp violet peaks', ['#111827', '#4338ca', '#f0abfc']),
+  // 发散色阶：下调为蓝、上调为红，0 为中性白，用于 log2FC
+  createBuiltin('diverge', 'Fold Diverge', 'Blue down-regulation, red up-regulation (log2FC)', ['#2563eb', '#f8fafc', '#ef4444']),
+  createBuiltin(
+    'viridis',
+    'Viridis',
+    'Perceptually uniform sequential map',
+    ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+    scientific,
+  ),
+  createBuiltin(
+    'cividis',
+    'Cividis',
+    'Optimized for red-green color vision deficiency',
+    ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8779', '#a69d75', '#c4b56c', '#fee838'],
+    scientific,
+  ),
+  createBuiltin(
+    'magma',
+    'Magma',
+    'Perceptually uniform, dark-to-light',
+    ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#fcfdbf'],
+    scientific,
+  ),
+  // ColorBrewer RdBu 反转：低值为蓝、高值为红
+  createBuiltin(
+    'rdbu',
+    'RdBu',
+    'ColorBrewer diverging blue–red',
+    ['#2166ac', '#4393c3', '#92c5de', '#d1e5f0', '#f7f7f7', '#fddbc7', '#f4a582', '#d6604d', '#b2182b'],
+    scientific,
+  ),
+  createBuiltin(
+    'puor',
+    'PuOr',
+    'ColorBrewer diverging orange–purple',
+    ['#b35806', '#e08214', '#fdb863', '#fee0b6', '#f7f7f7', '#d8daeb', '#b2abd2', '#8073ac', '#542788'],
+    scientific,
+  ),
+  createBuiltin(
+    'category',
+    'Category × Expression',
+    'Hue = primary gene category, lightness = expression',
+    bivariateStops,
+    { kind: 'bivariate', interpolation: 'lch' },
+  ),
+]
+
+// 以定义对象为键缓存，编辑后的新对象会自动重建色阶
+const scaleCache = new WeakMap<PaletteDefinition, chroma.Scale>()
+
+const getScale = (palette: PaletteDefinition) => {
+  let scale = scaleCache.get(palette)
+  if (!scale) {
+    scale = chroma.scale(palette.stops).domain(palette.domain).mode(palette.interpolation)
+    scaleCache.set(palette, scale)
+  }
+  return scale
 }
 
-const scaleCache: Partial<Record<PaletteModeId, chroma.Scale>> = {}
+export const isOutOfRange = (value: number, palette: PaletteDefinition) =>
+  value < palette.domain[0] || value > palette.domain[1]
 
-const getScale = (mode: PaletteModeId) => {
-  if (!scaleCache[mode]) {
-    scaleCache[mode] = chroma.scale(paletteScaleStops[mode]).domain([-2.5, 0, 2.5]).mode('lrgb')
+const toSample = (color: chroma.Color, outOfRange = false): GeneColorSample => ({
+  hex: color.hex(),
+  rgb: color.rgb().join(','),
+  luminance: color.luminance(),
+  ...(outOfRange && { outOfRange }),
+})
+
+/**
+ * 双变量模式：类别决定色相，标准化值在 domain 内线性映射为亮度
+ */
+export const mapBivariateColor = (
+  normalizedValue: number,
+  category: GeneCategory | null,
+  palette: PaletteDefinition,
+): GeneColorSample => {
+  if (palette.clamp === 'mark' && isOutOfRange(normalizedValue, palette)) {
+    return toSample(chroma(palette.outOfRangeColor), true)
   }
-  return scaleCache[mode]!
+  const [min, max] = palette.domain
+  const t = Math.min(1, Math.max(0, (normalizedValue - min) / (max - min)))
+  const [low, high] = BIVARIATE_LIGHTNESS
+  return toSample(categoryColor(category, low + (high - low) * t))
 }
 
-export const mapValueToColor = (normalizedValue: number, mode: PaletteModeId): GeneColorSample => {
-  const scale = getScale(mode)
-  const clamped = clamp(normalizedValue, -3, 3)
-  const color = scale(clamped)
-  return {
-    hex: color.hex(),
-    rgb: color.rgb().join(','),
-    luminance: color.luminance(),
+/**
+ * 仅按数值着色；双变量色阶在没有基因信息时退化为无类别的灰度亮度
+ */
+export const mapValueToColor = (normalizedValue: number, palette: PaletteDefinition): GeneColorSample => {
+  if (palette.kind === 'bivariate') return mapBivariateColor(normalizedValue, null, palette)
+  if (palette.clamp === 'mark' && isOutOfRange(normalizedValue, palette)) {
+    return toSample(chroma(palette.outOfRangeColor), true)
   }
+  // chroma 的 domain 会自动将超出范围的数值钳制到两端
+  return toSample(getScale(palette)(normalizedValue))
+}
+
+/**
+ * 按基因着色：双变量色阶会读取知识库中的主要功能类别
+ */
+export const colorForGene = (gene: { symbol: string; normalized: number }, palette: PaletteDefinition) =>
+  palette.kind === 'bivariate'
+    ? mapBivariateColor(gene.normalized, getPrimaryCategory(gene.symbol), palette)
+    : mapValueToColor(gene.normalized, palette)
+
+/**
+ * 按色阶本身生成 CSS 渐变，用于模式卡片与编辑器预览
+ */
+export const buildPaletteGradient = (palette: PaletteDefinition, steps = 12) => {
+  // 双变量色阶的 stops 为代表性类别色相，渐变仅作示意
+  const scale = getScale(palette)
+  const [min, max] = palette.domain
+  const stops = Array.from({ length: steps }, (_, idx) => {
+    const t = idx / (steps - 1)
+    return `${scale(min + (max - min) * t).hex()} ${Math.round(t * 100)}%`
+  })
+  return `linear-gradient(90deg, ${stops.join(', ')})`
 }
 
-export const buildGradient = (values: number[], mode: PaletteModeId) => {
+export const buildGradient = (values: number[], palette: PaletteDefinition) => {
   if (!values.length) return 'linear-gradient(to right, #0f172a, #1f2937)'
-  const scale = getScale(mode)
   const stops = values.map((val, idx) => {
-    const color = scale(clamp(val, -3, 3))
+    const color = mapValueToColor(val, palette)
     const position = Math.round((idx / Math.max(values.length - 1, 1)) * 100)
-    return `${color.hex()} ${position}%`
+    return `${color.hex} ${position}%`
   })
   return `linear-gradient(90deg, ${stops.join(', ')})`
 }
 
+/**
+ * 校验色阶定义，返回中文错误信息；合法时返回 null
+ */
+export const validatePaletteDefinition = (palette: PaletteDefinition): string | null => {
+  if (!palette.name.trim()) return '请填写色阶名称'
+  if (palette.stops.length < 2) return '至少需要两个颜色节点'
+  const invalid = palette.stops.find((stop) => !chroma.valid(stop))
+  if (invalid) return `无效的颜色值：${invalid}`
+  if (!chroma.valid(palette.outOfRangeColor)) return `无效的超范围颜色：${palette.outOfRangeColor}`
+  const [min, max] = palette.domain
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) return 'domain 下限必须小于上限'
+  return null
+}
+
+/**
+ * 校验单条色阶记录（localStorage / 会话文件 / CLI 参数），结构不符时返回 null
+ */
+export const readPaletteDefinition = (raw: unknown): PaletteDefinition | null => {
+  if (!raw || typeof raw !== 'object') return null
+  const record = raw as Record<string, unknown>
+  const domain = record.domain
+  if (
+    typeof record.id !== 'string' ||
+    typeof record.name !== 'string' ||
+    !Array.isArray(record.stops) ||
+    !record.stops.every((stop) => typeof stop === 'string') ||
+    !Array.isArray(domain) ||
+    domain.length !== 2
+  ) {
+    return null
+  }
+  const preset: PaletteDefinition = {
+    id: record.id,
+    name: record.name,
+    description: typeof record.description === 'string' ? record.description : '',
+    stops: record.stops as string[],
+    domain: [Number(domain[0]), Number(domain[1])],
+    interpolation: INTERPOLATIONS.includes(record.interpolation as PaletteInterpolation)
+      ? (record.interpolation as PaletteInterpolation)
+      : 'lrgb',
+    clamp: CLAMP_MODES.includes(record.clamp as PaletteClampMode) ? (record.clamp as PaletteClampMode) : 'clamp',
+    outOfRangeColor: typeof record.outOfRangeColor === 'string' ? record.outOfRangeColor : '#facc15',
+  }
+  return validatePaletteDefinition(preset) ? null : preset
+}
@@ -0,0 +1,17 @@
+/**
+ * 基于浏览器 CompressionStream 的压缩 / 解压；deflate-raw 用于分享链接，deflate（zlib）用于 PNG 文本块
+ */
+
+export type CompressionKind = 'deflate' | 'deflate-raw'
+
+export const supportsCompression = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+
+const pipe = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer())
+
+export const compressBytes = (bytes: Uint8Array<ArrayBuffer>, kind: CompressionKind) =>
+  pipe(bytes, new CompressionStream(kind))
+
+export const decompressBytes = (bytes: Uint8Array<ArrayBuffer>, kind: CompressionKind) =>
+  pipe(bytes, new DecompressionStream(kind))
@@ -1,11 +1,61 @@
 import Papa, { type ParseResult } from 'papaparse'
-import type { GeneExpression } from '../data/sampleGenes'
+import type { ExpressionMatrix } from '../types/matrix'
+import type { TimelineData, TimePoint } from '../types/timeline'
+import type { DifferentialGene, SignificanceStatistic } from '../types/differential'
+import {
+  issueFromParseError,
+  toCsvTable,
+  validateRows,
+  type CsvTable,
+  type TableRow,
+  type ValidationIssue,
+  type ValidationReport,
+} from './validation'
+import {
+  createIdentifierReport,
+  resolveGeneIdentifier,
+  resolveGeneSymbols,
+  type IdentifierReport,
+} from './identifiers'
 
+/**
+ * 成功结果中的 data 只包含通过校验的行；report 记录所有被跳过的行及原因，
+ * 由调用方决定是否接受“仅导入有效行”。identifiers 记录基因标识符的解析情况。
+ */
 export type CsvResult =
-  | { ok: true; data: GeneExpression[] }
-  | { ok: false; error: string }
+  | { ok: true; data: ExpressionMatrix; report: ValidationReport; identifiers: IdentifierReport }
+  | { ok: false; error: string; report?: ValidationReport }
 
-const REQUIRED_HEADERS = ['symbol', 'value', 'description'] as const
+export type TimelineCsvResult =
+  | { ok: true; data: TimelineData; report: ValidationReport; identifiers: IdentifierReport }
+  | { ok: false; error: string; report?: ValidationReport }
+
+// statistic：文件有 padj 列时为 'padj'（padj 为 NA 的基因不显著），否则为 'pvalue'
+export type DifferentialCsvResult =
+  | {
+      ok: true
+      data: DifferentialGene[]
+      statistic: SignificanceStatistic
+      report: ValidationReport
+      identifiers: IdentifierReport
+    }
+  | { ok: false; error: string; report?: ValidationReport }
+
+const DEFAULT_TIMELINE_DURATION = 8 // 秒
+
+// DESeq2 / edgeR / limma 的常见列名
+const DIFFERENTIAL_HEADERS = {
+  gene: ['gene', 'symbol', 'gene_id', 'gene_name', 'id'],
+  log2FoldChange: ['log2foldchange', 'logfc', 'log2fc', 'log2_fold_change'],
+  pvalue: ['pvalue', 'p.value', 'pval', 'p_value'],
+  padj: ['padj', 'fdr', 'adj.p.val', 'qvalue', 'q_value', 'p.adjust'],
+  baseMean: ['basemean'],
+  logMean: ['logcpm', 'aveexpr'], // 已取 log2 的平均表达量
+}
+
+const REQUIRED_HEADERS = ['symbol', 'value'] as const
+const DESCRIPTION_HEADERS = ['description', 'desc', 'gene_name', 'name']
+const LENGTH_HEADERS = ['length', 'gene_length', 'effective_length']
 
 const normalizeHeader = (value: string) => value.trim().toLowerCase()
 
@@ -14,46 +64,340 @@ const hasRequiredHeaders = (headers: string[]) => {
   return REQUIRED_HEADERS.every((header) => normalized.includes(header))
 }
 
-const handleResult = (result: ParseResult<Record<string, string>>): CsvResult => {
-  if (result.errors.length) {
-    return { ok: false, error: 'CSV 解析失败，请检查文件格式（编码/分隔符等）。' }
+const isNumericCell = (value: string) => value.trim() !== '' && !Number.isNaN(Number(value))
+
+// 超过半数非空单元格可解析为数字的列视为样本列
+const isNumericColumn = (rows: TableRow[], columnIndex: number) => {
+  const cells = rows.map((row) => (row.cells[columnIndex] ?? '').trim()).filter(Boolean)
+  if (!cells.length) return false
+  return cells.filter(isNumericCell).length > cells.length / 2
+}
+
+const readCell = (row: TableRow, index: number) => (index >= 0 ? (row.cells[index] ?? '').trim() : '')
+
+/**
+ * 按解析后的官方 symbol 判定重复：p53 与 TP53 是同一基因，在校验报告中带行号列出，而不是解析时静默丢弃
+ */
+const resolvedSymbolOf = (row: TableRow, index: number) => resolveGeneIdentifier(readCell(row, index)).symbol
+
+const describeSymbol = (row: TableRow, index: number) => {
+  const input = readCell(row, index)
+  const symbol = resolvedSymbolOf(row, index)
+  return symbol === input ? input : `${input}（即 ${symbol}）`
+}
+
+const symbolSchema = (index: number) => ({
+  symbolColumn: index,
+  uniqueKey: (row: TableRow) => resolvedSymbolOf(row, index),
+  describeDuplicate: (row: TableRow) => describeSymbol(row, index),
+})
+
+// 可选的基因长度列，缺失或非正数时忽略
+const readLength = (row: TableRow, index: number) => {
+  const length = Number(readCell(row, index))
+  return index >= 0 && length > 0 ? { length } : {}
+}
+
+/**
+ * 去掉 PapaParse 报错的行，并把错误转换为诊断信息
+ */
+const readTable = (result: ParseResult<string[]>): { table: CsvTable; parseIssues: ValidationIssue[] } => {
+  // 分隔符识别的提示不对应任何一行，也不影响解析结果
+  const parseIssues = result.errors.filter((error) => error.type !== 'Delimiter').map(issueFromParseError)
+  const errorLines = new Set(parseIssues.map((issue) => issue.line))
+  const table = toCsvTable(result)
+  return {
+    table: { ...table, rows: table.rows.filter((row) => !errorLines.has(row.line)) },
+    parseIssues,
   }
+}
+
+const withParseIssues = (report: ValidationReport, parseIssues: ValidationIssue[]): ValidationReport => ({
+  issues: [...parseIssues, ...report.issues].sort((a, b) => a.line - b.line),
+  totalRows: report.totalRows + parseIssues.length,
+  validRows: report.validRows,
+})
+
+const buildSingleLayout = (table: CsvTable) => {
+  const normalized = table.headers.map(normalizeHeader)
+  const symbolIndex = normalized.indexOf('symbol')
+  const valueIndex = normalized.indexOf('value')
+  const descriptionIndex = normalized.indexOf('description')
+  const lengthIndex = normalized.findIndex((header) => LENGTH_HEADERS.includes(header))
+
+  const { validRows, report } = validateRows(table, { ...symbolSchema(symbolIndex), numericColumns: [valueIndex] })
+  const data: ExpressionMatrix = {
+    layout: 'single',
+    samples: ['value'],
+    genes: validRows.map((row) => ({
+      symbol: readCell(row, symbolIndex),
+      description: readCell(row, descriptionIndex),
+      ...readLength(row, lengthIndex),
+      values: [Number(readCell(row, valueIndex))],
+    })),
+  }
+  return { data, report }
+}
+
+/**
+ * 宽格式表达矩阵：第一列为基因，其余数值列为样本
+ */
+const buildMatrixLayout = (table: CsvTable) => {
+  const { headers, rows } = table
+  const descriptionIndex = headers.findIndex(
+    (header, index) => index > 0 && DESCRIPTION_HEADERS.includes(normalizeHeader(header)),
+  )
+  const lengthIndex = headers.findIndex(
+    (header, index) => index > 0 && LENGTH_HEADERS.includes(normalizeHeader(header)),
+  )
+  const sampleIndices = headers
+    .map((_, index) => index)
+    .filter(
+      (index) =>
+        index > 0 && index !== descriptionIndex && index !== lengthIndex && isNumericColumn(rows, index),
+    )
 
-  if (!result.meta.fields || !hasRequiredHeaders(result.meta.fields)) {
-    return { ok: false, error: 'CSV 必须包含 symbol,value,description 三列。' }
+  if (!sampleIndices.length) return null
+
+  const { validRows, report } = validateRows(table, { ...symbolSchema(0), numericColumns: sampleIndices })
+  const data: ExpressionMatrix = {
+    layout: 'matrix',
+    samples: sampleIndices.map((index, i) => headers[index] || `Sample ${i + 1}`),
+    genes: validRows.map((row) => ({
+      symbol: readCell(row, 0),
+      description: readCell(row, descriptionIndex),
+      ...readLength(row, lengthIndex),
+      values: sampleIndices.map((index) => Number(readCell(row, index))),
+    })),
   }
+  return { data, report }
+}
 
-  const rows = (result.data as Record<string, string>[]).map((row) => ({
-    symbol: (row.symbol || '').trim(),
-    value: Number(row.value),
-    description: (row.description || '').trim(),
-  }))
+const handleResult = (result: ParseResult<string[]>): CsvResult => {
+  const { table, parseIssues } = readTable(result)
 
-  const invalid = rows.find((row) => !row.symbol || Number.isNaN(row.value))
-  if (invalid) {
-    return { ok: false, error: '存在缺失 symbol 或无法解析的 value。' }
+  if (table.headers.length < 2) {
+    return { ok: false, error: 'CSV 至少需要基因列与一个数值列。' }
   }
 
-  if (!rows.length) {
+  if (!table.rows.length && !parseIssues.length) {
     return { ok: false, error: 'CSV 为空，请至少提供 1 条数据。' }
   }
 
-  return { ok: true, data: rows }
+  const built = hasRequiredHeaders(table.headers) ? buildSingleLayout(table) : buildMatrixLayout(table)
+  if (!built) {
+    return {
+      ok: false,
+      error: 'CSV 必须包含 symbol,value 列，或为第一列基因、其余列为样本数值的表达矩阵。',
+    }
+  }
+
+  const report = withParseIssues(built.report, parseIssues)
+  if (!built.data.genes.length) {
+    return { ok: false, error: '没有可导入的有效行，请查看校验报告。', report }
+  }
+
+  const { genes, report: identifiers } = resolveGeneSymbols(built.data.genes)
+  return { ok: true, data: { ...built.data, genes }, report, identifiers }
 }
 
+// 从标签中提取时间数值，例如 "6h" -> 6，"day 3" -> 3
+const inferTimestamp = (label: string) => {
+  const match = label.match(/-?\d+(\.\d+)?/)
+  return match ? Number(match[0]) : Number.NaN
+}
+
+const inferTimelineTitle = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || '导入的时间线'
+
+/**
+ * 长格式时间序列：每行一个 基因 × 时间点，按时间点分组为 TimePoint[]
+ */
+const buildTimelineFromRows = (result: ParseResult<string[]>, fileName: string): TimelineCsvResult => {
+  const { table, parseIssues } = readTable(result)
+  const normalized = table.headers.map(normalizeHeader)
+  const symbolIndex = normalized.indexOf('symbol')
+  const valueIndex = normalized.indexOf('value')
+  const timepointIndex = normalized.indexOf('timepoint')
+  const timestampIndex = normalized.indexOf('timestamp')
+  const descriptionIndex = normalized.indexOf('description')
+
+  if (symbolIndex < 0 || valueIndex < 0 || (timepointIndex < 0 && timestampIndex < 0)) {
+    return { ok: false, error: '长格式 CSV 必须包含 symbol,timepoint,timestamp,value 列（timepoint 与 timestamp 至少其一）。' }
+  }
+
+  const labelOf = (row: TableRow) => readCell(row, timepointIndex) || readCell(row, timestampIndex)
+  const timestampOf = (row: TableRow) => {
+    const raw = readCell(row, timestampIndex)
+    return raw ? Number(raw) : inferTimestamp(labelOf(row))
+  }
+
+  // 同一基因在同一时间点只能出现一次
+  const { validRows, report } = validateRows(table, {
+    symbolColumn: symbolIndex,
+    numericColumns: [valueIndex],
+    // timestamp 为空时由 timepoint 标签推断，只校验填写了的时间戳
+    optionalNumericColumns: timestampIndex >= 0 ? [timestampIndex] : [],
+    uniqueKey: (row) => `${resolvedSymbolOf(row, symbolIndex)}@${labelOf(row)}`,
+    describeDuplicate: (row) => `${describeSymbol(row, symbolIndex)} @ ${labelOf(row)}`,
+  })
+
+  const timeIssues: ValidationIssue[] = []
+  const groups = new Map<string, TimePoint>()
+  for (const row of validRows) {
+    const label = labelOf(row)
+    const timestamp = timestampOf(row)
+
+    if (!label || Number.isNaN(timestamp)) {
+      timeIssues.push({
+        line: row.line,
+        column: timepointIndex >= 0 ? table.headers[timepointIndex] : null,
+        severity: 'error',
+        reason: '无法确定该行所在的时间点或时间戳',
+      })
+      continue
+    }
+
+    const group = groups.get(label)
+    if (group && group.timestamp !== timestamp) {
+      timeIssues.push({
+        line: row.line,
+        column: timestampIndex >= 0 ? table.headers[timestampIndex] : null,
+        severity: 'error',
+        reason: `时间点 ${label} 对应了多个不同的时间戳（${group.timestamp} / ${timestamp}）`,
+      })
+      continue
+    }
+
+    const timePoint = group ?? { id: '', label, timestamp, genes: [] }
+    timePoint.genes.push({
+      symbol: readCell(row, symbolIndex),
+      value: Number(readCell(row, valueIndex)),
+      description: readCell(row, descriptionIndex),
+    })
+    groups.set(label, timePoint)
+  }
+
+  const fullReport = withParseIssues(
+    {
+      issues: [...report.issues, ...timeIssues].sort((a, b) => a.line - b.line),
+      totalRows: report.totalRows,
+      validRows: report.validRows - timeIssues.length,
+    },
+    parseIssues,
+  )
+
+  if (groups.size < 2) {
+    return { ok: false, error: '至少需要2个时间点', report: fullReport }
+  }
+
+  const identifiers = createIdentifierReport()
+  const timePoints = Array.from(groups.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((timePoint, index) => ({
+      ...timePoint,
+      id: `t${index}`,
+      genes: resolveGeneSymbols(timePoint.genes, identifiers).genes,
+    }))
+
+  return {
+    ok: true,
+    data: {
+      title: inferTimelineTitle(fileName),
+      description: `由 ${fileName} 导入的 ${timePoints.length} 个时间点`,
+      timePoints,
+      totalDuration: DEFAULT_TIMELINE_DURATION,
+    },
+    report: fullReport,
+    identifiers,
+  }
+}
+
+const findHeader = (normalized: string[], candidates: string[]) =>
+  normalized.findIndex((header) => candidates.includes(header))
+
+// p 值与平均表达量允许为 NA（DESeq2 的独立过滤），解析为 null
+const readOptionalNumber = (row: TableRow, index: number) => {
+  const raw = readCell(row, index)
+  if (!raw || /^na$/i.test(raw)) return null
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * 差异表达结果：gene,log2FoldChange,pvalue,padj,baseMean（兼容 edgeR / limma 列名）
+ */
+const buildDifferentialFromRows = (result: ParseResult<string[]>): DifferentialCsvResult => {
+  const { table, parseIssues } = readTable(result)
+  const normalized = table.headers.map(normalizeHeader)
+  const foundGene = findHeader(normalized, DIFFERENTIAL_HEADERS.gene)
+  const geneIndex = foundGene >= 0 ? foundGene : 0
+  const foldIndex = findHeader(normalized, DIFFERENTIAL_HEADERS.log2FoldChange)
+  const pvalueIndex = findHeader(normalized, DIFFERENTIAL_HEADERS.pvalue)
+  const padjIndex = findHeader(normalized, DIFFERENTIAL_HEADERS.padj)
+  const baseMeanIndex = findHeader(normalized, DIFFERENTIAL_HEADERS.baseMean)
+  const logMeanIndex = findHeader(normalized, DIFFERENTIAL_HEADERS.logMean)
+
+  if (foldIndex < 0 || (pvalueIndex < 0 && padjIndex < 0)) {
+    return { ok: false, error: '差异表达 CSV 必须包含 log2FoldChange 列，以及 pvalue 或 padj 列。' }
+  }
+
+  const validated = validateRows(table, { ...symbolSchema(geneIndex), numericColumns: [foldIndex] })
+  const { validRows } = validated
+  const report = withParseIssues(validated.report, parseIssues)
+  if (!validRows.length) {
+    return { ok: false, error: '没有可导入的有效行，请查看校验报告。', report }
+  }
+
+  const data = validRows.map<DifferentialGene>((row) => {
+    const log2FoldChange = Number(readCell(row, foldIndex))
+    const logMean = readOptionalNumber(row, logMeanIndex)
+    return {
+      symbol: readCell(row, geneIndex),
+      value: log2FoldChange,
+      log2FoldChange,
+      pvalue: readOptionalNumber(row, pvalueIndex),
+      padj: readOptionalNumber(row, padjIndex),
+      baseMean: baseMeanIndex >= 0 ? readOptionalNumber(row, baseMeanIndex) : logMean === null ? null : 2 ** logMean,
+    }
+  })
+
+  const { genes, report: identifiers } = resolveGeneSymbols(data)
+  return { ok: true, data: genes, statistic: padjIndex >= 0 ? 'padj' : 'pvalue', report, identifiers }
+}
+
+const DELIMITER_PREVIEW_ROWS = 20
+
+/**
+ * 在忽略空行的预览中识别分隔符（CSV / TSV 等）
+ * 正式解析保留空行以便行号与原文件对应，但空行（例如文件末尾的换行）会拉低平均列数，
+ * 让 PapaParse 的自动识别失败；单列文件无从识别时使用默认的逗号
+ */
+const detectDelimiter = (input: string) =>
+  Papa.parse<string[]>(input, { preview: DELIMITER_PREVIEW_ROWS, skipEmptyLines: 'greedy' }).meta.delimiter
+
+// 空行在 toCsvTable 中过滤
+const parseOptions = { header: false, skipEmptyLines: false, delimiter: detectDelimiter } as const
+
+const parseText = (text: string) => Papa.parse<string[]>(text, parseOptions)
+
+/**
+ * 直接解析文本内容，不依赖浏览器 File，供 Node CLI 与批处理流程使用
+ */
+export const parseGeneText = (text: string): CsvResult => handleResult(parseText(text))
+
+export const parseTimelineText = (text: string, fileName: string): TimelineCsvResult =>
+  buildTimelineFromRows(parseText(text), fileName)
+
+export const parseDifferentialText = (text: string): DifferentialCsvResult =>
+  buildDifferentialFromRows(parseText(text))
+
 export const parseGeneCsv = (file: File): Promise<CsvResult> =>
   new Promise((resolve) => {
-    Papa.parse<Record<string, string>>(file, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: normalizeHeader,
+    Papa.parse<string[]>(file, {
+      ...parseOptions,
       complete: (result) => {
-        const parsed = handleResult(result)
-        if (!parsed.ok) {
-          resolve({ ok: false, error: 'CSV 解析失败，请检查文件格式（编码/分隔符等）。' })
-          return
-        }
-        resolve(parsed)
+        resolve(handleResult(result))
       },
       error: () => {
         resolve({ ok: false, error: '无法读取文件，请重试或检查文件权限。' })
@@ -61,3 +405,28 @@ export const parseGeneCsv = (file: File): Promise<CsvResult> =>
     })
   })
 
+export const parseTimelineCsv = (file: File): Promise<TimelineCsvResult> =>
+  new Promise((resolve) => {
+    Papa.parse<string[]>(file, {
+      ...parseOptions,
+      complete: (result) => {
+        resolve(buildTimelineFromRows(result, file.name))
+      },
+      error: () => {
+        resolve({ ok: false, error: '无法读取文件，请重试或检查文件权限。' })
+      },
+    })
+  })
+
+export const parseDifferentialCsv = (file: File): Promise<DifferentialCsvResult> =>
+  new Promise((resolve) => {
+    Papa.parse<string[]>(file, {
+      ...parseOptions,
+      complete: (result) => {
+        resolve(buildDifferentialFromRows(result))
+      },
+      error: () => {
+        resolve({ ok: false, error: '无法读取文件，请重试或检查文件权限。' })
+      },
+    })
+  })
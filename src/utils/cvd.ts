@@ -0,0 +1,81 @@
+import chroma from 'chroma-js'
+import type { PaletteDefinition } from '../types/palette'
+import { mapValueToColor } from './color'
+
+export type CvdType = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia'
+
+export const cvdLabels: Record<CvdType, string> = {
+  none: 'Normal vision',
+  protanopia: 'Protanopia',
+  deuteranopia: 'Deuteranopia',
+  tritanopia: 'Tritanopia',
+}
+
+/**
+ * Machado et al. (2009) 完全色盲（severity = 1.0）模拟矩阵，作用于线性 RGB
+ */
+const cvdMatrices: Record<Exclude<CvdType, 'none'>, number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+}
+
+// CIEDE2000 小于该值时视为相邻色块难以区分
+export const INDISTINGUISHABLE_DELTA_E = 6
+// 检查相邻色块时在 domain 内均匀取样的数量
+const PALETTE_SAMPLE_STEPS = 7
+
+const toLinear = (channel: number) => {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+const fromLinear = (channel: number) => {
+  const c = Math.min(1, Math.max(0, channel))
+  return Math.round((c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055) * 255)
+}
+
+export const simulateCvd = (hex: string, type: CvdType) => {
+  if (type === 'none') return hex
+  const m = cvdMatrices[type]
+  const [r, g, b] = chroma(hex).rgb().map(toLinear)
+  return chroma(
+    fromLinear(m[0] * r + m[1] * g + m[2] * b),
+    fromLinear(m[3] * r + m[4] * g + m[5] * b),
+    fromLinear(m[6] * r + m[7] * g + m[8] * b),
+  ).hex()
+}
+
+/**
+ * 生成 SVG feColorMatrix 的 values（4×5 矩阵），滤镜默认在 linearRGB 空间计算，可直接套用
+ */
+export const cvdFilterValues = (type: Exclude<CvdType, 'none'>) => {
+  const m = cvdMatrices[type]
+  return [...m.slice(0, 3), 0, 0, ...m.slice(3, 6), 0, 0, ...m.slice(6, 9), 0, 0, 0, 0, 0, 1, 0].join(' ')
+}
+
+export const cvdFilterId = (type: Exclude<CvdType, 'none'>) => `cvd-${type}`
+
+// 用于 CSS filter 属性
+export const cvdFilterStyle = (type: CvdType) => (type === 'none' ? undefined : `url(#${cvdFilterId(type)})`)
+
+export type IndistinguishablePair = {
+  from: number // 相邻取样点对应的数值
+  to: number
+  deltaE: number
+}
+
+/**
+ * 在 domain 内均匀取样，找出模拟后 CIEDE2000 差异过小的相邻色块
+ */
+export const findIndistinguishableSteps = (palette: PaletteDefinition, type: CvdType): IndistinguishablePair[] => {
+  const [min, max] = palette.domain
+  const samples = Array.from({ length: PALETTE_SAMPLE_STEPS }, (_, idx) => {
+    const value = min + ((max - min) * idx) / (PALETTE_SAMPLE_STEPS - 1)
+    return { value, hex: simulateCvd(mapValueToColor(value, palette).hex, type) }
+  })
+  return samples.slice(1).flatMap((sample, idx) => {
+    const deltaE = chroma.deltaE(samples[idx].hex, sample.hex)
+    return deltaE < INDISTINGUISHABLE_DELTA_E ? [{ from: samples[idx].value, to: sample.value, deltaE }] : []
+  })
+}
@@ -0,0 +1,43 @@
+import {
+  FOLD_CHANGE_THRESHOLD,
+  SIGNIFICANCE_THRESHOLD,
+  type DifferentialGene,
+  type SignificanceStatistic,
+} from '../types/differential'
+
+const MAX_SIGNIFICANCE = 50 // -log10(p) 上限，避免 p = 0 时无穷大
+
+/**
+ * 判断显著性所用的统计量：文件有 padj 列时只用 padj（NA 即不显著），否则用 pvalue
+ * 解析 CSV 时按列名确定；旧会话没有记录时按数据推断（任一基因有 padj 即视为有 padj 列）
+ */
+export const inferSignificanceStatistic = (genes: Pick<DifferentialGene, 'padj'>[]): SignificanceStatistic =>
+  genes.some((gene) => gene.padj !== null) ? 'padj' : 'pvalue'
+
+/**
+ * 当前统计量对应的 p 值，NA 为 null
+ */
+export const getSignificanceP = (gene: Pick<DifferentialGene, 'pvalue' | 'padj'>, statistic: SignificanceStatistic) =>
+  statistic === 'padj' ? gene.padj : gene.pvalue
+
+/**
+ * 显著性得分：-log10(p)，p 为 NA 时为 0
+ */
+export const getSignificance = (gene: Pick<DifferentialGene, 'pvalue' | 'padj'>, statistic: SignificanceStatistic) => {
+  const p = getSignificanceP(gene, statistic)
+  if (p === null || p <= 0) return p === null ? 0 : MAX_SIGNIFICANCE
+  return Math.min(-Math.log10(p), MAX_SIGNIFICANCE)
+}
+
+export const isSignificant = (
+  gene: Pick<DifferentialGene, 'pvalue' | 'padj' | 'log2FoldChange'>,
+  statistic: SignificanceStatistic,
+) => {
+  const p = getSignificanceP(gene, statistic)
+  return p !== null && p < SIGNIFICANCE_THRESHOLD && Math.abs(gene.log2FoldChange) >= FOLD_CHANGE_THRESHOLD
+}
+
+export const getRegulation = (gene: DifferentialGene, statistic: SignificanceStatistic): 'up' | 'down' | 'ns' => {
+  if (!isSignificant(gene, statistic)) return 'ns'
+  return gene.log2FoldChange > 0 ? 'up' : 'down'
+}
@@ -1,8 +1,9 @@
-import { toPng } from 'html-to-image'
-import type { PaletteGene } from '../types/palette'
+import { toBlob } from 'html-to-image'
+import type { PaletteDefinition, PaletteGene } from '../types/palette'
+import { paletteExportFormats, type PaletteExportFormat } from './paletteFormats'
+import { embedProvenance, type Provenance } from './provenance'
 
-export const downloadJSON = (filename: string, data: unknown) => {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+export const downloadBlob = (filename: string, blob: Blob) => {
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
@@ -11,27 +12,43 @@ export const downloadJSON = (filename: string, data: unknown) => {
   URL.revokeObjectURL(url)
 }
 
-export const buildPalettePayload = (genes: PaletteGene[]) =>
-  genes.map((gene) => ({
-    symbol: gene.symbol,
-    value: Number(gene.value.toFixed(3)),
-    zScore: Number(gene.normalized.toFixed(3)),
-    percentile: Number(gene.percentile.toFixed(3)),
-    colorHex: gene.color.hex,
-  }))
+export const downloadText = (filename: string, content: string, type = 'text/plain') =>
+  downloadBlob(filename, new Blob([content], { type }))
 
-export const downloadPNG = async (node: HTMLElement | null, filename: string) => {
+export const downloadSVG = (filename: string, svg: string) => downloadText(filename, svg, 'image/svg+xml')
+
+export const downloadHTML = (filename: string, html: string) => downloadText(filename, html, 'text/html')
+
+export const downloadJSON = (filename: string, data: unknown) =>
+  downloadText(filename, JSON.stringify(data, null, 2), 'application/json')
+
+/**
+ * 按指定格式导出当前调色板（CSS / Tailwind / GPL / ASE / Design tokens / SVG）
+ */
+export const downloadPaletteFormat = (format: PaletteExportFormat, genes: PaletteGene[], palette: PaletteDefinition) => {
+  const spec = paletteExportFormats[format]
+  const content = spec.build(genes, palette)
+  downloadBlob(`gene-palette-${palette.id}.${spec.extension}`, new Blob([content], { type: spec.mime }))
+}
+
+/**
+ * 导出节点为 PNG；传入 provenance 时写入来源信息文本块
+ */
+export const downloadPNG = async (node: HTMLElement | null, filename: string, provenance?: Provenance) => {
   if (!node) return
-  const dataUrl = await toPng(node, {
+  const blob = await toBlob(node, {
     cacheBust: true,
     backgroundColor: '#030712',
     style: {
       transform: 'scale(1)',
     },
   })
-  const link = document.createElement('a')
-  link.download = filename
-  link.href = dataUrl
-  link.click()
+  if (!blob) return
+  if (!provenance) {
+    downloadBlob(filename, blob)
+    return
+  }
+  const png = await embedProvenance(new Uint8Array(await blob.arrayBuffer()), provenance)
+  downloadBlob(filename, new Blob([png], { type: 'image/png' }))
 }
 
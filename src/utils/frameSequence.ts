@@ -0,0 +1,85 @@
+import type { TimelineData } from '../types/timeline'
+import type { PaletteDefinition } from '../types/palette'
+import type { NormalizationSettings } from './normalization'
+import { describeNormalization } from './normalization'
+import { renderTimelineOffline, type ExportHooks, type OfflineRenderOptions } from './offlineRender'
+import { createZip, type ZipEntry } from './zip'
+
+export type FrameManifestEntry = {
+  frame: number
+  file: string
+  time: number // 秒
+  timePoint: { id: string; label: string; timestamp: number }
+  progress: number // 到下一个时间点的插值进度
+  genes: Array<{ symbol: string; value: number; normalized: number; color: string }>
+}
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('PNG 编码失败'))
+        return
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject)
+    }, 'image/png')
+  })
+
+const round = (value: number) => Number(value.toFixed(4))
+
+/**
+ * 离线渲染每一帧为 PNG，连同逐帧清单（时间点、插值进度、基因数值）打包为 ZIP
+ */
+export const exportTimelineFrames = async (
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  normalization: NormalizationSettings,
+  options: OfflineRenderOptions,
+  { onProgress, signal }: ExportHooks = {},
+) => {
+  const entries: ZipEntry[] = []
+  const manifestFrames: FrameManifestEntry[] = []
+  let size = { width: 0, height: 0 }
+
+  for await (const rendered of renderTimelineOffline(timeline, palette, normalization, options, signal)) {
+    const digits = Math.max(4, String(rendered.total).length)
+    const file = `frames/frame_${String(rendered.index + 1).padStart(digits, '0')}.png`
+    entries.push({ name: file, data: await canvasToPng(rendered.context.canvas) })
+    manifestFrames.push({
+      frame: rendered.index + 1,
+      file,
+      time: round(rendered.time),
+      timePoint: {
+        id: rendered.frame.timePoint.id,
+        label: rendered.frame.timePoint.label,
+        timestamp: rendered.frame.timePoint.timestamp,
+      },
+      progress: round(rendered.frame.progress),
+      genes: rendered.particles.map((particle) => ({
+        symbol: particle.symbol,
+        value: round(particle.value),
+        normalized: round(particle.normalized),
+        color: particle.color,
+      })),
+    })
+    size = { width: rendered.width, height: rendered.height }
+    onProgress?.(rendered.index + 1, rendered.total)
+  }
+
+  const manifest = {
+    title: timeline.title,
+    description: timeline.description,
+    fps: options.fps,
+    ...size,
+    frameCount: manifestFrames.length,
+    duration: timeline.totalDuration,
+    palette: palette.name,
+    normalization: describeNormalization(normalization),
+    layout: options.layout ?? 'ring',
+    exportedAt: new Date().toISOString(),
+    frames: manifestFrames,
+  }
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) })
+
+  return createZip(entries)
+}
@@ -0,0 +1,353 @@
+/**
+ * 纯前端 GIF89a 编码器：颜色量化 + LZW 压缩，逐帧追加以控制内存占用
+ */
+
+export type GifQuantization = 'median-cut' | 'uniform'
+
+export type GifEncoderOptions = {
+  width: number
+  height: number
+  loopCount: number // 0 = 无限循环，1 = 只播放一次，n = 播放 n 次
+}
+
+export type GifFrameOptions = {
+  delay: number // 单位：百分之一秒
+  quantization: GifQuantization
+  colors: number // median-cut 的目标颜色数（2-256）
+}
+
+type ColorTable = {
+  palette: Uint8Array // r,g,b 连续排列，长度补齐为 2 的幂 × 3
+  indexOf: (r: number, g: number, b: number) => number
+}
+
+/**
+ * 可自动扩容的字节缓冲
+ */
+const createByteWriter = (initialSize = 1 << 16) => {
+  let buffer = new Uint8Array(initialSize)
+  let length = 0
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return
+    let size = buffer.length * 2
+    while (size < length + extra) size *= 2
+    const next = new Uint8Array(size)
+    next.set(buffer.subarray(0, length))
+    buffer = next
+  }
+
+  return {
+    byte(value: number) {
+      ensure(1)
+      buffer[length++] = value & 0xff
+    },
+    short(value: number) {
+      ensure(2)
+      buffer[length++] = value & 0xff
+      buffer[length++] = (value >> 8) & 0xff
+    },
+    bytes(values: ArrayLike<number>) {
+      ensure(values.length)
+      buffer.set(values, length)
+      length += values.length
+    },
+    text(value: string) {
+      for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i))
+    },
+    toUint8Array: () => buffer.slice(0, length),
+  }
+}
+
+type ByteWriter = ReturnType<typeof createByteWriter>
+
+// 颜色表长度需为 2 的幂（2-256），返回对应的 size 字段（2^(n+1)）
+const tableSizeBits = (colorCount: number) => {
+  let bits = 1
+  while (1 << bits < colorCount) bits++
+  return bits
+}
+
+const padPalette = (colors: number[][]) => {
+  const bits = tableSizeBits(Math.max(2, colors.length))
+  const palette = new Uint8Array((1 << bits) * 3)
+  colors.forEach(([r, g, b], index) => palette.set([r, g, b], index * 3))
+  return palette
+}
+
+/**
+ * 固定 6×7×6 色立方（252 色），无需统计，速度最快
+ */
+const uniformTable = (): ColorTable => {
+  const colors: number[][] = []
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 7; g++) {
+      for (let b = 0; b < 6; b++) {
+        colors.push([Math.round((r * 255) / 5), Math.round((g * 255) / 6), Math.round((b * 255) / 5)])
+      }
+    }
+  }
+  return {
+    palette: padPalette(colors),
+    indexOf: (r, g, b) => Math.round((r * 5) / 255) * 42 + Math.round((g * 6) / 255) * 6 + Math.round((b * 5) / 255),
+  }
+}
+
+type ColorBox = { colors: number[]; counts: number[] }
+
+// 15 位颜色键（每通道 5 位）
+const toKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+const keyChannel = (key: number, channel: 0 | 1 | 2) => (key >> (10 - channel * 5)) & 31
+
+/**
+ * 中位切分：按像素直方图递归切分颜色最分散的盒子
+ */
+const medianCutTable = (pixels: Uint8ClampedArray, maxColors: number): ColorTable => {
+  const histogram = new Uint32Array(1 << 15)
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[toKey(pixels[i], pixels[i + 1], pixels[i + 2])]++
+  }
+
+  const initial: ColorBox = { colors: [], counts: [] }
+  histogram.forEach((count, key) => {
+    if (count) {
+      initial.colors.push(key)
+      initial.counts.push(count)
+    }
+  })
+
+  const range = (box: ColorBox, channel: 0 | 1 | 2) => {
+    let min = 31
+    let max = 0
+    box.colors.forEach((key) => {
+      const value = keyChannel(key, channel)
+      if (value < min) min = value
+      if (value > max) max = value
+    })
+    return max - min
+  }
+
+  const boxes: ColorBox[] = [initial]
+  while (boxes.length < maxColors) {
+    // 选择可切分且跨度最大的盒子
+    let target = -1
+    let targetChannel: 0 | 1 | 2 = 0
+    let widest = 0
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return
+      ;([0, 1, 2] as const).forEach((channel) => {
+        const span = range(box, channel)
+        if (span > widest) {
+          widest = span
+          target = index
+          targetChannel = channel
+        }
+      })
+    })
+    if (target < 0) break
+
+    const box = boxes[target]
+    const order = box.colors
+      .map((key, index) => ({ key, count: box.counts[index] }))
+      .sort((a, b) => keyChannel(a.key, targetChannel) - keyChannel(b.key, targetChannel))
+    const total = order.reduce((sum, entry) => sum + entry.count, 0)
+    let accumulated = 0
+    let split = 1
+    for (; split < order.length - 1; split++) {
+      accumulated += order[split - 1].count
+      if (accumulated >= total / 2) break
+    }
+    const toBox = (entries: typeof order): ColorBox => ({
+      colors: entries.map((entry) => entry.key),
+      counts: entries.map((entry) => entry.count),
+    })
+    boxes.splice(target, 1, toBox(order.slice(0, split)), toBox(order.slice(split)))
+  }
+
+  // 每个盒子取按像素数加权的平均色
+  const colors = boxes.map((box) => {
+    const sums = [0, 0, 0]
+    let total = 0
+    box.colors.forEach((key, index) => {
+      const count = box.counts[index]
+      ;([0, 1, 2] as const).forEach((channel) => {
+        sums[channel] += ((keyChannel(key, channel) << 3) + 4) * count
+      })
+      total += count
+    })
+    return sums.map((sum) => Math.round(sum / Math.max(total, 1)))
+  })
+  if (!colors.length) colors.push([0, 0, 0])
+
+  // 最近色查找按 15 位键缓存
+  const cache = new Int16Array(1 << 15).fill(-1)
+  return {
+    palette: padPalette(colors),
+    indexOf: (r, g, b) => {
+      const key = toKey(r, g, b)
+      if (cache[key] >= 0) return cache[key]
+      let best = 0
+      let bestDistance = Infinity
+      colors.forEach(([cr, cg, cb], index) => {
+        const distance = (cr - r) ** 2 + (cg - g) ** 2 + (cb - b) ** 2
+        if (distance < bestDistance) {
+          bestDistance = distance
+          best = index
+        }
+      })
+      cache[key] = best
+      return best
+    },
+  }
+}
+
+const MAX_CODE = 4095
+const HASH_SIZE = 5003
+
+/**
+ * GIF 变长 LZW 压缩，输出按 255 字节分块的数据子块
+ */
+const writeLzw = (writer: ByteWriter, indices: Uint8Array, colorBits: number) => {
+  const minCodeSize = Math.max(2, colorBits)
+  writer.byte(minCodeSize)
+
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const hashKeys = new Int32Array(HASH_SIZE)
+  const hashCodes = new Int32Array(HASH_SIZE)
+
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let bitBuffer = 0
+  let bitCount = 0
+  const block: number[] = []
+
+  const flushBlock = () => {
+    if (!block.length) return
+    writer.byte(block.length)
+    writer.bytes(block)
+    block.length = 0
+  }
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff)
+      bitBuffer >>= 8
+      bitCount -= 8
+      if (block.length === 255) flushBlock()
+    }
+  }
+  const resetTable = () => {
+    hashKeys.fill(-1)
+    codeSize = minCodeSize + 1
+    nextCode = endCode + 1
+  }
+
+  resetTable()
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const suffix = indices[i]
+    const key = (suffix << 12) | prefix
+    let slot = ((suffix << 4) ^ prefix) % HASH_SIZE
+    let found = -1
+    while (hashKeys[slot] >= 0) {
+      if (hashKeys[slot] === key) {
+        found = hashCodes[slot]
+        break
+      }
+      slot = (slot + 1) % HASH_SIZE
+    }
+    if (found >= 0) {
+      prefix = found
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode <= MAX_CODE) {
+      hashKeys[slot] = key
+      hashCodes[slot] = nextCode
+      // 新码超过当前位宽时才增长，读端在同一时刻同步增长
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++
+      nextCode++
+    } else {
+      emit(clearCode)
+      resetTable()
+    }
+    prefix = suffix
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) block.push(bitBuffer & 0xff)
+  flushBlock()
+  writer.byte(0) // 块结束
+}
+
+/**
+ * 创建 GIF 编码器：addFrame 逐帧写入 RGBA 像素，finish 返回完整文件
+ */
+export const createGifEncoder = ({ width, height, loopCount }: GifEncoderOptions) => {
+  const writer = createByteWriter()
+  let frameCount = 0
+
+  // 文件头与逻辑屏幕描述（不使用全局颜色表，每帧带局部颜色表）
+  writer.text('GIF89a')
+  writer.short(width)
+  writer.short(height)
+  writer.byte(0x70) // 无全局颜色表，色彩分辨率 8 位
+  writer.byte(0) // 背景色索引
+  writer.byte(0) // 像素宽高比
+
+  // NETSCAPE2.0 循环扩展：1 次播放时省略
+  if (loopCount !== 1) {
+    writer.bytes([0x21, 0xff, 0x0b])
+    writer.text('NETSCAPE2.0')
+    writer.bytes([0x03, 0x01])
+    writer.short(loopCount === 0 ? 0 : loopCount - 1)
+    writer.byte(0)
+  }
+
+  const table = { uniform: null as ColorTable | null }
+
+  return {
+    addFrame(pixels: Uint8ClampedArray, { delay, quantization, colors }: GifFrameOptions) {
+      const colorTable =
+        quantization === 'uniform'
+          ? (table.uniform ??= uniformTable())
+          : medianCutTable(pixels, Math.min(256, Math.max(2, colors)))
+
+      const indices = new Uint8Array(width * height)
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+        indices[i] = colorTable.indexOf(pixels[p], pixels[p + 1], pixels[p + 2])
+      }
+      const colorBits = tableSizeBits(colorTable.palette.length / 3)
+
+      // 图形控制扩展：帧延迟，不处理透明
+      writer.bytes([0x21, 0xf9, 0x04, 0x04])
+      writer.short(Math.max(2, Math.round(delay)))
+      writer.bytes([0x00, 0x00])
+
+      // 图像描述 + 局部颜色表
+      writer.byte(0x2c)
+      writer.short(0)
+      writer.short(0)
+      writer.short(width)
+      writer.short(height)
+      writer.byte(0x80 | (colorBits - 1))
+      writer.bytes(colorTable.palette)
+
+      writeLzw(writer, indices, colorBits)
+      frameCount++
+    },
+    get frameCount() {
+      return frameCount
+    },
+    finish() {
+      writer.byte(0x3b)
+      return new Blob([writer.toUint8Array()], { type: 'image/gif' })
+    },
+  }
+}
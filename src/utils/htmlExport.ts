@@ -0,0 +1,173 @@
+/**
+ * 独立 HTML 导出：把粒子画布打包成单个 HTML 文件（内联脚本与数据，不发起任何外部请求）
+ * 可直接嵌入实验室网站或 HTML 幻灯片，保留通路引力、颜色与点击查看基因信息
+ */
+
+import { geneStories, getGenePathways } from '../data/geneKnowledge'
+import runtime from '../runtime/particleArt.ts?inline-script'
+import type { SignificanceStatistic } from '../types/differential'
+import type { PaletteDefinition, PaletteGene } from '../types/palette'
+import { buildGradient } from './color'
+import { escapeXml } from './paletteFormats'
+import { initialVelocity } from './particlePhysics'
+import type { RenderParticle } from './particleRenderer'
+import type { ParticleSimulation } from './particleSimulation'
+import { createRandom } from './random'
+import type { ParticleSceneSnapshot } from './svgExport'
+
+export type ParticleHtmlOptions = {
+  genes: PaletteGene[]
+  palette: PaletteDefinition
+  seed: number // 初速度种子，与应用内粒子一致
+  title?: string
+  caption?: string
+  unitLabel?: string
+  statistic?: SignificanceStatistic // 差异表达数据的显著性统计量，决定信息面板中显著性的标签
+}
+
+type HtmlGeneInfo = {
+  value: number
+  normalized: number
+  percentile: number
+  significance: number | null
+  originalId: string | null
+  story: string | null
+  pathways: string[]
+}
+
+export type ParticleArtData = ReturnType<typeof buildSceneData>
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits))
+
+const LEGEND_STEPS = 24
+
+// 内联 JSON 不能提前闭合 <script>，U+2028 / U+2029 在旧引擎中也不能出现在脚本里
+const inlineJson = (data: unknown) =>
+  JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+
+const geneInfo = (gene: PaletteGene | undefined): HtmlGeneInfo | null =>
+  gene
+    ? {
+        value: round(gene.value, 3),
+        normalized: round(gene.normalized, 3),
+        percentile: round(gene.percentile, 3),
+        significance: gene.significance === undefined ? null : round(gene.significance, 2),
+        originalId: gene.originalId ?? null,
+        story: geneStories[gene.symbol] || gene.description || null,
+        pathways: getGenePathways(gene.symbol).map((pathway) => pathway.name),
+      }
+    : null
+
+/**
+ * 以当前模拟状态为起点生成内联数据：位置、固定状态与通路邻接表沿用画布，初速度按种子重新生成；
+ * 导出文件无需知识库，运行时直接把 particles / adjacency / spacing 交给 stepSimulation
+ */
+const buildSceneData = (
+  scene: ParticleSceneSnapshot,
+  { particles: current, adjacency, spacing }: ParticleSimulation<RenderParticle>,
+  options: ParticleHtmlOptions,
+) => {
+  const bySymbol = new Map(options.genes.map((gene) => [gene.symbol, gene]))
+  const random = createRandom(options.seed)
+  const particles = current.map((particle) => {
+    const vx = round(initialVelocity(random) * spacing, 4)
+    const vy = round(initialVelocity(random) * spacing, 4)
+    return {
+      symbol: particle.symbol,
+      x: round(particle.x),
+      y: round(particle.y),
+      vx: particle.pinned ? 0 : vx,
+      vy: particle.pinned ? 0 : vy,
+      radius: round(particle.radius, 3),
+      pinned: Boolean(particle.pinned),
+      color: particle.color,
+      glow: round(particle.glow),
+      info: geneInfo(bySymbol.get(particle.symbol)),
+    }
+  })
+  const [min, max] = options.palette.domain
+  return {
+    width: scene.width,
+    height: scene.height,
+    seed: options.seed,
+    spacing,
+    particles,
+    adjacency,
+    selected: scene.particles.findIndex((particle) => particle.selected),
+    unitLabel: options.unitLabel ?? 'expression',
+    significanceLabel: options.statistic === 'pvalue' ? '-log10(p-value)' : '-log10(padj)',
+    legend: {
+      name: options.palette.name,
+      gradient: buildGradient(
+        Array.from({ length: LEGEND_STEPS }, (_, idx) => min + ((max - min) * idx) / (LEGEND_STEPS - 1)),
+        options.palette,
+      ),
+      min: round(min, 2),
+      max: round(max, 2),
+    },
+  }
+}
+
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; background: #030712; color: #e2e8f0; font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; }
+  main { display: flex; flex-wrap: wrap; gap: 24px; align-items: flex-start; }
+  figure { margin: 0; flex: 1 1 480px; max-width: WIDTHpx; }
+  canvas { display: block; width: 100%; height: auto; aspect-ratio: WIDTH / HEIGHT; cursor: pointer; border-radius: 16px; border: 1px solid rgba(255, 255, 255, 0.1); background: rgba(15, 23, 42, 0.6); }
+  figcaption { margin-top: 12px; font-size: 12px; color: #94a3b8; }
+  .legend { margin-top: 12px; font-size: 11px; color: #94a3b8; }
+  .legend .bar { height: 10px; border-radius: 999px; margin: 6px 0 4px; }
+  .legend .ticks { display: flex; justify-content: space-between; font-family: ui-monospace, monospace; }
+  aside { flex: 0 1 320px; min-height: 200px; padding: 20px; border-radius: 16px; border: 1px solid rgba(255, 255, 255, 0.1); background: rgba(2, 6, 23, 0.6); }
+  aside header { display: flex; align-items: center; gap: 12px; }
+  aside h2 { margin: 0; font-size: 22px; color: #2cb1bc; }
+  .swatch { width: 32px; height: 32px; border-radius: 50%; border: 2px solid rgba(255, 255, 255, 0.2); }
+  dl { margin: 16px 0 0; display: grid; gap: 6px; font-size: 13px; }
+  dl div { display: flex; justify-content: space-between; gap: 12px; }
+  dt { color: #64748b; }
+  dd { margin: 0; font-family: ui-monospace, monospace; text-align: right; }
+  .story, .hint { font-size: 13px; line-height: 1.6; color: #94a3b8; }
+`
+
+export const particleArtToHtml = (
+  scene: ParticleSceneSnapshot,
+  simulation: ParticleSimulation<RenderParticle>,
+  options: ParticleHtmlOptions,
+) => {
+  const data = buildSceneData(scene, simulation, options)
+  const title = escapeXml(options.title ?? 'Gene Flux Palette')
+  const style = STYLE.replace(/WIDTH/g, String(scene.width)).replace(/HEIGHT/g, String(scene.height))
+  return [
+    '<!doctype html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${style}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    '<figure>',
+    `<canvas id="gene-art" width="${scene.width}" height="${scene.height}" role="img" aria-label="${title}"></canvas>`,
+    '<div class="legend">',
+    `<div>${escapeXml(data.legend.name)} · ${escapeXml(data.unitLabel)}</div>`,
+    `<div class="bar" style="background: ${data.legend.gradient}"></div>`,
+    `<div class="ticks"><span>${data.legend.min}</span><span>${data.legend.max}</span></div>`,
+    '</div>',
+    options.caption ? `<figcaption>${escapeXml(options.caption)}</figcaption>` : '',
+    '</figure>',
+    '<aside id="gene-info" aria-live="polite"></aside>',
+    '</main>',
+    `<script type="application/json" id="gene-art-data">${inlineJson(data)}</script>`,
+    // 运行时脚本同样不能提前闭合 <script>
+    `<script>${runtime.replace(/<\/script/gi, '<\\/script')}</script>`,
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
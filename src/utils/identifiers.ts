@@ -0,0 +1,136 @@
+import { geneIdentifierTable } from '../data/geneIdentifiers'
+import { hasGeneKnowledge } from '../data/geneKnowledge'
+
+export type IdentifierStatus = 'canonical' | 'alias' | 'ensembl' | 'unmapped' | 'ambiguous'
+
+export type IdentifierResolution = {
+  input: string
+  symbol: string // 解析后的 symbol；无法唯一确定时保留原输入
+  status: IdentifierStatus
+  candidates: string[]
+}
+
+export type IdentifierReport = {
+  mapped: Array<{ input: string; symbol: string }>
+  unmapped: string[] // 不是 HGNC symbol、别名或 Ensembl ID，无法识别
+  // 已识别为 HGNC 官方 symbol，但知识库中没有功能分类、通路或数据故事
+  outsideKnowledge: string[]
+  ambiguous: Array<{ input: string; candidates: string[] }>
+  // 多个输入解析到同一 symbol 时，只保留第一条
+  collisions: Array<{ input: string; symbol: string }>
+}
+
+const ENSEMBL_PATTERN = /^ENSG\d{11}(\.\d+)?$/i
+
+const normalizeKey = (value: string) => value.trim().toUpperCase()
+
+// HGNC symbol 本身可能含小写字母（如 C1orf112），按大写键索引
+const symbolIndex = new Map(geneIdentifierTable.map((record) => [normalizeKey(record.symbol), record.symbol]))
+const ensemblIndex = new Map(
+  geneIdentifierTable.flatMap((record) => (record.ensembl ? [[record.ensembl, record.symbol] as const] : [])),
+)
+const aliasIndex = geneIdentifierTable.reduce((index, record) => {
+  record.aliases.forEach((alias) => {
+    const key = normalizeKey(alias)
+    index.set(key, [...(index.get(key) ?? []), record.symbol])
+  })
+  return index
+}, new Map<string, string[]>())
+
+/**
+ * 将任意输入（symbol / 别名 / Ensembl ID，大小写不敏感）解析为 HGNC 官方 symbol
+ */
+export const resolveGeneIdentifier = (input: string): IdentifierResolution => {
+  const trimmed = input.trim()
+  const key = normalizeKey(trimmed)
+
+  if (ENSEMBL_PATTERN.test(key)) {
+    const symbol = ensemblIndex.get(key.replace(/\.\d+$/, ''))
+    return symbol
+      ? { input: trimmed, symbol, status: 'ensembl', candidates: [symbol] }
+      : { input: trimmed, symbol: trimmed, status: 'unmapped', candidates: [] }
+  }
+
+  const official = symbolIndex.get(key)
+  if (official) {
+    return {
+      input: trimmed,
+      symbol: official,
+      status: official === trimmed ? 'canonical' : 'alias',
+      candidates: [official],
+    }
+  }
+
+  const candidates = aliasIndex.get(key) ?? []
+  if (candidates.length === 1) {
+    return { input: trimmed, symbol: candidates[0], status: 'alias', candidates }
+  }
+  if (candidates.length > 1) {
+    return { input: trimmed, symbol: trimmed, status: 'ambiguous', candidates }
+  }
+  return { input: trimmed, symbol: trimmed, status: 'unmapped', candidates: [] }
+}
+
+export const createIdentifierReport = (): IdentifierReport => ({
+  mapped: [],
+  unmapped: [],
+  outsideKnowledge: [],
+  ambiguous: [],
+  collisions: [],
+})
+
+/**
+ * 批量解析基因列表：symbol 替换为官方名，originalId 保留原始输入，
+ * 解析后重复的条目被丢弃并记录在报告中
+ */
+export const resolveGeneSymbols = <T extends { symbol: string; originalId?: string }>(
+  genes: T[],
+  report: IdentifierReport = createIdentifierReport(),
+) => {
+  const seen = new Set<string>()
+  const resolved: T[] = []
+
+  // 同一输入在多个时间点中重复出现时只记录一次
+  const reported = new Set([
+    ...report.mapped.map((entry) => entry.input),
+    ...report.unmapped,
+    ...report.outsideKnowledge,
+    ...report.ambiguous.map((entry) => entry.input),
+  ])
+
+  genes.forEach((gene) => {
+    const resolution = resolveGeneIdentifier(gene.symbol)
+    if (!reported.has(resolution.input)) {
+      reported.add(resolution.input)
+      if (resolution.status === 'unmapped') report.unmapped.push(resolution.input)
+      if (resolution.status === 'ambiguous') {
+        report.ambiguous.push({ input: resolution.input, candidates: resolution.candidates })
+      }
+      if (resolution.status === 'alias' || resolution.status === 'ensembl') {
+        report.mapped.push({ input: resolution.input, symbol: resolution.symbol })
+      }
+      if (resolution.status !== 'unmapped' && resolution.status !== 'ambiguous' && !hasGeneKnowledge(resolution.symbol)) {
+        report.outsideKnowledge.push(resolution.input)
+      }
+    }
+
+    if (seen.has(resolution.symbol)) {
+      report.collisions.push({ input: resolution.input, symbol: resolution.symbol })
+      return
+    }
+    seen.add(resolution.symbol)
+
+    resolved.push(
+      resolution.symbol === gene.symbol
+        ? gene
+        : { ...gene, symbol: resolution.symbol, originalId: gene.originalId ?? resolution.input },
+    )
+  })
+
+  return { genes: resolved, report }
+}
+
+export const hasIdentifierFindings = (report: IdentifierReport) =>
+  [report.mapped, report.unmapped, report.outsideKnowledge, report.ambiguous, report.collisions].some(
+    (entries) => entries.length > 0,
+  )
@@ -0,0 +1,58 @@
+import type { PaletteDefinition } from '../types/palette'
+import { isOutOfRange } from './color'
+
+export type LegendSample = {
+  value: number // 原始单位
+  normalized: number
+}
+
+export type LegendTick = {
+  normalized: number
+  original: number | null // 超出数据范围时无法换算
+  position: number // 0-1，在色条上的位置
+}
+
+/**
+ * 标准化值 → 原始单位：按标准化值排序后线性插值
+ * 各标准化流程在单个样本内都是单调的，因此插值结果可直接作为刻度标签
+ */
+export const toOriginalUnits = (normalized: number, samples: LegendSample[]) => {
+  const sorted = [...samples].sort((a, b) => a.normalized - b.normalized)
+  if (!sorted.length) return null
+  const first = sorted[0]
+  const last = sorted[sorted.length - 1]
+  if (normalized < first.normalized || normalized > last.normalized) return null
+  const upperIndex = sorted.findIndex((sample) => sample.normalized >= normalized)
+  const upper = sorted[upperIndex]
+  const lower = sorted[Math.max(0, upperIndex - 1)]
+  if (upper.normalized === lower.normalized) return upper.value
+  const t = (normalized - lower.normalized) / (upper.normalized - lower.normalized)
+  return lower.value + (upper.value - lower.value) * t
+}
+
+/**
+ * 刻度标签：极大 / 极小值用科学计数法
+ */
+export const formatLegendTick = (value: number | null) => {
+  if (value === null) return '—'
+  const abs = Math.abs(value)
+  if (abs !== 0 && (abs >= 1e4 || abs < 0.01)) return value.toExponential(1)
+  return abs >= 100 ? value.toFixed(0) : value.toFixed(2)
+}
+
+export const buildLegendTicks = (palette: PaletteDefinition, samples: LegendSample[], count = 5): LegendTick[] => {
+  const [min, max] = palette.domain
+  return Array.from({ length: count }, (_, idx) => {
+    const position = idx / (count - 1)
+    const normalized = min + (max - min) * position
+    return { normalized, original: toOriginalUnits(normalized, samples), position }
+  })
+}
+
+/**
+ * 统计落在 domain 之外（被钳制或单独标记）的数值
+ */
+export const countOutOfDomain = (palette: PaletteDefinition, samples: LegendSample[]) => ({
+  below: samples.filter((sample) => isOutOfRange(sample.normalized, palette) && sample.normalized < palette.domain[0]).length,
+  above: samples.filter((sample) => isOutOfRange(sample.normalized, palette) && sample.normalized > palette.domain[1]).length,
+})
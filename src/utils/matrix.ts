@@ -0,0 +1,31 @@
+import type { GeneExpression } from '../data/sampleGenes'
+import type { ExpressionMatrix } from '../types/matrix'
+
+/**
+ * 从表达矩阵中取出单个样本，转换为调色板可用的基因列表
+ */
+export const getSampleGenes = (matrix: ExpressionMatrix, sampleIndex: number): GeneExpression[] => {
+  const index = Math.min(Math.max(sampleIndex, 0), matrix.samples.length - 1)
+  return matrix.genes.map((gene) => ({
+    symbol: gene.symbol,
+    value: gene.values[index],
+    description: gene.description,
+    ...(gene.originalId ? { originalId: gene.originalId } : {}),
+    ...(gene.length ? { length: gene.length } : {}),
+  }))
+}
+
+/**
+ * 将单样本基因列表包装为矩阵，便于统一走标准化流程
+ */
+export const toSingleSampleMatrix = (genes: GeneExpression[]): ExpressionMatrix => ({
+  layout: 'single',
+  samples: ['value'],
+  genes: genes.map((gene) => ({
+    symbol: gene.symbol,
+    description: gene.description,
+    ...(gene.originalId ? { originalId: gene.originalId } : {}),
+    ...(gene.length ? { length: gene.length } : {}),
+    values: [gene.value],
+  })),
+})
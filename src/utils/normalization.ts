@@ -0,0 +1,216 @@
+import type { ExpressionMatrix } from '../types/matrix'
+import {
+  computeStats,
+  inverseNormalCdf,
+  median,
+  medianAbsoluteDeviation,
+  normalizeLog2,
+  rankValues,
+  scaleToRange,
+  toZScore,
+} from './math'
+
+export type CountTransform = 'none' | 'cpm' | 'tpm'
+export type ScaleMethod = 'zscore' | 'robust-z' | 'rank' | 'minmax'
+
+/**
+ * 标准化流程：计数转换 → log2 → （样本间分位数标准化）→ 缩放
+ */
+export type NormalizationSettings = {
+  transform: CountTransform
+  log2: boolean
+  pseudoCount: number
+  quantile: boolean // 仅对多样本矩阵生效
+  scale: ScaleMethod
+}
+
+export type NormalizationResult = {
+  values: number[]
+  notes: string[] // 流程中的回退或跳过说明
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationSettings = {
+  transform: 'none',
+  log2: false,
+  pseudoCount: 1,
+  quantile: false,
+  scale: 'zscore',
+}
+
+// min-max 输出区间，与色阶 domain 对齐
+const MINMAX_RANGE = [-2.5, 2.5] as const
+// MAD 换算为正态分布标准差的系数
+const MAD_SCALE = 1.4826
+
+export const transformLabels: Record<CountTransform, string> = {
+  none: 'Raw',
+  cpm: 'CPM',
+  tpm: 'TPM',
+}
+
+export const scaleLabels: Record<ScaleMethod, string> = {
+  zscore: 'Z-Score',
+  'robust-z': 'Robust Z (median/MAD)',
+  rank: 'Rank → normal quantile',
+  minmax: 'Min-Max',
+}
+
+const toCpm = (values: number[]) => {
+  const total = values.reduce((sum, value) => sum + value, 0)
+  return total > 0 ? values.map((value) => (value / total) * 1e6) : values
+}
+
+const toTpm = (values: number[], lengths: number[]) => {
+  const rpk = values.map((value, index) => value / (lengths[index] / 1000))
+  return toCpm(rpk)
+}
+
+const applyTransform = (
+  values: number[],
+  settings: NormalizationSettings,
+  lengths: Array<number | undefined> = [],
+): NormalizationResult => {
+  const notes: string[] = []
+  let result = values
+
+  if (settings.transform === 'cpm') {
+    result = toCpm(result)
+  } else if (settings.transform === 'tpm') {
+    const hasLengths = values.every((_, index) => (lengths[index] ?? 0) > 0)
+    if (hasLengths) {
+      result = toTpm(result, lengths as number[])
+    } else {
+      notes.push('缺少基因长度列（length），TPM 已回退为 CPM')
+      result = toCpm(result)
+    }
+  }
+
+  if (settings.log2) {
+    if (result.some((value) => value + settings.pseudoCount <= 0)) {
+      notes.push('存在 ≤ -pseudocount 的数值，已跳过 log2')
+    } else {
+      result = result.map((value) => normalizeLog2(value, settings.pseudoCount))
+    }
+  }
+
+  return { values: result, notes }
+}
+
+const applyScale = (values: number[], method: ScaleMethod): number[] => {
+  switch (method) {
+    case 'robust-z': {
+      const center = median(values)
+      const spread = medianAbsoluteDeviation(values, center) * MAD_SCALE || computeStats(values).std
+      return values.map((value) => (value - center) / spread)
+    }
+    case 'rank': {
+      // Blom 秩变换：秩 → 标准正态分位数
+      const ranks = rankValues(values)
+      return ranks.map((rank) => inverseNormalCdf((rank - 0.375) / (values.length + 0.25)))
+    }
+    case 'minmax': {
+      const stats = computeStats(values)
+      return values.map((value) => scaleToRange(value, stats.min, stats.max, MINMAX_RANGE[0], MINMAX_RANGE[1]))
+    }
+    case 'zscore':
+    default: {
+      const stats = computeStats(values)
+      return values.map((value) => toZScore(value, stats.mean, stats.std))
+    }
+  }
+}
+
+/**
+ * 样本间分位数标准化：每个样本的第 k 小值替换为所有样本第 k 小值的均值
+ */
+const quantileNormalize = (columns: number[][]) => {
+  const sortedColumns = columns.map((column) => [...column].sort((a, b) => a - b))
+  const rankMeans = sortedColumns[0].map(
+    (_, rank) => sortedColumns.reduce((sum, column) => sum + column[rank], 0) / sortedColumns.length,
+  )
+  return columns.map((column) =>
+    rankValues(column).map((rank) => {
+      // 并列值的平均秩落在两个位置之间时取插值
+      const lower = Math.floor(rank - 1)
+      const upper = Math.ceil(rank - 1)
+      return (rankMeans[lower] + rankMeans[upper]) / 2
+    }),
+  )
+}
+
+/**
+ * 对单个样本执行完整流程
+ */
+export const normalizeValues = (
+  values: number[],
+  settings: NormalizationSettings,
+  lengths?: Array<number | undefined>,
+): NormalizationResult => {
+  if (!values.length) return { values: [], notes: [] }
+  const transformed = applyTransform(values, settings, lengths)
+  return { values: applyScale(transformed.values, settings.scale), notes: transformed.notes }
+}
+
+/**
+ * 单个时间点内按当前标准化流程计算每个基因的着色值
+ */
+export const normalizeBySymbol = (
+  genes: Array<{ symbol: string; value: number; length?: number }>,
+  settings: NormalizationSettings,
+) => {
+  const { values } = normalizeValues(
+    genes.map((gene) => gene.value),
+    settings,
+    genes.map((gene) => gene.length),
+  )
+  return new Map(genes.map((gene, index) => [gene.symbol, values[index]]))
+}
+
+/**
+ * 对整个表达矩阵执行流程，返回的矩阵 values 即为用于着色的标准化值
+ */
+export const normalizeMatrix = (matrix: ExpressionMatrix, settings: NormalizationSettings) => {
+  const lengths = matrix.genes.map((gene) => gene.length)
+  const notes = new Set<string>()
+
+  let columns = matrix.samples.map((_, sampleIndex) => {
+    const transformed = applyTransform(
+      matrix.genes.map((gene) => gene.values[sampleIndex]),
+      settings,
+      lengths,
+    )
+    transformed.notes.forEach((note) => notes.add(note))
+    return transformed.values
+  })
+
+  if (settings.quantile && matrix.genes.length) {
+    if (columns.length > 1) {
+      columns = quantileNormalize(columns)
+    } else {
+      notes.add('单样本数据无法进行分位数标准化，已跳过')
+    }
+  }
+
+  columns = columns.map((column) => applyScale(column, settings.scale))
+
+  const normalized: ExpressionMatrix = {
+    ...matrix,
+    genes: matrix.genes.map((gene, geneIndex) => ({
+      ...gene,
+      values: columns.map((column) => column[geneIndex]),
+    })),
+  }
+  return { matrix: normalized, notes: Array.from(notes) }
+}
+
+/**
+ * 生成可读的流程描述，例如 "CPM → log2(x+1) → Robust Z (median/MAD)"
+ */
+export const describeNormalization = (settings: NormalizationSettings) => {
+  const steps: string[] = []
+  if (settings.transform !== 'none') steps.push(transformLabels[settings.transform])
+  if (settings.log2) steps.push(`log2(x+${settings.pseudoCount})`)
+  if (settings.quantile) steps.push('Quantile')
+  steps.push(scaleLabels[settings.scale])
+  return steps.join(' → ')
+}
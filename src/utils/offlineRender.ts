@@ -0,0 +1,93 @@
+import type { AnimationFrame, TimelineData } from '../types/timeline'
+import type { PaletteDefinition } from '../types/palette'
+import type { NormalizationSettings } from './normalization'
+import type { ParticleLayoutId } from './particleLayout'
+import { generateAnimationFrames } from './animation'
+import {
+  TIMELINE_RENDER_CONFIG,
+  createParticles,
+  paintTimelineBackground,
+  renderParticles,
+  updateParticles,
+  type AnimatedParticle,
+} from './timelineRenderer'
+
+export type OfflineRenderOptions = {
+  scale: number // 相对 800×600 逻辑画布的缩放
+  fps: number
+  layout?: ParticleLayoutId // 粒子初始布局，与页面上的时间线动画一致
+}
+
+export type ExportHooks = {
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}
+
+export type RenderedFrame = {
+  index: number
+  total: number
+  time: number // 动画内的秒数
+  frame: AnimationFrame
+  particles: AnimatedParticle[]
+  context: CanvasRenderingContext2D // 已合成背景与标签的输出画布
+  width: number
+  height: number
+}
+
+// 每帧之间让出主线程，保证进度条与取消按钮可以响应
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+/**
+ * 离线逐帧渲染：不依赖 requestAnimationFrame，按帧序号推进模拟
+ * 模拟只由帧序列决定，相同输入每次得到完全相同的画面
+ */
+export async function* renderTimelineOffline(
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  normalization: NormalizationSettings,
+  { scale, fps, layout }: OfflineRenderOptions,
+  signal?: AbortSignal,
+): AsyncGenerator<RenderedFrame> {
+  const width = Math.round(TIMELINE_RENDER_CONFIG.canvasWidth * scale)
+  const height = Math.round(TIMELINE_RENDER_CONFIG.canvasHeight * scale)
+
+  // 粒子层保持透明并累积拖尾，与页面画布相同；输出层 = 背景 + 粒子层 + 时间点标签
+  const layer = document.createElement('canvas')
+  const output = document.createElement('canvas')
+  layer.width = output.width = width
+  layer.height = output.height = height
+  const layerCtx = layer.getContext('2d')
+  const outputCtx = output.getContext('2d', { willReadFrequently: true })
+  if (!layerCtx || !outputCtx) throw new Error('浏览器不支持 Canvas 2D，无法离线渲染')
+  layerCtx.scale(scale, scale)
+
+  const frames = generateAnimationFrames(timeline, fps)
+  const particles = createParticles(timeline, palette, normalization, layout)
+
+  for (let index = 0; index < frames.length; index++) {
+    if (signal?.aborted) throw new DOMException('导出已取消', 'AbortError')
+    const frame = frames[index]
+
+    updateParticles(particles, frame, palette, normalization)
+    renderParticles(layerCtx, particles)
+
+    paintTimelineBackground(outputCtx, width, height)
+    outputCtx.drawImage(layer, 0, 0)
+    outputCtx.fillStyle = 'rgba(255, 255, 255, 0.85)'
+    outputCtx.font = `${Math.max(10, Math.round(14 * scale))}px monospace`
+    outputCtx.textAlign = 'left'
+    outputCtx.fillText(`${timeline.title} · ${frame.timePoint.label}`, 12 * scale, 24 * scale)
+
+    yield {
+      index,
+      total: frames.length,
+      time: (index / frames.length) * timeline.totalDuration,
+      frame,
+      particles,
+      context: outputCtx,
+      width,
+      height,
+    }
+    await nextTick()
+  }
+}
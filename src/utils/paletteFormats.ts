@@ -0,0 +1,216 @@
+import type { PaletteDefinition, PaletteGene } from '../types/palette'
+
+export type PaletteExportFormat = 'css' | 'tailwind' | 'gpl' | 'ase' | 'tokens' | 'svg'
+
+type FormatSpec = {
+  label: string
+  extension: string
+  mime: string
+  build: (genes: PaletteGene[], palette: PaletteDefinition) => string | Uint8Array<ArrayBuffer>
+}
+
+// 变量名 / token 名只保留小写字母、数字与连字符
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+const paletteSlug = (palette: PaletteDefinition) => `gene-${slugify(palette.id) || 'palette'}`
+
+/**
+ * 每个基因的变量名：不同 symbol 可能得到相同的名字（HLA-A / HLA.A），
+ * 非 ASCII 的 symbol 会变成空串，此时依次加数字后缀保证唯一
+ */
+const uniqueSlugs = (genes: PaletteGene[]) => {
+  const used = new Set<string>()
+  return genes.map((gene) => {
+    const base = slugify(gene.symbol) || 'gene'
+    let slug = base
+    for (let suffix = 2; used.has(slug); suffix++) slug = `${base}-${suffix}`
+    used.add(slug)
+    return slug
+  })
+}
+
+// 写入注释的文本：CSS 注释中不能出现 */，单行注释中不能换行
+const blockCommentText = (value: string) => value.replace(/\*\//g, '*\\/')
+const lineCommentText = (value: string) => value.replace(/[\r\n]+/g, ' ')
+
+const hexToRgb = (hex: string) => {
+  const value = hex.replace('#', '')
+  return [0, 2, 4].map((offset) => parseInt(value.slice(offset, offset + 2), 16))
+}
+
+const describeGene = (gene: PaletteGene) =>
+  `value ${gene.value.toFixed(3)}, normalized ${gene.normalized.toFixed(3)}`
+
+export const toCssVariables = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  const prefix = paletteSlug(palette)
+  const slugs = uniqueSlugs(genes)
+  const lines = genes.map(
+    (gene, index) =>
+      `  --${prefix}-${slugs[index]}: ${gene.color.hex}; /* ${blockCommentText(gene.symbol)}: ${describeGene(gene)} */`,
+  )
+  return `/* ${blockCommentText(palette.name)} */\n:root {\n${lines.join('\n')}\n}\n`
+}
+
+export const toTailwindColors = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  const slugs = uniqueSlugs(genes)
+  const entries = genes.map((gene, index) => `          '${slugs[index]}': '${gene.color.hex}',`)
+  return [
+    `// ${lineCommentText(palette.name)}：合并到 tailwind.config.js 的 theme.extend.colors`,
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    `        '${paletteSlug(palette)}': {`,
+    ...entries,
+    '        },',
+    '      },',
+    '    },',
+    '  },',
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * GIMP / Inkscape 调色板（.gpl）
+ */
+export const toGpl = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  const rows = genes.map((gene) => {
+    const [r, g, b] = hexToRgb(gene.color.hex)
+    return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${gene.symbol}`
+  })
+  return ['GIMP Palette', `Name: ${palette.name}`, 'Columns: 5', '#', ...rows, ''].join('\n')
+}
+
+/**
+ * Adobe Swatch Exchange（.ase）：大端序二进制，名称为带结尾 0 的 UTF-16BE
+ */
+export const toAse = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  const nameBytes = (name: string) => (name.length + 1) * 2
+  const groupBlockLength = 2 + nameBytes(palette.name)
+  const colorBlockLength = (name: string) => 2 + nameBytes(name) + 4 + 12 + 2
+  const total =
+    12 +
+    (6 + groupBlockLength) +
+    genes.reduce((sum, gene) => sum + 6 + colorBlockLength(gene.symbol), 0) +
+    6
+
+  const view = new DataView(new ArrayBuffer(total))
+  let offset = 0
+  const writeUint16 = (value: number) => {
+    view.setUint16(offset, value)
+    offset += 2
+  }
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value)
+    offset += 4
+  }
+  const writeName = (name: string) => {
+    writeUint16(name.length + 1)
+    for (let i = 0; i < name.length; i++) writeUint16(name.charCodeAt(i))
+    writeUint16(0)
+  }
+
+  // 文件头：签名、版本 1.0、块数量（组开始 + 颜色 + 组结束）
+  'ASEF'.split('').forEach((char) => view.setUint8(offset++, char.charCodeAt(0)))
+  writeUint16(1)
+  writeUint16(0)
+  writeUint32(genes.length + 2)
+
+  writeUint16(0xc001)
+  writeUint32(groupBlockLength)
+  writeName(palette.name)
+
+  genes.forEach((gene) => {
+    writeUint16(0x0001)
+    writeUint32(colorBlockLength(gene.symbol))
+    writeName(gene.symbol)
+    'RGB '.split('').forEach((char) => view.setUint8(offset++, char.charCodeAt(0)))
+    hexToRgb(gene.color.hex).forEach((channel) => {
+      view.setFloat32(offset, channel / 255)
+      offset += 4
+    })
+    writeUint16(2) // 0 = global, 1 = spot, 2 = normal
+  })
+
+  writeUint16(0xc002)
+  writeUint32(0)
+
+  return new Uint8Array(view.buffer)
+}
+
+/**
+ * W3C Design Tokens（DTCG）格式
+ */
+export const toDesignTokens = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  // token 名不能含 . { } 或以 $ 开头，与 CSS 变量共用唯一的名字；原始 symbol 写入描述与 $extensions
+  const slugs = uniqueSlugs(genes)
+  const tokens = Object.fromEntries(
+    genes.map((gene, index) => [
+      slugs[index],
+      {
+        $value: gene.color.hex,
+        $description: `${gene.symbol}: ${describeGene(gene)}`,
+        $extensions: { 'gene-palette': { symbol: gene.symbol } },
+      },
+    ]),
+  )
+  const document = {
+    [paletteSlug(palette)]: {
+      $type: 'color',
+      $description: `${palette.name} (${palette.description || palette.stops.join(' → ')})`,
+      ...tokens,
+    },
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * SVG 色卡：每格为色块 + symbol + hex 标签
+ */
+export const toSvgSheet = (genes: PaletteGene[], palette: PaletteDefinition) => {
+  const columns = 5
+  const cell = { width: 140, height: 110, swatch: 72, gap: 16 }
+  const header = 48
+  const rows = Math.max(1, Math.ceil(genes.length / columns))
+  const width = columns * cell.width + cell.gap
+  const height = header + rows * cell.height + cell.gap
+
+  const cells = genes.map((gene, index) => {
+    const x = cell.gap + (index % columns) * cell.width
+    const y = header + Math.floor(index / columns) * cell.height
+    const textColor = gene.color.luminance > 0.5 ? '#0f172a' : '#f8fafc'
+    return [
+      `  <g>`,
+      `    <rect x="${x}" y="${y}" width="${cell.width - cell.gap}" height="${cell.swatch}" rx="10" fill="${gene.color.hex}"/>`,
+      `    <text x="${x + 10}" y="${y + cell.swatch - 12}" font-size="11" fill="${textColor}">${gene.color.hex}</text>`,
+      `    <text x="${x}" y="${y + cell.swatch + 18}" font-size="14" font-weight="600" fill="#0f172a">${escapeXml(gene.symbol)}</text>`,
+      `  </g>`,
+    ].join('\n')
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, Helvetica, Arial, sans-serif">`,
+    `  <rect width="100%" height="100%" fill="#ffffff"/>`,
+    `  <text x="${cell.gap}" y="30" font-size="18" font-weight="700" fill="#0f172a">${escapeXml(palette.name)}</text>`,
+    ...cells,
+    '</svg>',
+    '',
+  ].join('\n')
+}
+
+export const paletteExportFormats: Record<PaletteExportFormat, FormatSpec> = {
+  css: { label: 'CSS custom properties', extension: 'css', mime: 'text/css', build: toCssVariables },
+  tailwind: { label: 'Tailwind colors', extension: 'tailwind.js', mime: 'text/javascript', build: toTailwindColors },
+  gpl: { label: 'GIMP / Inkscape (.gpl)', extension: 'gpl', mime: 'text/plain', build: toGpl },
+  ase: { label: 'Adobe swatches (.ase)', extension: 'ase', mime: 'application/octet-stream', build: toAse },
+  tokens: { label: 'Design tokens (W3C)', extension: 'tokens.json', mime: 'application/json', build: toDesignTokens },
+  svg: { label: 'SVG swatch sheet', extension: 'svg', mime: 'image/svg+xml', build: toSvgSheet },
+}
@@ -0,0 +1,26 @@
+import type { PaletteDefinition } from '../types/palette'
+import { readPaletteDefinition } from './color'
+
+const STORAGE_KEY = 'gene-palette:presets'
+
+export const createPresetId = () => `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+export const loadPalettePresets = (): PaletteDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.map(readPaletteDefinition).filter((preset): preset is PaletteDefinition => preset !== null)
+  } catch {
+    return []
+  }
+}
+
+export const savePalettePresets = (presets: PaletteDefinition[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch {
+    // 存储不可用（隐私模式 / 配额已满）时仅保留在内存中
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * 粒子画布的运行引擎：优先在 Web Worker 中模拟并用 OffscreenCanvas 绘制，不支持时退回主线程
+ * 两种模式共用 particleSimulation 与 particleRenderer，画面与结果一致
+ *
+ * Worker 模式不使用 transferControlToOffscreen：每帧以 ImageBitmap 回传并贴到 bitmaprenderer 画布上，
+ * 页面上的 <canvas> 仍是普通画布，PNG 导出（toDataURL）照常可用
+ */
+
+import type { CanvasSurfaceSize } from '../hooks/useCanvasSurface'
+import type { ParticleWorkerRequest, ParticleWorkerResponse } from '../workers/particleWorker'
+import { IDENTITY_VIEW, type ViewTransform } from './canvasView'
+import {
+  drawParticleScene,
+  type ParticleStyle,
+  type RenderParticle,
+  type SceneState,
+} from './particleRenderer'
+import { pinParticle, rescaleSimulation, stepSimulation, type ParticleSimulation } from './particleSimulation'
+
+export type ParticleEngine = {
+  mode: () => 'worker' | 'main'
+  simulation: () => ParticleSimulation<RenderParticle> // Worker 模式下为最近一帧的坐标镜像，用于点击检测与导出
+  reset: (simulation: ParticleSimulation<RenderParticle>) => void
+  restyle: (styles: ParticleStyle[]) => void // 基因列表不变时只更新颜色与光晕，保留位置和速度
+  resize: (size: CanvasSurfaceSize) => void
+  select: (index: number) => void
+  highlight: (indices: number[]) => void // 多选粒子
+  setView: (view: ViewTransform) => void
+  pin: (index: number, position: { x: number; y: number } | null) => void // 拖动固定 / 解除固定
+  frame: () => void // 每次 requestAnimationFrame 调用一次
+  dispose: () => void
+}
+
+const supportsWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+
+export const createParticleEngine = (canvas: HTMLCanvasElement, initialSize: CanvasSurfaceSize): ParticleEngine => {
+  let size = initialSize
+  let simulation: ParticleSimulation<RenderParticle> = { particles: [], adjacency: [], spacing: 1 }
+  let scene: SceneState = { selected: -1, highlighted: new Set(), view: IDENTITY_VIEW }
+  let generation = 0
+  let worker: Worker | null = null
+  let pending = false // 已发出 tick、尚未收到对应帧；避免帧在主线程堆积
+
+  const post = (message: ParticleWorkerRequest) => worker?.postMessage(message)
+
+  // 主线程模式：在 frame() 中直接推进并绘制
+  let context: CanvasRenderingContext2D | null = null
+  const runOnMainThread = () => {
+    worker?.terminate()
+    worker = null
+    context = canvas.getContext('2d')
+  }
+
+  // Worker 模式：bitmaprenderer 上下文在收到第一帧时才获取，Worker 不可用时画布仍可改用 2d 上下文
+  let bitmapContext: ImageBitmapRenderingContext | null = null
+  const receive = (event: MessageEvent<ParticleWorkerResponse>) => {
+    const message = event.data
+    if (message.type === 'unsupported') {
+      runOnMainThread()
+      return
+    }
+    pending = false
+    if (message.generation !== generation || !worker) {
+      message.bitmap.close()
+      return
+    }
+    bitmapContext ??= canvas.getContext('bitmaprenderer')
+    bitmapContext?.transferFromImageBitmap(message.bitmap)
+    simulation.particles.forEach((particle, index) => {
+      particle.x = message.positions[index * 2]
+      particle.y = message.positions[index * 2 + 1]
+    })
+  }
+
+  if (supportsWorker()) {
+    try {
+      worker = new Worker(new URL('../workers/particleWorker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = receive
+      worker.onerror = () => {
+        if (!bitmapContext) runOnMainThread()
+      }
+      post({ type: 'resize', size })
+    } catch {
+      runOnMainThread()
+    }
+  } else {
+    runOnMainThread()
+  }
+
+  return {
+    mode: () => (worker ? 'worker' : 'main'),
+    simulation: () => simulation,
+    reset: (next) => {
+      simulation = next
+      generation++
+      post({ type: 'reset', generation, simulation: next })
+    },
+    restyle: (styles) => {
+      simulation.particles.forEach((particle, index) => Object.assign(particle, styles[index]))
+      post({ type: 'restyle', styles })
+    },
+    resize: (next) => {
+      rescaleSimulation(simulation.particles, size, next)
+      size = next
+      post({ type: 'resize', size: next })
+    },
+    select: (index) => {
+      scene = { ...scene, selected: index }
+      post({ type: 'select', index })
+    },
+    highlight: (indices) => {
+      scene = { ...scene, highlighted: new Set(indices) }
+      post({ type: 'highlight', indices })
+    },
+    setView: (view) => {
+      scene = { ...scene, view }
+      post({ type: 'view', view })
+    },
+    pin: (index, position) => {
+      pinParticle(simulation, index, position)
+      post({ type: 'pin', index, position })
+    },
+    frame: () => {
+      if (worker) {
+        if (pending) return
+        pending = true
+        post({ type: 'tick' })
+        return
+      }
+      if (!context) return
+      stepSimulation(simulation, size)
+      drawParticleScene(context, simulation, size, scene)
+    },
+    dispose: () => {
+      worker?.terminate()
+      worker = null
+    },
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * 粒子初始布局：决定物理模拟从哪里开始，让位置本身带有生物学含义
+ * 结果为单位圆内的坐标（-1…1），由粒子画布与时间线动画按各自的分布半径换算；不含随机成分
+ */
+
+import { categoryHues, getGenePathways, getPrimaryCategory, type GeneCategory } from '../data/geneKnowledge'
+
+export type ParticleLayoutId = 'ring' | 'category' | 'pathway' | 'spiral' | 'embedding'
+
+export type LayoutInput = {
+  symbol: string
+  value: number // 排序用的数值（标准化表达值）
+  profile?: number[] // 跨样本 / 时间点的表达谱，仅相关性嵌入使用
+}
+
+export type LayoutPoint = {
+  x: number
+  y: number
+}
+
+export const particleLayouts: Record<ParticleLayoutId, { label: string; description: string }> = {
+  ring: { label: 'Ring', description: '按输入顺序沿圆环排布' },
+  category: { label: 'Category sectors', description: '按基因功能类别分扇区' },
+  pathway: { label: 'Pathway clusters', description: '同一通路的基因聚成一簇，未收录通路的基因位于中央' },
+  spiral: { label: 'Expression spiral', description: '按表达值从中心向外螺旋排列，最高表达位于中心' },
+  embedding: { label: 'Correlation embedding', description: '表达谱主成分分析：表达模式相关的基因彼此靠近' },
+}
+
+// 相关性嵌入至少需要 3 个样本，否则逐基因 z-score 之后只剩一个方向
+export const MIN_EMBEDDING_SAMPLES = 3
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+const GOLDEN_FRACTION = (Math.sqrt(5) - 1) / 2
+const SECTOR_GAP = 0.08 // 扇区之间的空隙（弧度）
+const CLUSTER_RING = 0.58 // 通路簇中心所在圆环的半径
+const CORE_RADIUS = 0.32 // 未收录通路的基因所在中央区域的半径
+const POWER_ITERATIONS = 200
+
+const polar = (radius: number, angle: number): LayoutPoint => ({
+  x: Math.cos(angle) * radius,
+  y: Math.sin(angle) * radius,
+})
+
+// 圆盘内的葵花籽排布：面积均匀，第 k 个点离中心最近
+const sunflower = (k: number, count: number, radius: number) =>
+  polar(radius * Math.sqrt((k + 0.5) / count), k * GOLDEN_ANGLE)
+
+const ringLayout = (inputs: LayoutInput[]) =>
+  inputs.map((_, i) => polar(1, (i / inputs.length) * Math.PI * 2))
+
+// 同组内按数值从高到低排列，高表达基因靠近组中心
+const groupBy = (inputs: LayoutInput[], keyOf: (input: LayoutInput) => string | null) => {
+  const groups = new Map<string | null, number[]>()
+  inputs.forEach((input, index) => {
+    const key = keyOf(input)
+    const members = groups.get(key)
+    if (members) members.push(index)
+    else groups.set(key, [index])
+  })
+  groups.forEach((members) => members.sort((a, b) => inputs[b].value - inputs[a].value || a - b))
+  return groups
+}
+
+const categoryLayout = (inputs: LayoutInput[]) => {
+  const groups = groupBy(inputs, (input) => getPrimaryCategory(input.symbol))
+  // 扇区顺序固定（与双变量色彩模式的类别顺序一致），未收录的基因排在最后
+  const order: Array<GeneCategory | null> = [...(Object.keys(categoryHues) as GeneCategory[]), null]
+  const points: LayoutPoint[] = new Array(inputs.length)
+  const gap = groups.size > 1 ? SECTOR_GAP : 0
+  let start = -Math.PI / 2
+
+  order.forEach((category) => {
+    const members = groups.get(category)
+    if (!members) return
+    const span = (members.length / inputs.length) * Math.PI * 2
+    members.forEach((index, k) => {
+      // 半径按面积均匀分布，角度用黄金分割序列填满扇区
+      const radius = Math.sqrt(0.08 + (0.92 * (k + 0.5)) / members.length)
+      const angle = start + gap / 2 + (span - gap) * ((k * GOLDEN_FRACTION) % 1)
+      points[index] = polar(radius, angle)
+    })
+    start += span
+  })
+  return points
+}
+
+const pathwayLayout = (inputs: LayoutInput[]) => {
+  // 基因属于多条通路时以知识库中的第一条为准
+  const groups = groupBy(inputs, (input) => getGenePathways(input.symbol)[0]?.name ?? null)
+  const unassigned = groups.get(null) ?? []
+  groups.delete(null)
+
+  const points: LayoutPoint[] = new Array(inputs.length)
+  const clustered = inputs.length - unassigned.length
+  const coreRadius = groups.size ? CORE_RADIUS : 1
+  unassigned.forEach((index, k) => {
+    points[index] = sunflower(k, unassigned.length, coreRadius)
+  })
+
+  // 簇中心沿圆环排列，所占角度与簇大小成正比，簇半径不超过相邻簇之间的空间，也不压到中央区域
+  const maxRadius = unassigned.length ? CLUSTER_RING - CORE_RADIUS : 0.4
+  let start = -Math.PI / 2
+  groups.forEach((members) => {
+    const share = members.length / clustered
+    const angle = start + share * Math.PI
+    const center = polar(CLUSTER_RING, angle)
+    const radius = Math.min(maxRadius, Math.max(0.06, 0.9 * CLUSTER_RING * Math.sin(Math.min(Math.PI / 2, share * Math.PI))))
+    members.forEach((index, k) => {
+      const offset = sunflower(k, members.length, radius)
+      points[index] = { x: center.x + offset.x, y: center.y + offset.y }
+    })
+    start += share * Math.PI * 2
+  })
+  return points
+}
+
+const spiralLayout = (inputs: LayoutInput[]) => {
+  const ranked = inputs.map((_, index) => index).sort((a, b) => inputs[b].value - inputs[a].value || a - b)
+  const points: LayoutPoint[] = new Array(inputs.length)
+  ranked.forEach((index, rank) => {
+    points[index] = sunflower(rank, inputs.length, 1)
+  })
+  return points
+}
+
+/**
+ * 当前输入是否可以做相关性嵌入：每个基因都有等长、至少 MIN_EMBEDDING_SAMPLES 个样本的表达谱
+ */
+export const canEmbed = (inputs: LayoutInput[]) => {
+  const length = inputs[0]?.profile?.length ?? 0
+  return length >= MIN_EMBEDDING_SAMPLES && inputs.every((input) => input.profile?.length === length)
+}
+
+// 逐基因 z-score：之后两基因表达谱的内积与 Pearson 相关系数成正比
+const standardize = (profile: number[]) => {
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length
+  const sd = Math.sqrt(profile.reduce((sum, value) => sum + (value - mean) ** 2, 0) / profile.length)
+  return profile.map((value) => (sd > 0 && Number.isFinite(value) ? (value - mean) / sd : 0))
+}
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+/**
+ * 幂迭代求对称矩阵的主特征向量；符号固定为绝对值最大的分量取正，保证结果可复现
+ */
+const principalAxis = (matrix: number[][]) => {
+  const size = matrix.length
+  let vector = matrix.map((_, i) => 1 + i / size)
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const next = matrix.map((row) => dot(row, vector))
+    const norm = Math.hypot(...next)
+    if (norm === 0) return { vector: new Array<number>(size).fill(0), value: 0 }
+    vector = next.map((value) => value / norm)
+  }
+  const pivot = vector.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0)
+  if (pivot < 0) vector = vector.map((value) => -value)
+  return { vector, value: dot(vector, matrix.map((row) => dot(row, vector))) }
+}
+
+/**
+ * 相关性嵌入：对 z-score 后的表达谱做主成分分析，取前两个主成分为坐标
+ * 协方差按样本维度（样本数 × 样本数）计算，基因数很多时也只需一次遍历
+ */
+const embeddingLayout = (inputs: LayoutInput[]) => {
+  const profiles = inputs.map((input) => standardize(input.profile ?? []))
+  const samples = profiles[0].length
+  const covariance = Array.from({ length: samples }, () => new Array<number>(samples).fill(0))
+  profiles.forEach((profile) => {
+    for (let a = 0; a < samples; a++) {
+      for (let b = a; b < samples; b++) covariance[a][b] += profile[a] * profile[b]
+    }
+  })
+  for (let a = 0; a < samples; a++) {
+    for (let b = 0; b < a; b++) covariance[a][b] = covariance[b][a]
+  }
+
+  const first = principalAxis(covariance)
+  const deflated = covariance.map((row, a) => row.map((value, b) => value - first.value * first.vector[a] * first.vector[b]))
+  const second = principalAxis(deflated)
+
+  const coordinates = profiles.map((profile) => ({ x: dot(profile, first.vector), y: dot(profile, second.vector) }))
+  const extent = Math.max(...coordinates.map((point) => Math.hypot(point.x, point.y))) || 1
+  return coordinates.map((point) => ({ x: point.x / extent, y: point.y / extent }))
+}
+
+/**
+ * 计算布局；相关性嵌入在表达谱不足时退回圆环布局
+ */
+export const computeLayout = (layout: ParticleLayoutId, inputs: LayoutInput[]): LayoutPoint[] => {
+  if (!inputs.length) return []
+  switch (layout) {
+    case 'category':
+      return categoryLayout(inputs)
+    case 'pathway':
+      return pathwayLayout(inputs)
+    case 'spiral':
+      return spiralLayout(inputs)
+    case 'embedding':
+      return canEmbed(inputs) ? embeddingLayout(inputs) : ringLayout(inputs)
+    default:
+      return ringLayout(inputs)
+  }
+}
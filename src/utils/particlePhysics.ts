@@ -0,0 +1,26 @@
+/**
+ * 粒子画布的物理与绘制参数
+ * 粒子画布、Worker 与独立 HTML 导出的运行时（src/runtime/particleArt.ts）共用同一组常量
+ */
+
+import type { PaletteGene } from '../types/palette'
+
+export const GRAVITY_STRENGTH = 0.0008  // 通路内基因的引力强度（减小，避免过度聚集）
+export const REPULSION_STRENGTH = 0.002  // 所有粒子之间的基础斥力（增大，防止重叠）
+export const DAMPING = 0.95  // 阻尼系数
+export const MIN_DISTANCE = 60  // 最小距离（增大，确保粒子不重叠：最大半径25*2+10余量）
+export const MAX_DISTANCE = 200  // 最大引力距离
+export const BOUNDARY_MARGIN = 40  // 边界缓冲区，确保大粒子（半径最大25）也不会贴边或越界
+export const BOUNCE = 0.8  // 边界反弹保留的速度比例
+export const BASE_GLOW = 10  // 默认光晕半径
+export const MAX_SIGNIFICANCE_GLOW = 30  // 显著性带来的额外光晕
+export const SIGNIFICANCE_CAP = 10  // -log10(padj) 超过该值视为同等显著
+
+// 差异表达数据：显著性越高光晕越强
+export const getGlow = (gene: PaletteGene) =>
+  gene.significance === undefined
+    ? BASE_GLOW
+    : BASE_GLOW + (Math.min(gene.significance, SIGNIFICANCE_CAP) / SIGNIFICANCE_CAP) * MAX_SIGNIFICANCE_GLOW
+
+// 初速度分量：[-0.75, 0.75)
+export const initialVelocity = (random: () => number) => (random() - 0.5) * 1.5
@@ -0,0 +1,122 @@
+/**
+ * 粒子画布的绘制：主线程 CanvasRenderingContext2D 与 Worker 中的 OffscreenCanvas 共用
+ */
+
+import type { CanvasSurfaceSize } from '../hooks/useCanvasSurface'
+import type { ViewTransform } from './canvasView'
+import { collectPathwayLinks, type ParticleSimulation, type SimulationParticle } from './particleSimulation'
+
+export type ParticleStyle = {
+  color: string
+  glow: number // 对应画布 shadowBlur（差异表达数据中由显著性决定）
+}
+
+export type RenderParticle = SimulationParticle & ParticleStyle
+
+export type SceneState = {
+  selected: number // 单选粒子的下标（-1 表示无）
+  highlighted: Set<number> // 多选（Shift 点击 / 套索）粒子的下标
+  view: ViewTransform
+}
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// 间距系数 × 缩放倍数低于该值时（基因很多、粒子很小）不再绘制标签与光晕，光晕是最耗时的绘制步骤
+export const DETAIL_MIN_SPACING = 0.5
+
+const MIN_DRAW_RADIUS = 8
+
+/**
+ * 清空画布并按视图变换绘制一帧：通路连线 → 粒子 → 标签
+ * 线宽与字号按缩放倍数换算，放大后仍保持屏幕上的粗细
+ */
+export const drawParticleScene = (
+  ctx: Canvas2D,
+  simulation: ParticleSimulation<RenderParticle>,
+  size: CanvasSurfaceSize,
+  { selected, highlighted, view }: SceneState,
+) => {
+  const { particles, spacing } = simulation
+  const detailed = spacing * view.scale >= DETAIL_MIN_SPACING
+  const unit = 1 / view.scale
+  ctx.setTransform(size.pixelRatio, 0, 0, size.pixelRatio, 0, 0)
+  ctx.clearRect(0, 0, size.width, size.height)
+  ctx.setTransform(
+    size.pixelRatio * view.scale,
+    0,
+    0,
+    size.pixelRatio * view.scale,
+    size.pixelRatio * view.x,
+    size.pixelRatio * view.y,
+  )
+
+  // 绘制连线（通路关系）
+  ctx.lineWidth = unit
+  collectPathwayLinks(simulation).forEach(({ from, to, opacity }) => {
+    ctx.strokeStyle = `rgba(127, 90, 240, ${opacity})`
+    ctx.beginPath()
+    ctx.moveTo(particles[from].x, particles[from].y)
+    ctx.lineTo(particles[to].x, particles[to].y)
+    ctx.stroke()
+  })
+
+  particles.forEach((p, index) => {
+    // 默认尺度下保持最小 8 像素，缩小后按同一比例
+    const drawRadius = Math.max(MIN_DRAW_RADIUS * spacing, p.radius)
+    const isSelected = index === selected
+    const isHighlighted = highlighted.has(index)
+
+    // 添加发光效果（外圈阴影）
+    ctx.shadowBlur = detailed ? p.glow * spacing * view.scale : 0
+    ctx.shadowColor = p.color
+    ctx.shadowOffsetX = 0
+    ctx.shadowOffsetY = 0
+
+    ctx.beginPath()
+    ctx.arc(p.x, p.y, drawRadius, 0, Math.PI * 2)
+    ctx.fillStyle = p.color
+    ctx.fill()
+    ctx.shadowBlur = 0
+
+    if (isSelected) {
+      // 选中状态：亮绿色描边与外层光环
+      ctx.strokeStyle = '#00ffd0'
+      ctx.lineWidth = 3 * unit
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, drawRadius + 4 * unit, 0, Math.PI * 2)
+      ctx.strokeStyle = 'rgba(0, 255, 208, 0.3)'
+      ctx.lineWidth = 2 * unit
+      ctx.stroke()
+    } else if (isHighlighted) {
+      // 多选状态：琥珀色描边
+      ctx.strokeStyle = '#facc15'
+      ctx.lineWidth = 2.5 * unit
+      ctx.stroke()
+    } else if (detailed) {
+      // 普通状态：淡白色描边，增加可见性
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)'
+      ctx.lineWidth = 1.5 * unit
+      ctx.stroke()
+    }
+
+    // 固定的粒子：外圈虚线
+    if (p.pinned) {
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, drawRadius + 3 * unit, 0, Math.PI * 2)
+      ctx.setLineDash([3 * unit, 3 * unit])
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)'
+      ctx.lineWidth = unit
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    // 绘制基因符号标签（选中与多选的粒子始终显示）
+    if (detailed || isSelected || isHighlighted) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
+      ctx.font = `${10 * unit}px monospace`
+      ctx.textAlign = 'center'
+      ctx.fillText(p.symbol, p.x, p.y + p.radius + 12 * unit)
+    }
+  })
+}
@@ -0,0 +1,299 @@
+/**
+ * 粒子画布的物理模拟：初始布局、逐步推进与通路连线
+ * 不依赖 DOM（主线程与 Web Worker 共用），所有随机性都来自种子化的 PRNG，
+ * 相同种子 + 相同数据 + 相同画布尺寸在 N 步后得到相同布局
+ *
+ * 每一步先按步初位置计算全部受力再统一积分：
+ * - 斥力只在 MIN_DISTANCE（或两粒子半径之和 + 余量）以内生效，用均匀网格只检查相邻格子，结果与逐对计算一致
+ * - 通路引力按预先计算的邻接表遍历，不再对每一对基因查询通路
+ */
+
+import { buildPathwayAdjacency } from '../data/geneKnowledge'
+import {
+  BOUNCE,
+  BOUNDARY_MARGIN,
+  DAMPING,
+  GRAVITY_STRENGTH,
+  MAX_DISTANCE,
+  MIN_DISTANCE,
+  REPULSION_STRENGTH,
+  initialVelocity,
+} from './particlePhysics'
+import { computeLayout, type LayoutPoint } from './particleLayout'
+import { createRandom } from './random'
+
+export type SimulationParticle = {
+  symbol: string
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  pinned?: boolean // 被拖动固定的粒子：仍对其他粒子施力，自身不受力、不移动
+}
+
+export type ParticleSimulation<T extends SimulationParticle = SimulationParticle> = {
+  particles: T[]
+  adjacency: number[][] // 同一通路的粒子下标，见 buildPathwayAdjacency
+  spacing: number // 间距系数：1 为默认尺度，基因很多时按画布面积等比缩小半径、作用距离与力
+}
+
+export type SimulationBounds = {
+  width: number
+  height: number
+}
+
+export type SimulationSeedInput = {
+  symbol: string
+  size: number // 决定粒子半径的数值（差异表达为显著性，否则为标准化表达值）
+}
+
+export type PathwayLink = {
+  from: number
+  to: number
+  opacity: number
+}
+
+const MIN_RADIUS = 8
+const MAX_RADIUS = 25
+const SEPARATION_PADDING = 10 // 两粒子半径之和之外的最小余量
+
+// 网格键：cx * GRID_STRIDE + cy
+const GRID_STRIDE = 1 << 16
+// 每个格子只与右上、右、右下、下四个格子配对，每对粒子只处理一次
+const FORWARD_NEIGHBOURS = [
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+] as const
+
+/**
+ * 画布按默认间距能容纳的粒子数不足时，按面积等比缩小（只缩小不放大）
+ */
+export const simulationSpacing = (count: number, { width, height }: SimulationBounds) => {
+  if (count === 0) return 1
+  const usable = Math.max(1, (width - BOUNDARY_MARGIN * 2) * (height - BOUNDARY_MARGIN * 2))
+  return Math.min(1, Math.sqrt(usable / (count * MIN_DISTANCE * MIN_DISTANCE)))
+}
+
+/**
+ * 按布局（单位圆坐标，见 particleLayout）放置粒子，默认沿圆环按输入顺序排布；初速度由种子决定
+ */
+export const createSimulation = (
+  inputs: SimulationSeedInput[],
+  bounds: SimulationBounds,
+  seed: number,
+  layout: LayoutPoint[] = computeLayout('ring', inputs.map((input) => ({ symbol: input.symbol, value: input.size }))),
+): ParticleSimulation => {
+  const { width, height } = bounds
+  const spacing = simulationSpacing(inputs.length, bounds)
+  const sizes = inputs.map((input) => input.size)
+  const minSize = Math.min(...sizes)
+  const sizeRange = Math.max(...sizes) - minSize || 1
+
+  // 增大初始分布半径，确保粒子分散，避免重叠
+  const margin = BOUNDARY_MARGIN
+  const availableWidth = width - margin * 2 - MAX_RADIUS * 2
+  const availableHeight = height - margin * 2 - MAX_RADIUS * 2
+  const distributionRadius = Math.max(80, Math.min(availableWidth, availableHeight) * 0.5)
+
+  const random = createRandom(seed)
+  const particles = inputs.map((input, i) => {
+    const point = layout[i] ?? { x: 0, y: 0 }
+    const radius = (MIN_RADIUS + ((input.size - minSize) / sizeRange) * (MAX_RADIUS - MIN_RADIUS)) * spacing
+    return {
+      symbol: input.symbol,
+      // 边界检查，确保粒子初始位置在画布的逻辑边界内
+      x: Math.max(margin + radius, Math.min(width - margin - radius, width / 2 + point.x * distributionRadius)),
+      y: Math.max(margin + radius, Math.min(height - margin - radius, height / 2 + point.y * distributionRadius)),
+      vx: initialVelocity(random) * spacing,
+      vy: initialVelocity(random) * spacing,
+      radius,
+    }
+  })
+  return { particles, adjacency: buildPathwayAdjacency(inputs.map((input) => input.symbol)), spacing }
+}
+
+const buildGrid = (particles: SimulationParticle[], cellSize: number) => {
+  const grid = new Map<number, number[]>()
+  particles.forEach((particle, index) => {
+    const key = Math.max(0, Math.floor(particle.x / cellSize)) * GRID_STRIDE + Math.max(0, Math.floor(particle.y / cellSize))
+    const cell = grid.get(key)
+    if (cell) cell.push(index)
+    else grid.set(key, [index])
+  })
+  return grid
+}
+
+/**
+ * 推进一步：边界反弹 → 斥力（网格）→ 通路引力（邻接表）→ 积分与阻尼（固定的粒子跳过），原地更新
+ */
+export const stepSimulation = (
+  { particles, adjacency, spacing }: ParticleSimulation,
+  { width, height }: SimulationBounds,
+) => {
+  const margin = BOUNDARY_MARGIN
+  const minDistance = MIN_DISTANCE * spacing
+  const maxDistance = MAX_DISTANCE * spacing
+  const padding = SEPARATION_PADDING * spacing
+
+  // 边界反弹（带缓冲区，确保粒子始终在可视区域内，包括粒子的完整半径）
+  let maxRadius = 0
+  particles.forEach((p) => {
+    const minX = margin + p.radius
+    const maxX = width - margin - p.radius
+    const minY = margin + p.radius
+    const maxY = height - margin - p.radius
+    if (p.x < minX || p.x > maxX) {
+      p.vx *= -BOUNCE
+      p.x = Math.max(minX, Math.min(maxX, p.x))
+    }
+    if (p.y < minY || p.y > maxY) {
+      p.vy *= -BOUNCE
+      p.y = Math.max(minY, Math.min(maxY, p.y))
+    }
+    maxRadius = Math.max(maxRadius, p.radius)
+  })
+
+  // 所有粒子之间的基础斥力（防止重叠）
+  const repel = (i: number, j: number) => {
+    const p1 = particles[i]
+    const p2 = particles[j]
+    const dx = p2.x - p1.x
+    const dy = p2.y - p1.y
+    const distance = Math.sqrt(dx * dx + dy * dy) || spacing
+    const minSeparation = p1.radius + p2.radius + padding
+    if (distance >= minDistance && distance >= minSeparation) return
+    const force =
+      REPULSION_STRENGTH * spacing * (1 / (distance / (30 * spacing) + 0.1)) * (1 - distance / minDistance)
+    const angle = Math.atan2(dy, dx)
+    p1.vx -= Math.cos(angle) * force
+    p1.vy -= Math.sin(angle) * force
+    p2.vx += Math.cos(angle) * force
+    p2.vy += Math.sin(angle) * force
+  }
+
+  // 斥力作用距离不超过 cellSize，只需检查相邻格子
+  const cellSize = Math.max(minDistance, maxRadius * 2 + padding)
+  const grid = buildGrid(particles, cellSize)
+  grid.forEach((members, key) => {
+    const cx = Math.floor(key / GRID_STRIDE)
+    const cy = key % GRID_STRIDE
+    for (let a = 0; a < members.length; a++) {
+      for (let b = a + 1; b < members.length; b++) repel(members[a], members[b])
+    }
+    FORWARD_NEIGHBOURS.forEach(([dx, dy]) => {
+      if (cy + dy < 0) return
+      const others = grid.get((cx + dx) * GRID_STRIDE + cy + dy)
+      if (!others) return
+      members.forEach((i) => others.forEach((j) => (i < j ? repel(i, j) : repel(j, i))))
+    })
+  })
+
+  // 通路内基因：引力（只有当距离足够大时才有引力，避免与斥力冲突）
+  adjacency.forEach((neighbours, i) => {
+    const p1 = particles[i]
+    neighbours.forEach((j) => {
+      if (j <= i) return
+      const p2 = particles[j]
+      const dx = p2.x - p1.x
+      const dy = p2.y - p1.y
+      const distance = Math.sqrt(dx * dx + dy * dy) || spacing
+      if (distance <= p1.radius + p2.radius + padding || distance >= maxDistance) return
+      const force = (GRAVITY_STRENGTH * spacing) / (distance / (100 * spacing) + 0.1)
+      const angle = Math.atan2(dy, dx)
+      p1.vx += Math.cos(angle) * force
+      p1.vy += Math.sin(angle) * force
+      p2.vx -= Math.cos(angle) * force
+      p2.vy -= Math.sin(angle) * force
+    })
+  })
+
+  particles.forEach((p) => {
+    if (p.pinned) {
+      p.vx = 0
+      p.vy = 0
+      return
+    }
+    p.x += p.vx
+    p.y += p.vy
+    p.vx *= DAMPING
+    p.vy *= DAMPING
+  })
+}
+
+/**
+ * 连续推进 steps 步，返回同一对象（已原地更新）
+ */
+export const runSimulation = <T extends ParticleSimulation>(simulation: T, bounds: SimulationBounds, steps: number) => {
+  for (let step = 0; step < steps; step++) stepSimulation(simulation, bounds)
+  return simulation
+}
+
+/**
+ * 当前位置下应绘制的通路连线：同一通路、且处于引力作用范围内的粒子对
+ */
+export const collectPathwayLinks = ({ particles, adjacency, spacing }: ParticleSimulation): PathwayLink[] => {
+  const maxDistance = MAX_DISTANCE * spacing
+  const links: PathwayLink[] = []
+  adjacency.forEach((neighbours, i) => {
+    neighbours.forEach((j) => {
+      if (j <= i) return
+      const p1 = particles[i]
+      const p2 = particles[j]
+      const distance = Math.hypot(p2.x - p1.x, p2.y - p1.y)
+      if (distance > p1.radius + p2.radius + SEPARATION_PADDING * spacing && distance < maxDistance) {
+        links.push({ from: i, to: j, opacity: 0.3 * (1 - distance / maxDistance) })
+      }
+    })
+  })
+  return links
+}
+
+/**
+ * 把粒子固定在指定位置（拖动中与拖动结束后）；position 为 null 时解除固定，粒子重新受力
+ */
+export const pinParticle = (
+  { particles }: ParticleSimulation,
+  index: number,
+  position: { x: number; y: number } | null,
+) => {
+  const particle = particles[index]
+  if (!particle) return
+  particle.pinned = position !== null
+  particle.vx = 0
+  particle.vy = 0
+  if (position) {
+    particle.x = position.x
+    particle.y = position.y
+  }
+}
+
+/**
+ * 画布尺寸变化时按比例换算坐标，速度保持不变，模拟无需重启
+ */
+export const rescaleSimulation = (particles: SimulationParticle[], from: SimulationBounds, to: SimulationBounds) => {
+  const scaleX = to.width / from.width
+  const scaleY = to.height / from.height
+  particles.forEach((particle) => {
+    particle.x *= scaleX
+    particle.y *= scaleY
+  })
+}
+
+/**
+ * 点击检测：返回距离最近、且在点击容差内的粒子下标，没有时返回 -1
+ */
+export const findParticleAt = ({ particles, spacing }: ParticleSimulation, x: number, y: number) => {
+  let found = -1
+  let best = Infinity
+  particles.forEach((particle, index) => {
+    const distance = Math.hypot(particle.x - x, particle.y - y)
+    if (distance < particle.radius + SEPARATION_PADDING * spacing && distance < best) {
+      found = index
+      best = distance
+    }
+  })
+  return found
+}
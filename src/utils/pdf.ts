@@ -0,0 +1,83 @@
+/**
+ * 最小 PDF 写入器：单页，整页铺一张 JPEG（DCTDecode 直接嵌入，无需重新编码）
+ */
+
+export type PdfBox = { x: number; y: number; width: number; height: number } // 单位：pt
+
+export type ImagePdfOptions = {
+  jpeg: Uint8Array<ArrayBuffer>
+  pixelWidth: number
+  pixelHeight: number
+  page: { width: number; height: number } // MediaBox，含出血
+  trimBox?: PdfBox // 成品裁切框，印刷厂据此裁切
+  title?: string
+}
+
+const encoder = new TextEncoder()
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString()
+
+const formatBox = ({ x, y, width, height }: PdfBox) =>
+  `[${[x, y, x + width, y + height].map(formatNumber).join(' ')}]`
+
+// PDF 文本字符串：UTF-16BE + BOM，兼容中文标题
+const pdfString = (value: string) => {
+  const hex = Array.from(value)
+    .flatMap((char) => {
+      const code = char.codePointAt(0) ?? 0
+      const units = code > 0xffff ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)] : [code]
+      return units.map((unit) => unit.toString(16).padStart(4, '0'))
+    })
+    .join('')
+  return `<FEFF${hex}>`
+}
+
+export const createImagePdf = ({ jpeg, pixelWidth, pixelHeight, page, trimBox, title }: ImagePdfOptions) => {
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (content: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof content === 'string' ? encoder.encode(content) : content
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, body: string, stream?: Uint8Array<ArrayBuffer>) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n${body}\n`)
+    if (stream) {
+      write('stream\n')
+      write(stream)
+      write('\nendstream\n')
+    }
+    write('endobj\n')
+  }
+
+  const mediaBox = formatBox({ x: 0, y: 0, ...page })
+  const boxes = trimBox ? ` /BleedBox ${mediaBox} /TrimBox ${formatBox(trimBox)}` : ''
+  const content = encoder.encode(`q ${formatNumber(page.width)} 0 0 ${formatNumber(page.height)} 0 0 cm /Im0 Do Q`)
+
+  // 头部第二行的高位字节提示这是二进制文件
+  write('%PDF-1.4\n')
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>')
+  object(
+    3,
+    `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox}${boxes} /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+  )
+  object(
+    4,
+    `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+    jpeg,
+  )
+  object(5, `<< /Length ${content.length} >>`, content)
+  object(6, `<< /Producer (Gene Flux Palette)${title ? ` /Title ${pdfString(title)}` : ''} >>`)
+
+  const xrefOffset = length
+  write(`xref\n0 ${offsets.length}\n0000000000 65535 f \n`)
+  offsets.slice(1).forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`))
+  write(`trailer\n<< /Size ${offsets.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return new Blob(chunks, { type: 'application/pdf' })
+}
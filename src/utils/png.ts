@@ -0,0 +1,139 @@
+/**
+ * PNG 数据块读写：在浏览器编码后的 PNG 中补写元数据块
+ */
+
+import { compressBytes, decompressBytes } from './compression'
+import { crc32 } from './crc32'
+
+const SIGNATURE_LENGTH = 8
+const IHDR_END = SIGNATURE_LENGTH + 8 + 13 + 4 // 签名 + IHDR（长度、类型、13 字节数据、CRC）
+const INCHES_PER_METER = 39.3701
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const TEXT_CHUNK_TYPES = ['tEXt', 'zTXt', 'iTXt']
+
+const encoder = new TextEncoder()
+const utf8 = new TextDecoder()
+const latin1 = new TextDecoder('latin1')
+
+export type PngTextEntry = {
+  keyword: string // 1–79 个 Latin-1 字符
+  text: string
+  compress?: boolean
+}
+
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)
+
+/**
+ * 构造单个数据块：长度 + 类型 + 数据 + CRC（覆盖类型与数据）
+ */
+export const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(encoder.encode(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/**
+ * 列出所有数据块的类型与位置
+ */
+const readChunks = (png: Uint8Array) => {
+  if (!isPng(png)) return []
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const chunks: Array<{ type: string; start: number; end: number }> = []
+  let offset = SIGNATURE_LENGTH
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+    chunks.push({ type, start: offset, end: offset + 12 + length })
+    offset += 12 + length
+  }
+  return chunks
+}
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    output.set(part, offset)
+    offset += part.length
+  })
+  return output
+}
+
+/**
+ * 在 IHDR 之后插入数据块；replace 中列出的同类型块会先被移除
+ */
+export const insertPngChunks = (png: Uint8Array, chunks: Uint8Array[], replace: string[] = []) => {
+  const rest = readChunks(png)
+    .filter((chunk) => chunk.type !== 'IHDR' && !replace.includes(chunk.type))
+    .map((chunk) => png.subarray(chunk.start, chunk.end))
+  return concatBytes([png.subarray(0, IHDR_END), ...chunks, ...rest])
+}
+
+/**
+ * 写入 pHYs 物理像素密度，印刷软件据此识别 DPI
+ */
+export const setPngDpi = (png: Uint8Array, dpi: number) => {
+  const data = new Uint8Array(9)
+  const view = new DataView(data.buffer)
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER)
+  view.setUint32(0, pixelsPerMeter)
+  view.setUint32(4, pixelsPerMeter)
+  data[8] = 1 // 单位：米
+  return insertPngChunks(png, [pngChunk('pHYs', data)], ['pHYs'])
+}
+
+/**
+ * 文本块：纯 ASCII 且不压缩时写 tEXt，否则写 UTF-8 的 iTXt（可选 zlib 压缩）
+ */
+export const pngTextChunk = async ({ keyword, text, compress = false }: PngTextEntry) => {
+  const name = encoder.encode(keyword)
+  if (!compress && /^[\x20-\x7e\n]*$/.test(text)) {
+    return pngChunk('tEXt', concatBytes([name, new Uint8Array([0]), encoder.encode(text)]))
+  }
+  const body = compress ? await compressBytes(encoder.encode(text), 'deflate') : encoder.encode(text)
+  // keyword \0 压缩标志 压缩方法 语言标签 \0 翻译后的 keyword \0 文本
+  return pngChunk('iTXt', concatBytes([name, new Uint8Array([0, compress ? 1 : 0, 0, 0, 0]), body]))
+}
+
+/**
+ * 写入文本块，已有的 tEXt / zTXt / iTXt 会被替换
+ */
+export const setPngText = async (png: Uint8Array, entries: PngTextEntry[]) =>
+  insertPngChunks(png, await Promise.all(entries.map(pngTextChunk)), TEXT_CHUNK_TYPES)
+
+const readTextChunk = async (type: string, data: Uint8Array<ArrayBuffer>): Promise<[string, string] | null> => {
+  const keywordEnd = data.indexOf(0)
+  if (keywordEnd <= 0) return null
+  const keyword = latin1.decode(data.subarray(0, keywordEnd))
+  if (type === 'tEXt') return [keyword, latin1.decode(data.subarray(keywordEnd + 1))]
+  if (type === 'zTXt') return [keyword, latin1.decode(await decompressBytes(data.slice(keywordEnd + 2), 'deflate'))]
+
+  const compressed = data[keywordEnd + 1] === 1
+  const languageEnd = data.indexOf(0, keywordEnd + 3)
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1)
+  if (translatedEnd < 0) return null
+  const body = data.slice(translatedEnd + 1)
+  return [keyword, utf8.decode(compressed ? await decompressBytes(body, 'deflate') : body)]
+}
+
+/**
+ * 读取全部文本块；无法解压的块会被跳过
+ */
+export const readPngText = async (png: Uint8Array) => {
+  const entries: Record<string, string> = {}
+  for (const chunk of readChunks(png)) {
+    if (!TEXT_CHUNK_TYPES.includes(chunk.type)) continue
+    try {
+      const entry = await readTextChunk(chunk.type, png.slice(chunk.start + 8, chunk.end - 4))
+      if (entry) entries[entry[0]] = entry[1]
+    } catch {
+      // 损坏的压缩数据不影响其余文本块
+    }
+  }
+  return entries
+}
@@ -0,0 +1,92 @@
+import type { PaletteDefinition, PaletteGene } from '../types/palette'
+import { geneStories, getGeneCategories, getGenePathways } from '../data/geneKnowledge'
+
+// 用户改写的海报文字；空字符串表示沿用自动生成的内容
+export type PosterTextOverrides = {
+  title: string
+  story: string
+  footer: string
+}
+
+export const DEFAULT_POSTER_TEXT: PosterTextOverrides = { title: '', story: '', footer: '' }
+
+export type PosterContentInput = {
+  palette: PaletteGene[]
+  primaryGene: PaletteGene | null
+  modeName: string
+  scale?: PaletteDefinition
+  sampleName?: string
+  normalizationLabel: string
+  text?: PosterTextOverrides
+}
+
+export const colorSpaceLabels: Record<PaletteDefinition['interpolation'], string> = {
+  lrgb: 'Linear RGB',
+  lab: 'CIE Lab',
+  lch: 'LCH Perceptual',
+  hsl: 'HSL',
+}
+
+const withOverride = (custom: string | undefined, fallback: string) => (custom?.trim() ? custom.trim() : fallback)
+
+const formatCategory = (category: string) => category.replace(/[_\s]+/g, ' ')
+
+/**
+ * 海报文案与数据：HTML 预览与 SVG 导出共用，保证两者内容一致
+ */
+export const buildPosterContent = ({
+  palette,
+  primaryGene,
+  modeName,
+  scale,
+  sampleName,
+  normalizationLabel,
+  text,
+}: PosterContentInput) => {
+  const focusGene = primaryGene ?? palette[0] ?? null
+  const fallbackStory = '探索基因表达数据与视觉艺术的跨界融合'
+  const autoStory = focusGene ? geneStories[focusGene.symbol] ?? focusGene.description ?? fallbackStory : fallbackStory
+  const categories = focusGene ? getGeneCategories(focusGene.symbol).map(formatCategory) : []
+  const pathways = focusGene
+    ? getGenePathways(focusGene.symbol).map((pathway) => ({
+        name: pathway.name,
+        relatedGenes: pathway.genes.filter((g) => g !== focusGene.symbol),
+      }))
+    : []
+
+  // 生成洞察信息
+  const insights = [
+    `基因 ${focusGene?.symbol || 'N/A'} 在当前样本中呈 ${focusGene && focusGene.normalized > 0 ? '高表达' : '低表达'} 状态 (log2 = ${focusGene?.value.toFixed(2) || 'N/A'})`,
+    `该基因主要参与 ${categories.join(', ') || '多种生物学功能'}`,
+    pathways.length > 0 ? `与 ${pathways.map(p => p.name).join(', ')} 通路相关联` : '参与重要的细胞信号通路',
+    scale?.kind === 'bivariate'
+      ? `通过 ${modeName} 双变量模式，色相取自其主要功能类别、亮度对应表达强度，最终映射为 ${focusGene?.color.hex || '#ffffff'}`
+      : `通过 ${modeName} 调色模式，其表达强度被映射为 ${focusGene?.color.hex || '#ffffff'}`,
+  ]
+
+  const technicalDetails = [
+    { label: 'Palette Mode', value: modeName },
+    { label: 'Dataset Size', value: `${palette.length} genes` },
+    { label: 'Color Space', value: scale ? colorSpaceLabels[scale.interpolation] : 'LCH Perceptual' },
+    { label: 'Normalization', value: normalizationLabel },
+    ...(sampleName ? [{ label: 'Sample', value: sampleName }] : []),
+  ]
+
+  return {
+    focusGene,
+    title: withOverride(text?.title, focusGene ? `${focusGene.symbol} 表达谱艺术化研究` : 'Gene Expression Art Study'),
+    story: withOverride(text?.story, autoStory),
+    categories,
+    pathways,
+    // 图例占用一行色卡的高度
+    topPalette: palette.slice(0, scale ? 5 : 6),
+    insights,
+    technicalDetails,
+    footer: withOverride(
+      text?.footer,
+      `Generated by Gene Flux Palette • Transforming biological data into visual narratives • ${new Date().getFullYear()}`,
+    ),
+  }
+}
+
+export type PosterContent = ReturnType<typeof buildPosterContent>
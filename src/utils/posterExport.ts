@@ -0,0 +1,75 @@
+/**
+ * 印刷级海报导出：按纸张与 DPI 放大渲染，输出带 DPI 信息的 PNG 或单页 PDF
+ */
+
+import { toCanvas } from 'html-to-image'
+import { createImagePdf } from './pdf'
+import { setPngDpi } from './png'
+import { mmToPt, resolvePosterPage, type PosterPageSettings } from './posterPage'
+import { embedProvenance, type Provenance } from './provenance'
+
+const JPEG_QUALITY = 0.92
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('图像编码失败，可能超出浏览器内存限制'))
+          return
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject)
+      },
+      type,
+      quality,
+    )
+  })
+
+/**
+ * 按输出像素渲染海报节点；裁切线 / 安全线（data-print-guide）不进入成品
+ */
+const renderPoster = async (node: HTMLElement, settings: PosterPageSettings) => {
+  const layout = resolvePosterPage(settings)
+  if (!layout.withinCanvasLimit) {
+    throw new Error(
+      `输出尺寸 ${layout.pixels.width}×${layout.pixels.height} 像素超出浏览器画布上限，请降低 DPI 或选择更小的纸张`,
+    )
+  }
+  const canvas = await toCanvas(node, {
+    cacheBust: true,
+    backgroundColor: '#030712',
+    pixelRatio: layout.pixelRatio,
+    skipAutoScale: true,
+    filter: (domNode) => !(domNode instanceof HTMLElement && domNode.dataset.printGuide !== undefined),
+  })
+  return { canvas, layout }
+}
+
+export const exportPosterPng = async (node: HTMLElement, settings: PosterPageSettings, provenance?: Provenance) => {
+  const { canvas } = await renderPoster(node, settings)
+  try {
+    const png = setPngDpi(await canvasToBytes(canvas, 'image/png'), settings.dpi)
+    return new Blob([provenance ? await embedProvenance(png, provenance) : png], { type: 'image/png' })
+  } finally {
+    canvas.width = 0 // 尽早释放大画布占用的内存
+  }
+}
+
+export const exportPosterPdf = async (node: HTMLElement, settings: PosterPageSettings, title?: string) => {
+  const { canvas, layout } = await renderPoster(node, settings)
+  try {
+    const jpeg = await canvasToBytes(canvas, 'image/jpeg', JPEG_QUALITY)
+    const bleed = mmToPt(settings.bleedMm)
+    const trim = { width: mmToPt(layout.trimMm.width), height: mmToPt(layout.trimMm.height) }
+    return createImagePdf({
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      page: { width: trim.width + bleed * 2, height: trim.height + bleed * 2 },
+      trimBox: { x: bleed, y: bleed, ...trim },
+      title,
+    })
+  } finally {
+    canvas.width = 0
+  }
+}
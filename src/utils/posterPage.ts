@@ -0,0 +1,98 @@
+/**
+ * 海报纸张规格：成品尺寸、出血、安全边距与输出像素的换算
+ */
+
+export type PosterSizeId = 'a0' | 'a1' | 'a2' | 'a3' | 'a4' | 'letter' | 'arch-e' | 'slide'
+export type PosterOrientation = 'portrait' | 'landscape'
+export type PosterDpi = 150 | 300 | 600
+
+export type PosterPageSettings = {
+  size: PosterSizeId
+  orientation: PosterOrientation
+  dpi: PosterDpi
+  bleedMm: number // 每边出血
+  safeMm: number // 成品线向内的安全边距
+  showGuides: boolean // 仅预览显示，导出时忽略
+}
+
+type PosterSizeSpec = {
+  label: string
+  width: number // 单位 mm，方向由 orientation 决定
+  height: number
+  fixedOrientation?: PosterOrientation
+}
+
+export const posterSizes: Record<PosterSizeId, PosterSizeSpec> = {
+  a0: { label: 'A0 (841 × 1189 mm)', width: 841, height: 1189 },
+  a1: { label: 'A1 (594 × 841 mm)', width: 594, height: 841 },
+  a2: { label: 'A2 (420 × 594 mm)', width: 420, height: 594 },
+  a3: { label: 'A3 (297 × 420 mm)', width: 297, height: 420 },
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  letter: { label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+  'arch-e': { label: '36 × 48 in', width: 914.4, height: 1219.2 },
+  slide: { label: '16:9 slide (13.33 × 7.5 in)', width: 338.67, height: 190.5, fixedOrientation: 'landscape' },
+}
+
+export const posterDpiOptions: PosterDpi[] = [150, 300, 600]
+
+export const DEFAULT_POSTER_PAGE: PosterPageSettings = {
+  size: 'a1',
+  orientation: 'landscape',
+  dpi: 300,
+  bleedMm: 3,
+  safeMm: 10,
+  showGuides: true,
+}
+
+// 海报版式按屏幕像素设计，至少保证 1200 × 900 的排版空间
+const MIN_LAYOUT = { width: 1200, height: 900 }
+const MM_PER_INCH = 25.4
+
+// Chromium / Firefox 的画布上限；超出时 toBlob 会得到空白图像
+export const MAX_CANVAS_SIDE = 32767
+export const MAX_CANVAS_AREA = 268_435_456
+
+export type PosterPageLayout = {
+  trimMm: { width: number; height: number }
+  // 版式尺寸（CSS px），width / height 为成品尺寸，不含出血
+  width: number
+  height: number
+  bleed: number
+  safe: number
+  pixelRatio: number // 版式 px → 输出像素
+  pixels: { width: number; height: number } // 含出血的输出像素
+  withinCanvasLimit: boolean
+}
+
+export const resolvePosterPage = (settings: PosterPageSettings): PosterPageLayout => {
+  const spec = posterSizes[settings.size]
+  const orientation = spec.fixedOrientation ?? settings.orientation
+  const [short, long] = [Math.min(spec.width, spec.height), Math.max(spec.width, spec.height)]
+  const trimMm = orientation === 'portrait' ? { width: short, height: long } : { width: long, height: short }
+
+  const pxPerMm = Math.max(MIN_LAYOUT.width / trimMm.width, MIN_LAYOUT.height / trimMm.height)
+  const pixelRatio = settings.dpi / MM_PER_INCH / pxPerMm
+  const pixels = {
+    width: Math.round(((trimMm.width + settings.bleedMm * 2) * settings.dpi) / MM_PER_INCH),
+    height: Math.round(((trimMm.height + settings.bleedMm * 2) * settings.dpi) / MM_PER_INCH),
+  }
+
+  return {
+    trimMm,
+    width: trimMm.width * pxPerMm,
+    height: trimMm.height * pxPerMm,
+    bleed: settings.bleedMm * pxPerMm,
+    safe: settings.safeMm * pxPerMm,
+    pixelRatio,
+    pixels,
+    withinCanvasLimit:
+      pixels.width <= MAX_CANVAS_SIDE &&
+      pixels.height <= MAX_CANVAS_SIDE &&
+      pixels.width * pixels.height <= MAX_CANVAS_AREA,
+  }
+}
+
+/**
+ * mm → PDF 点（1/72 in）
+ */
+export const mmToPt = (mm: number) => (mm / MM_PER_INCH) * 72
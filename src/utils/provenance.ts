@@ -0,0 +1,132 @@
+/**
+ * 导出 PNG 的来源信息：写入 tEXt / iTXt 文本块，离开浏览器后仍能追溯数据、色阶与标准化流程
+ * 完整会话以压缩 iTXt 附在图像中，拖回应用即可恢复
+ */
+
+import type { PaletteGene } from '../types/palette'
+import { readPngText, setPngText, type PngTextEntry } from './png'
+import { parseSeed } from './random'
+import { parseSession, type SessionBundle, type SessionParseResult, type SourceFile } from './session'
+
+export const APP_VERSION = __APP_VERSION__
+
+const APP_NAME = 'Gene Flux Palette'
+
+// Software / Creation Time 为 PNG 规范中的标准关键字，其余为本应用自定义
+const KEYWORDS = {
+  software: 'Software',
+  createdAt: 'Creation Time',
+  fileName: 'Source File',
+  fileHash: 'Source SHA-256',
+  normalization: 'Normalization',
+  paletteMode: 'Palette Mode',
+  seed: 'Particle Seed',
+  colors: 'Gene Colors',
+  session: 'Gene Flux Session',
+} as const
+
+export type Provenance = {
+  appVersion: string
+  file: SourceFile | null
+  normalization: string
+  paletteMode: string
+  seed: number // 粒子布局种子
+  exportedAt: string
+  colors: Record<string, string> // 基因 symbol → 十六进制颜色
+  session: SessionBundle | null
+}
+
+export type ProvenanceInput = {
+  palette: PaletteGene[]
+  paletteMode: string
+  normalization: string
+  session: SessionBundle
+}
+
+export type ReadProvenance = Partial<Omit<Provenance, 'session'>> & {
+  session: SessionParseResult | null // null 表示图像中没有附带会话
+}
+
+export type ProvenanceReadResult = { ok: true; provenance: ReadProvenance } | { ok: false; error: string }
+
+export const createProvenance = ({ palette, paletteMode, normalization, session }: ProvenanceInput): Provenance => ({
+  appVersion: APP_VERSION,
+  file: session.dataset.file,
+  normalization,
+  paletteMode,
+  seed: session.particleSeed,
+  exportedAt: new Date().toISOString(),
+  colors: Object.fromEntries(palette.map((gene) => [gene.symbol, gene.color.hex])),
+  session,
+})
+
+export const hashSourceFile = async (file: File): Promise<SourceFile> => {
+  // crypto.subtle 仅在 HTTPS / localhost 下可用
+  if (!globalThis.crypto?.subtle) return { name: file.name, sha256: null }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))
+  return {
+    name: file.name,
+    sha256: Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join(''),
+  }
+}
+
+const toTextEntries = (provenance: Provenance): PngTextEntry[] => [
+  { keyword: KEYWORDS.software, text: `${APP_NAME} ${provenance.appVersion}` },
+  { keyword: KEYWORDS.createdAt, text: provenance.exportedAt },
+  ...(provenance.file
+    ? [
+        { keyword: KEYWORDS.fileName, text: provenance.file.name },
+        ...(provenance.file.sha256 ? [{ keyword: KEYWORDS.fileHash, text: provenance.file.sha256 }] : []),
+      ]
+    : []),
+  { keyword: KEYWORDS.normalization, text: provenance.normalization },
+  { keyword: KEYWORDS.paletteMode, text: provenance.paletteMode },
+  { keyword: KEYWORDS.seed, text: String(provenance.seed) },
+  { keyword: KEYWORDS.colors, text: JSON.stringify(provenance.colors), compress: true },
+  ...(provenance.session
+    ? [{ keyword: KEYWORDS.session, text: JSON.stringify(provenance.session), compress: true }]
+    : []),
+]
+
+export const embedProvenance = (png: Uint8Array, provenance: Provenance) => setPngText(png, toTextEntries(provenance))
+
+const readColors = (text: string | undefined) => {
+  if (!text) return undefined
+  try {
+    const raw: unknown = JSON.parse(text)
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return undefined
+    return Object.fromEntries(
+      Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+    )
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * 从 PNG 中读取来源信息；不是本应用导出的图像时返回错误
+ */
+export const readProvenance = async (png: Uint8Array): Promise<ProvenanceReadResult> => {
+  const text = await readPngText(png)
+  const software = text[KEYWORDS.software]
+  if (!software?.startsWith(APP_NAME)) {
+    return { ok: false, error: '图像中没有 Gene Flux Palette 的来源信息（可能不是本应用导出的 PNG，或已被其他软件重新保存）' }
+  }
+  const fileName = text[KEYWORDS.fileName]
+  const fileHash = text[KEYWORDS.fileHash]
+  const session = text[KEYWORDS.session]
+  const seed = parseSeed(text[KEYWORDS.seed] ?? '')
+  return {
+    ok: true,
+    provenance: {
+      appVersion: software.slice(APP_NAME.length).trim() || undefined,
+      file: fileName ? { name: fileName, sha256: fileHash ?? null } : null,
+      normalization: text[KEYWORDS.normalization],
+      paletteMode: text[KEYWORDS.paletteMode],
+      seed: seed ?? undefined,
+      exportedAt: text[KEYWORDS.createdAt],
+      colors: readColors(text[KEYWORDS.colors]),
+      session: session ? parseSession(session) : null,
+    },
+  }
+}
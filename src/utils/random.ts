@@ -0,0 +1,25 @@
+/**
+ * 可复现的伪随机数：mulberry32，32 位种子，输出 [0, 1)
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0
+
+/**
+ * 解析用户输入的种子：0 到 2^32 - 1 的整数，否则返回 null
+ */
+export const parseSeed = (text: string) => {
+  const trimmed = text.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const seed = Number(trimmed)
+  return seed <= 0xffffffff ? seed : null
+}
@@ -0,0 +1,352 @@
+/**
+ * 会话文件：序列化数据集、标准化、色阶、选中基因、海报文字、粒子布局与种子，重新导入即可恢复同一视图
+ * 文件带 schema 版本号，旧版本按 migrations 逐级升级后再读取
+ */
+
+import type { GeneExpression } from '../data/sampleGenes'
+import type { DifferentialGene, SignificanceStatistic } from '../types/differential'
+import type { ExpressionMatrix, MatrixGene } from '../types/matrix'
+import type { PaletteDefinition } from '../types/palette'
+import type { TimelineData, TimePoint } from '../types/timeline'
+import { builtinPalettes, readPaletteDefinition } from './color'
+import { cvdLabels, type CvdType } from './cvd'
+import { inferSignificanceStatistic } from './differential'
+import {
+  DEFAULT_NORMALIZATION,
+  scaleLabels,
+  transformLabels,
+  type CountTransform,
+  type NormalizationSettings,
+  type ScaleMethod,
+} from './normalization'
+import { particleLayouts, type ParticleLayoutId } from './particleLayout'
+import { DEFAULT_POSTER_TEXT, type PosterTextOverrides } from './posterContent'
+import {
+  DEFAULT_POSTER_PAGE,
+  posterDpiOptions,
+  posterSizes,
+  type PosterDpi,
+  type PosterPageSettings,
+  type PosterSizeId,
+} from './posterPage'
+import { randomSeed } from './random'
+
+export const SESSION_FORMAT = 'gene-flux-palette/session'
+export const SESSION_VERSION = 1
+
+export type DataSource = 'sample' | 'custom' | 'de'
+export type TimelineSource = 'sample1' | 'sample2' | 'custom'
+
+// 上传的原始文件，用于追溯导出图像的来源
+export type SourceFile = {
+  name: string
+  sha256: string | null // 非安全上下文（非 HTTPS）下无法计算
+}
+
+export type SessionState = {
+  dataset: {
+    source: DataSource
+    matrix: ExpressionMatrix | null // 上传的表达矩阵 / 单样本 CSV
+    sampleIndex: number
+    differential: DifferentialGene[]
+    statistic: SignificanceStatistic // 差异表达数据判断显著性所用的统计量
+    file: SourceFile | null
+  }
+  normalization: NormalizationSettings
+  palette: {
+    mode: string
+    definition: PaletteDefinition | null // 自定义色阶的完整定义，内置色阶为 null
+  }
+  selectedGene: string | null
+  poster: {
+    text: PosterTextOverrides
+    page: PosterPageSettings
+  }
+  timeline: {
+    source: TimelineSource
+    custom: TimelineData | null
+  }
+  view: {
+    cvdSimulation: CvdType
+    particleLayout: ParticleLayoutId
+    timelineLayout: ParticleLayoutId
+  }
+  particleSeed: number
+}
+
+export type SessionBundle = SessionState & {
+  format: typeof SESSION_FORMAT
+  version: typeof SESSION_VERSION
+  savedAt: string
+}
+
+export type SessionParseResult = { ok: true; session: SessionBundle } | { ok: false; error: string }
+
+type RawRecord = Record<string, unknown>
+
+export const createSession = (state: SessionState): SessionBundle => ({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state,
+})
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const oneOf = <T extends string | number>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const optionalNumber = (value: unknown) => (isFiniteNumber(value) ? value : null)
+
+/**
+ * 读取数组中的每一项，任一项无效则整体视为无效
+ */
+const readList = <T>(raw: unknown, read: (item: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(raw)) return null
+  const items = raw.map(read)
+  return items.every((item): item is T => item !== null) ? items : null
+}
+
+const readGene = (raw: unknown): GeneExpression | null => {
+  if (!isRecord(raw) || typeof raw.symbol !== 'string' || !isFiniteNumber(raw.value)) return null
+  return {
+    symbol: raw.symbol,
+    value: raw.value,
+    description: optionalString(raw.description),
+    originalId: optionalString(raw.originalId),
+    length: isFiniteNumber(raw.length) ? raw.length : undefined,
+  }
+}
+
+const readMatrix = (raw: unknown): ExpressionMatrix | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.samples) || !raw.samples.every((sample) => typeof sample === 'string')) {
+    return null
+  }
+  const sampleCount = raw.samples.length
+  const genes = readList<MatrixGene>(raw.genes, (item) => {
+    if (!isRecord(item) || typeof item.symbol !== 'string') return null
+    const values = readList(item.values, (value) => (isFiniteNumber(value) ? value : null))
+    if (!values || values.length !== sampleCount) return null
+    return {
+      symbol: item.symbol,
+      values,
+      description: optionalString(item.description),
+      originalId: optionalString(item.originalId),
+      length: isFiniteNumber(item.length) ? item.length : undefined,
+    }
+  })
+  if (!genes || !genes.length || !sampleCount) return null
+  return { layout: raw.layout === 'matrix' ? 'matrix' : 'single', samples: raw.samples as string[], genes }
+}
+
+const readDifferential = (raw: unknown): DifferentialGene | null => {
+  const gene = readGene(raw)
+  if (!gene || !isRecord(raw) || !isFiniteNumber(raw.log2FoldChange)) return null
+  return {
+    ...gene,
+    log2FoldChange: raw.log2FoldChange,
+    pvalue: optionalNumber(raw.pvalue),
+    padj: optionalNumber(raw.padj),
+    baseMean: optionalNumber(raw.baseMean),
+  }
+}
+
+const readSourceFile = (raw: unknown): SourceFile | null =>
+  isRecord(raw) && typeof raw.name === 'string'
+    ? { name: raw.name, sha256: optionalString(raw.sha256) ?? null }
+    : null
+
+const readTimeline = (raw: unknown): TimelineData | null => {
+  if (!isRecord(raw) || typeof raw.title !== 'string' || !isFiniteNumber(raw.totalDuration)) return null
+  const timePoints = readList<TimePoint>(raw.timePoints, (item) => {
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.label !== 'string' || !isFiniteNumber(item.timestamp)) {
+      return null
+    }
+    const genes = readList(item.genes, readGene)
+    return genes ? { id: item.id, label: item.label, timestamp: item.timestamp, genes } : null
+  })
+  if (!timePoints || !timePoints.length) return null
+  return {
+    title: raw.title,
+    description: optionalString(raw.description) ?? '',
+    timePoints,
+    totalDuration: raw.totalDuration,
+  }
+}
+
+const readNormalization = (raw: unknown): NormalizationSettings => {
+  const record = isRecord(raw) ? raw : {}
+  return {
+    transform: oneOf(record.transform, Object.keys(transformLabels) as CountTransform[], DEFAULT_NORMALIZATION.transform),
+    log2: typeof record.log2 === 'boolean' ? record.log2 : DEFAULT_NORMALIZATION.log2,
+    pseudoCount:
+      isFiniteNumber(record.pseudoCount) && record.pseudoCount > 0 ? record.pseudoCount : DEFAULT_NORMALIZATION.pseudoCount,
+    quantile: typeof record.quantile === 'boolean' ? record.quantile : DEFAULT_NORMALIZATION.quantile,
+    scale: oneOf(record.scale, Object.keys(scaleLabels) as ScaleMethod[], DEFAULT_NORMALIZATION.scale),
+  }
+}
+
+const readPosterText = (raw: unknown): PosterTextOverrides => {
+  const record = isRecord(raw) ? raw : {}
+  return {
+    title: optionalString(record.title) ?? DEFAULT_POSTER_TEXT.title,
+    story: optionalString(record.story) ?? DEFAULT_POSTER_TEXT.story,
+    footer: optionalString(record.footer) ?? DEFAULT_POSTER_TEXT.footer,
+  }
+}
+
+const readPosterPage = (raw: unknown): PosterPageSettings => {
+  const record = isRecord(raw) ? raw : {}
+  const millimeters = (value: unknown, fallback: number, max: number) =>
+    isFiniteNumber(value) && value >= 0 && value <= max ? value : fallback
+  return {
+    size: oneOf(record.size, Object.keys(posterSizes) as PosterSizeId[], DEFAULT_POSTER_PAGE.size),
+    orientation: oneOf(record.orientation, ['portrait', 'landscape'] as const, DEFAULT_POSTER_PAGE.orientation),
+    dpi: oneOf(record.dpi, posterDpiOptions as PosterDpi[], DEFAULT_POSTER_PAGE.dpi),
+    bleedMm: millimeters(record.bleedMm, DEFAULT_POSTER_PAGE.bleedMm, 10),
+    safeMm: millimeters(record.safeMm, DEFAULT_POSTER_PAGE.safeMm, 50),
+    showGuides: typeof record.showGuides === 'boolean' ? record.showGuides : DEFAULT_POSTER_PAGE.showGuides,
+  }
+}
+
+/**
+ * 读取当前版本的会话；数据集结构错误时返回错误信息，其余设置缺失时回退到默认值
+ */
+const readSession = (raw: RawRecord): SessionParseResult => {
+  const dataset = isRecord(raw.dataset) ? raw.dataset : {}
+  const source = oneOf(dataset.source, ['sample', 'custom', 'de'] as const, 'sample')
+  const matrix = dataset.matrix == null ? null : readMatrix(dataset.matrix)
+  if (dataset.matrix != null && !matrix) return { ok: false, error: '会话中的表达矩阵格式无效' }
+  if (source === 'custom' && !matrix) return { ok: false, error: '会话缺少自定义表达矩阵' }
+  const differential = dataset.differential == null ? [] : readList(dataset.differential, readDifferential)
+  if (!differential) return { ok: false, error: '会话中的差异表达结果格式无效' }
+  if (source === 'de' && !differential.length) return { ok: false, error: '会话缺少差异表达结果' }
+
+  const timeline = isRecord(raw.timeline) ? raw.timeline : {}
+  const customTimeline = timeline.custom == null ? null : readTimeline(timeline.custom)
+  if (timeline.custom != null && !customTimeline) return { ok: false, error: '会话中的时间线数据格式无效' }
+  const timelineSource = oneOf(timeline.source, ['sample1', 'sample2', 'custom'] as const, 'sample1')
+
+  const palette = isRecord(raw.palette) ? raw.palette : {}
+  const definition = palette.definition == null ? null : readPaletteDefinition(palette.definition)
+  if (palette.definition != null && !definition) return { ok: false, error: '会话中的自定义色阶无效' }
+  const mode = typeof palette.mode === 'string' ? palette.mode : builtinPalettes[0].id
+
+  const poster = isRecord(raw.poster) ? raw.poster : {}
+  const view = isRecord(raw.view) ? raw.view : {}
+  const sampleIndex = isFiniteNumber(dataset.sampleIndex) ? Math.floor(dataset.sampleIndex) : 0
+  const layoutIds = Object.keys(particleLayouts) as ParticleLayoutId[]
+
+  return {
+    ok: true,
+    session: {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      savedAt: optionalString(raw.savedAt) ?? new Date().toISOString(),
+      dataset: {
+        source,
+        matrix,
+        sampleIndex: matrix ? Math.min(Math.max(sampleIndex, 0), matrix.samples.length - 1) : 0,
+        differential,
+        statistic: oneOf(dataset.statistic, ['padj', 'pvalue'] as const, inferSignificanceStatistic(differential)),
+        file: readSourceFile(dataset.file),
+      },
+      normalization: readNormalization(raw.normalization),
+      palette: { mode, definition },
+      selectedGene: optionalString(raw.selectedGene) ?? null,
+      poster: { text: readPosterText(poster.text), page: readPosterPage(poster.page) },
+      timeline: {
+        source: timelineSource === 'custom' && !customTimeline ? 'sample1' : timelineSource,
+        custom: customTimeline,
+      },
+      view: {
+        cvdSimulation: oneOf(view.cvdSimulation, Object.keys(cvdLabels) as CvdType[], 'none'),
+        particleLayout: oneOf(view.particleLayout, layoutIds, 'ring'),
+        timelineLayout: oneOf(view.timelineLayout, layoutIds, 'ring'),
+      },
+      particleSeed: isFiniteNumber(raw.particleSeed) ? raw.particleSeed >>> 0 : randomSeed(),
+    },
+  }
+}
+
+/**
+ * v0：会话文件出现之前的 “Export palette JSON”（{ meta, genes }），升级为只含单样本数据的会话
+ */
+const migrateFromPalettePayload = (raw: RawRecord): RawRecord => {
+  const meta = isRecord(raw.meta) ? raw.meta : {}
+  const genes = Array.isArray(raw.genes) ? raw.genes.filter(isRecord) : []
+  const palette = isRecord(meta.palette) ? meta.palette : null
+  const builtin = builtinPalettes.find((p) => p.id === palette?.id || p.name === meta.paletteMode)
+  // 差异表达数据导出时 normalizationSettings 为 null，value 即 log2FC
+  const differential = meta.normalizationSettings === null
+
+  return {
+    format: SESSION_FORMAT,
+    version: 1,
+    savedAt: meta.exportedAt,
+    dataset: differential
+      ? {
+          source: 'de',
+          matrix: null,
+          sampleIndex: 0,
+          differential: genes.map((gene) => ({ symbol: gene.symbol, value: gene.value, log2FoldChange: gene.value })),
+        }
+      : {
+          source: 'custom',
+          matrix: {
+            layout: 'single',
+            samples: [typeof meta.sample === 'string' ? meta.sample : 'value'],
+            genes: genes.map((gene) => ({ symbol: gene.symbol, values: [gene.value] })),
+          },
+          sampleIndex: 0,
+          differential: [],
+        },
+    normalization: meta.normalizationSettings,
+    palette: {
+      mode: builtin?.id ?? palette?.id,
+      definition: builtin || !palette ? null : palette,
+    },
+    particleSeed: meta.seed,
+  }
+}
+
+// key 为升级前的版本号
+const migrations: Record<number, (raw: RawRecord) => RawRecord> = {
+  0: migrateFromPalettePayload,
+}
+
+const detectVersion = (raw: RawRecord) => {
+  if (raw.format === SESSION_FORMAT) return isFiniteNumber(raw.version) ? raw.version : null
+  if (isRecord(raw.meta) && Array.isArray(raw.genes)) return 0
+  return null
+}
+
+export const parseSession = (text: string): SessionParseResult => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, error: '会话文件不是有效的 JSON' }
+  }
+  if (!isRecord(raw)) return { ok: false, error: '会话文件格式无效' }
+
+  let version = detectVersion(raw)
+  if (version === null) return { ok: false, error: '无法识别的文件：既不是会话文件，也不是导出的调色板 JSON' }
+  if (version > SESSION_VERSION) {
+    return { ok: false, error: `会话文件版本 v${version} 高于当前应用支持的 v${SESSION_VERSION}，请更新应用后再导入` }
+  }
+
+  let current: RawRecord = raw
+  while (version < SESSION_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) return { ok: false, error: `缺少 v${version} 会话的升级步骤` }
+    current = migrate(current)
+    version++
+  }
+  return readSession(current)
+}
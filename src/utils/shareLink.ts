@@ -0,0 +1,123 @@
+/**
+ * 分享链接：把会话压缩后写入 URL 片段（#），打开链接即恢复同一视图，不经过服务器
+ * 数据集过大时退化为只含当前样本基因列表的精简会话
+ */
+
+import type { ExpressionMatrix } from '../types/matrix'
+import { compressBytes, decompressBytes, supportsCompression } from './compression'
+import { getSampleGenes } from './matrix'
+import { parseSession, type SessionBundle, type SessionParseResult } from './session'
+
+const SHARE_PARAM = 's'
+
+// 超过此长度的链接在聊天工具、邮件客户端中容易被截断
+export const MAX_SHARE_URL_LENGTH = 8000
+
+export type ShareScope = 'full' | 'genes'
+
+export type ShareLinkResult =
+  | { ok: true; url: string; scope: ShareScope }
+  | { ok: false; error: string }
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// 载荷首字符标记编码方式：z = deflate-raw 压缩，j = 未压缩 JSON（浏览器不支持 CompressionStream 时）
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0))
+
+const encodePayload = async (session: SessionBundle) => {
+  const json = encoder.encode(JSON.stringify(session))
+  return supportsCompression()
+    ? `z${toBase64Url(await compressBytes(json, 'deflate-raw'))}`
+    : `j${toBase64Url(json)}`
+}
+
+const decodePayload = async (payload: string) => {
+  const bytes = fromBase64Url(payload.slice(1))
+  if (payload[0] === 'j') return decoder.decode(bytes)
+  if (payload[0] !== 'z') throw new Error(`unknown share encoding: ${payload[0]}`)
+  return decoder.decode(await decompressBytes(bytes, 'deflate-raw'))
+}
+
+/**
+ * 精简会话：只保留当前样本 / 差异表达的基因列表，去掉描述、其他样本与自定义时间线
+ * 数值保留 4 位有效数字以提高压缩率；多样本矩阵的分位数标准化依赖全部样本，精简后颜色可能略有差异
+ */
+const compact = (value: number) => Number(value.toPrecision(4))
+
+const compactNullable = (value: number | null) => (value === null ? null : compact(value))
+
+const toGeneListSession = (session: SessionBundle): SessionBundle => {
+  const { dataset, timeline } = session
+  const matrix: ExpressionMatrix | null =
+    dataset.source === 'custom' && dataset.matrix
+      ? {
+          layout: 'single',
+          samples: [dataset.matrix.samples[dataset.sampleIndex] ?? 'value'],
+          genes: getSampleGenes(dataset.matrix, dataset.sampleIndex).map(({ symbol, value, length }) => ({
+            symbol,
+            values: [compact(value)],
+            ...(length ? { length } : {}),
+          })),
+        }
+      : null
+  return {
+    ...session,
+    dataset: {
+      source: dataset.source,
+      matrix,
+      sampleIndex: 0,
+      differential: dataset.differential.map(({ symbol, value, log2FoldChange, pvalue, padj, baseMean }) => ({
+        symbol,
+        value: compact(value),
+        log2FoldChange: compact(log2FoldChange),
+        pvalue: compactNullable(pvalue),
+        padj: compactNullable(padj),
+        baseMean: compactNullable(baseMean),
+      })),
+      statistic: dataset.statistic,
+      file: dataset.file,
+    },
+    timeline: { source: timeline.source === 'custom' ? 'sample1' : timeline.source, custom: null },
+  }
+}
+
+const withHash = (baseUrl: string, payload: string) => `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${payload}`
+
+export const buildShareLink = async (session: SessionBundle, baseUrl: string): Promise<ShareLinkResult> => {
+  const fullUrl = withHash(baseUrl, await encodePayload(session))
+  if (fullUrl.length <= MAX_SHARE_URL_LENGTH) return { ok: true, url: fullUrl, scope: 'full' }
+
+  const genesUrl = withHash(baseUrl, await encodePayload(toGeneListSession(session)))
+  if (genesUrl.length <= MAX_SHARE_URL_LENGTH) return { ok: true, url: genesUrl, scope: 'genes' }
+
+  return { ok: false, error: `数据集过大（压缩后约 ${genesUrl.length} 字符），请改用“保存会话”导出文件分享` }
+}
+
+/**
+ * 读取 URL 片段中的分享会话；片段中没有分享参数时返回 null
+ */
+export const readShareHash = async (hash: string): Promise<SessionParseResult | null> => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM)
+  if (!payload) return null
+  if (payload.startsWith('z') && !supportsCompression()) {
+    return { ok: false, error: '当前浏览器不支持解压分享链接，请升级浏览器后重试' }
+  }
+  let text: string
+  try {
+    text = await decodePayload(payload)
+  } catch {
+    return { ok: false, error: '分享链接已损坏或被截断，请确认复制了完整的链接' }
+  }
+  return parseSession(text)
+}
@@ -0,0 +1,464 @@
+/**
+ * 矢量导出：粒子画布与科研海报直接拼装为 SVG，文字保持可编辑
+ * 不经过 html-to-image 光栅化，可在 Illustrator / Inkscape 中继续排版
+ */
+
+import type { PaletteDefinition } from '../types/palette'
+import { mapValueToColor } from './color'
+import { buildLegendTicks, countOutOfDomain, formatLegendTick, type LegendSample } from './legend'
+import { escapeXml } from './paletteFormats'
+import type { PosterContent } from './posterContent'
+
+export type ParticleSnapshot = {
+  symbol: string
+  x: number
+  y: number
+  radius: number // 绘制半径（已应用最小半径）
+  labelOffset: number // 标签基线相对圆心的偏移
+  color: string
+  glow: number // 对应画布 shadowBlur
+  selected: boolean
+}
+
+export type PathwayLinkSnapshot = {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  opacity: number
+}
+
+export type ParticleSceneSnapshot = {
+  width: number
+  height: number
+  spacing: number // 模拟的间距系数（基因很多时小于 1），见 particleSimulation
+  particles: ParticleSnapshot[]
+  links: PathwayLinkSnapshot[]
+}
+
+export type SvgLegendOptions = {
+  palette: PaletteDefinition
+  samples: LegendSample[]
+  normalizedLabel?: string
+  unitLabel?: string
+}
+
+const SANS_FONT = "'Space Grotesk', system-ui, -apple-system, 'Segoe UI', sans-serif"
+const MONO_FONT = "'JetBrains Mono', ui-monospace, SFMono-Regular, monospace"
+const LEGEND_HEIGHT = 92
+const LEGEND_GRADIENT_STEPS = 24
+
+const round = (value: number) => Number(value.toFixed(2))
+
+const svgDocument = (width: number, height: number, body: string[]) =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${SANS_FONT}">`,
+    ...body,
+    `</svg>`,
+  ].join('\n')
+
+type TextOptions = {
+  size: number
+  fill: string
+  weight?: number
+  anchor?: 'start' | 'middle' | 'end'
+  mono?: boolean
+  opacity?: number
+  letterSpacing?: number
+}
+
+const textAttributes = (x: number, y: number, options: TextOptions) =>
+  [
+    `x="${round(x)}"`,
+    `y="${round(y)}"`,
+    `font-size="${options.size}"`,
+    `fill="${options.fill}"`,
+    options.weight ? `font-weight="${options.weight}"` : '',
+    options.anchor && options.anchor !== 'start' ? `text-anchor="${options.anchor}"` : '',
+    options.mono ? `font-family="${MONO_FONT}"` : '',
+    options.opacity !== undefined ? `fill-opacity="${options.opacity}"` : '',
+    options.letterSpacing ? `letter-spacing="${options.letterSpacing}"` : '',
+  ]
+    .filter(Boolean)
+    .join(' ')
+
+const text = (x: number, y: number, content: string, options: TextOptions) =>
+  `<text ${textAttributes(x, y, options)}>${escapeXml(content)}</text>`
+
+// 无法在纯函数中测量字体，按字符类型估算宽度：中日韩字符 1em，其余约 0.56em
+const WIDE_CHAR = /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]/
+const isWide = (char: string) => WIDE_CHAR.test(char)
+const estimateWidth = (content: string, size: number) =>
+  Array.from(content).reduce((sum, char) => sum + (isWide(char) ? 1 : 0.56), 0) * size
+
+/**
+ * 按估算宽度折行：英文按单词，中文按字符
+ */
+const wrapText = (content: string, maxWidth: number, size: number) => {
+  const tokens = content.match(/[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]+\s*|\s+/g) ?? []
+  const lines: string[] = []
+  let line = ''
+  tokens.forEach((token) => {
+    if (line && estimateWidth((line + token).trimEnd(), size) > maxWidth) {
+      lines.push(line.trimEnd())
+      line = token.trimStart()
+    } else {
+      line += token
+    }
+  })
+  if (line.trim()) lines.push(line.trimEnd())
+  return lines
+}
+
+/**
+ * 多行文字：每行一个 tspan，在编辑软件中仍是同一个文本对象
+ */
+const paragraph = (x: number, y: number, lines: string[], lineHeight: number, options: TextOptions) => {
+  const spans = lines.map(
+    (line, idx) => `<tspan x="${round(x)}" dy="${idx === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`,
+  )
+  return `<text ${textAttributes(x, y, options)}>${spans.join('')}</text>`
+}
+
+/**
+ * 径向渐变光晕：近似画布的 shadowBlur，导入设计软件后仍是可编辑的渐变而非滤镜
+ */
+const glowGradient = (id: string, color: string, innerRatio: number, opacity: number) =>
+  [
+    `<radialGradient id="${id}">`,
+    `<stop offset="${round(innerRatio)}" stop-color="${color}" stop-opacity="${opacity}"/>`,
+    `<stop offset="1" stop-color="${color}" stop-opacity="0"/>`,
+    `</radialGradient>`,
+  ].join('')
+
+/**
+ * 色条图例（与 ColorLegend 组件版式一致），返回 defs 与图形两部分
+ */
+const legendGroup = (
+  { palette, samples, normalizedLabel = 'normalized', unitLabel = 'value' }: SvgLegendOptions,
+  x: number,
+  y: number,
+  width: number,
+  id: string,
+) => {
+  const [min, max] = palette.domain
+  const ticks = buildLegendTicks(palette, samples)
+  const outside = countOutOfDomain(palette, samples)
+  const marked = palette.clamp === 'mark'
+  const stops = Array.from({ length: LEGEND_GRADIENT_STEPS }, (_, idx) => {
+    const t = idx / (LEGEND_GRADIENT_STEPS - 1)
+    return `<stop offset="${round(t)}" stop-color="${mapValueToColor(min + (max - min) * t, palette).hex}"/>`
+  })
+  const defs = `<linearGradient id="${id}" x1="0" x2="1" y1="0" y2="0">${stops.join('')}</linearGradient>`
+
+  const inner = { left: x + 12, right: x + width - 12 }
+  const bar = { left: inner.left + 20, right: inner.right - 20, y: y + 30 }
+  const endCap = (capX: number, side: 'low' | 'high') =>
+    marked
+      ? `<rect x="${round(capX)}" y="${bar.y}" width="16" height="12" fill="${palette.outOfRangeColor}"/>`
+      : text(capX + 8, bar.y + 10, side === 'low' ? '◀' : '▶', { size: 9, fill: '#cbd5e1', anchor: 'middle' })
+
+  const outsideCount = outside.below + outside.above
+  const shapes = [
+    `<g id="${id}-legend">`,
+    `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${LEGEND_HEIGHT}" rx="12" fill="#020617" fill-opacity="0.8" stroke="#ffffff" stroke-opacity="0.1"/>`,
+    text(inner.left, y + 20, palette.name, { size: 10, fill: '#e2e8f0', weight: 500 }),
+    text(
+      inner.right,
+      y + 20,
+      palette.kind === 'bivariate' ? 'lightness = expression · hue = category' : normalizedLabel,
+      { size: 10, fill: '#94a3b8', anchor: 'end' },
+    ),
+    endCap(inner.left, 'low'),
+    `<rect x="${round(bar.left)}" y="${bar.y}" width="${round(bar.right - bar.left)}" height="12" rx="2" fill="url(#${id})"/>`,
+    endCap(inner.right - 16, 'high'),
+    ...ticks.flatMap((tick) => {
+      const tickX = bar.left + (bar.right - bar.left) * tick.position
+      return [
+        text(tickX, y + 58, formatLegendTick(tick.normalized), { size: 10, fill: '#e2e8f0', anchor: 'middle', mono: true }),
+        text(tickX, y + 70, formatLegendTick(tick.original), { size: 10, fill: '#94a3b8', anchor: 'middle', mono: true }),
+      ]
+    }),
+    text(inner.left, y + 84, `上行 ${normalizedLabel} · 下行 ${unitLabel}`, { size: 10, fill: '#94a3b8' }),
+    outsideCount > 0
+      ? text(
+          inner.right,
+          y + 84,
+          `${outsideCount} 个值超出 [${min}, ${max}]${marked ? '，已单独标记' : '，已钳制到两端颜色'}`,
+          { size: 10, fill: '#fcd34d', anchor: 'end' },
+        )
+      : '',
+    `</g>`,
+  ].filter(Boolean)
+
+  return { defs, shapes }
+}
+
+export type ParticleSvgOptions = {
+  legend?: SvgLegendOptions
+  caption?: string // 左下角标注，例如 "Aurora Flux · Z-Score"
+}
+
+/**
+ * 粒子画布 → SVG：通路连线、光晕、粒子、标签分图层输出
+ */
+export const particleSceneToSvg = (scene: ParticleSceneSnapshot, { legend, caption }: ParticleSvgOptions = {}) => {
+  const { width, height, particles, links } = scene
+  const defs: string[] = particles.map((particle, idx) =>
+    glowGradient(`glow-${idx}`, particle.color, particle.radius / (particle.radius + particle.glow), 0.6),
+  )
+  const legendWidth = Math.min(288, width - 32)
+  const legendParts = legend
+    ? legendGroup(legend, width - legendWidth - 16, height - LEGEND_HEIGHT - 16, legendWidth, 'art-legend-gradient')
+    : null
+  if (legendParts) defs.push(legendParts.defs)
+
+  const body = [
+    `<defs>${defs.join('')}</defs>`,
+    `<rect width="${width}" height="${height}" fill="#030712"/>`,
+    `<rect width="${width}" height="${height}" rx="16" fill="#0f172a" fill-opacity="0.6" stroke="#ffffff" stroke-opacity="0.1"/>`,
+    `<g id="pathway-links" stroke="#7f5af0" stroke-width="1">`,
+    ...links.map(
+      (link) =>
+        `<line x1="${round(link.x1)}" y1="${round(link.y1)}" x2="${round(link.x2)}" y2="${round(link.y2)}" stroke-opacity="${round(link.opacity)}"/>`,
+    ),
+    `</g>`,
+    `<g id="glow">`,
+    ...particles.map(
+      (particle, idx) =>
+        `<circle cx="${round(particle.x)}" cy="${round(particle.y)}" r="${round(particle.radius + particle.glow)}" fill="url(#glow-${idx})"/>`,
+    ),
+    `</g>`,
+    `<g id="particles">`,
+    ...particles.flatMap((particle) => {
+      const circle = `<circle cx="${round(particle.x)}" cy="${round(particle.y)}" r="${round(particle.radius)}" fill="${particle.color}"`
+      return particle.selected
+        ? [
+            `${circle} stroke="#00ffd0" stroke-width="3"/>`,
+            `<circle cx="${round(particle.x)}" cy="${round(particle.y)}" r="${round(particle.radius + 4)}" fill="none" stroke="#00ffd0" stroke-opacity="0.3" stroke-width="2"/>`,
+          ]
+        : [`${circle} stroke="#ffffff" stroke-opacity="0.4" stroke-width="1.5"/>`]
+    }),
+    `</g>`,
+    `<g id="labels">`,
+    ...particles.map((particle) =>
+      text(particle.x, particle.y + particle.labelOffset, particle.symbol, {
+        size: 10,
+        fill: '#ffffff',
+        opacity: 0.9,
+        anchor: 'middle',
+        mono: true,
+      }),
+    ),
+    `</g>`,
+    caption ? text(24, height - 20, caption, { size: 11, fill: '#64748b', mono: true }) : '',
+    ...(legendParts?.shapes ?? []),
+  ].filter(Boolean)
+
+  return svgDocument(width, height, body)
+}
+
+const POSTER = { width: 1200, height: 900, padding: 40, gap: 32, panelPadding: 24, panelGap: 24 }
+
+const panelRect = (x: number, y: number, width: number, height: number) =>
+  `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" rx="16" fill="#0f172a" fill-opacity="0.7" stroke="#ffffff" stroke-opacity="0.1"/>`
+
+const panelHeading = (x: number, y: number, label: string) =>
+  text(x, y, label.toUpperCase(), { size: 12, fill: '#94a3b8', letterSpacing: 3.6 })
+
+/**
+ * 面板内容按行累积高度，最后补上背景矩形
+ */
+type PanelContent = { shapes: string[]; height: number }
+
+const panel = (
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  heading: string,
+  build: (innerX: number, innerY: number, innerWidth: number) => PanelContent,
+) => {
+  const { panelPadding } = POSTER
+  const content = build(x + panelPadding, y + panelPadding + 28, width - panelPadding * 2)
+  const height = panelPadding * 2 + 28 + content.height
+  return {
+    shapes: [
+      `<g id="${id}">`,
+      panelRect(x, y, width, height),
+      panelHeading(x + panelPadding, y + panelPadding + 12, heading),
+      ...content.shapes,
+      `</g>`,
+    ],
+    height,
+  }
+}
+
+/**
+ * 科研海报 → SVG：版式与 PosterPreview 对应，文字均为真实 text 元素
+ */
+export const posterToSvg = (content: PosterContent, legend?: SvgLegendOptions) => {
+  const { width, padding, gap, panelGap } = POSTER
+  const contentWidth = width - padding * 2
+  const leftWidth = Math.round((contentWidth - gap) * 0.4)
+  const rightX = padding + leftWidth + gap
+  const rightWidth = contentWidth - leftWidth - gap
+  const defs: string[] = [
+    `<linearGradient id="poster-bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#030712"/><stop offset="0.5" stop-color="#0f172a"/><stop offset="1" stop-color="#030712"/></linearGradient>`,
+    glowGradient('poster-glow-aurora', '#7f5af0', 0, 0.3),
+    glowGradient('poster-glow-plasma', '#00ffd0', 0, 0.25),
+    glowGradient('poster-glow-ion', '#46c1ff', 0, 0.2),
+  ]
+
+  // 顶部标题区域
+  const storyLines = wrapText(content.story, contentWidth, 18)
+  const header = [
+    `<g id="header">`,
+    text(width / 2, padding + 18, 'GENE FLUX PALETTE RESEARCH', { size: 14, fill: '#00ffd0', anchor: 'middle', opacity: 0.9, letterSpacing: 5.6 }),
+    text(width / 2, padding + 78, content.title, { size: 48, fill: '#ffffff', weight: 700, anchor: 'middle' }),
+    paragraph(width / 2, padding + 124, storyLines, 28, { size: 18, fill: '#cbd5e1', anchor: 'middle', opacity: 0.9 }),
+    `</g>`,
+  ]
+  const mainTop = padding + 124 + (storyLines.length - 1) * 28 + 40
+
+  // 左栏：色卡 + 洞察
+  const narrative = panel('color-narrative', padding, mainTop, leftWidth, 'Color Narrative', (x, y, innerWidth) => {
+    const shapes = content.topPalette.flatMap((gene, idx) => {
+      const rowY = y + idx * 44
+      return [
+        `<rect x="${x}" y="${rowY}" width="32" height="32" rx="8" fill="${gene.color.hex}" stroke="#ffffff" stroke-opacity="0.2"/>`,
+        text(x + 44, rowY + 13, gene.symbol, { size: 14, fill: '#ffffff', weight: 600, mono: true }),
+        text(x + 44, rowY + 30, `log2: ${gene.value.toFixed(2)}`, { size: 12, fill: '#94a3b8' }),
+        text(x + innerWidth, rowY + 13, 'normalized', { size: 12, fill: '#64748b', anchor: 'end' }),
+        text(x + innerWidth, rowY + 30, gene.normalized.toFixed(2), { size: 14, fill: '#cbd5e1', anchor: 'end', mono: true }),
+      ]
+    })
+    let contentHeight = content.topPalette.length * 44 - 12
+    if (legend) {
+      const parts = legendGroup(legend, x, y + contentHeight + 20, innerWidth, 'poster-legend-gradient')
+      defs.push(parts.defs)
+      shapes.push(...parts.shapes)
+      contentHeight += 20 + LEGEND_HEIGHT
+    }
+    return { shapes, height: contentHeight }
+  })
+
+  const insights = panel('core-insights', padding, mainTop + narrative.height + panelGap, leftWidth, 'Core Insights', (x, y, innerWidth) => {
+    const shapes: string[] = []
+    let offset = 0
+    content.insights.forEach((insight) => {
+      const lines = wrapText(insight, innerWidth - 18, 14)
+      shapes.push(
+        `<circle cx="${x + 3}" cy="${round(y + offset + 9)}" r="3" fill="#00ffd0"/>`,
+        paragraph(x + 18, y + offset + 14, lines, 22, { size: 14, fill: '#cbd5e1' }),
+      )
+      offset += lines.length * 22 + 12
+    })
+    return { shapes, height: Math.max(0, offset - 12) }
+  })
+
+  // 右栏：焦点基因、功能信息、技术信息
+  const focusGene = content.focusGene
+  const focusColor = focusGene?.color.hex || '#374151'
+  defs.push(glowGradient('poster-focus-glow', focusColor, 0.6, 0.31))
+  const focus = panel('focus-gene', rightX, mainTop, rightWidth, 'Focus Gene', (x, y) => ({
+    shapes: [
+      `<circle cx="${x + 32}" cy="${y + 32}" r="56" fill="url(#poster-focus-glow)"/>`,
+      `<rect x="${x}" y="${y}" width="64" height="64" rx="16" fill="${focusColor}" stroke="#ffffff" stroke-opacity="0.2" stroke-width="2"/>`,
+      text(x + 80, y + 26, focusGene?.symbol || 'N/A', { size: 30, fill: '#00ffd0', weight: 700 }),
+      text(x + 80, y + 46, `Expression Level: ${focusGene?.value.toFixed(2) || 'N/A'}`, { size: 14, fill: '#cbd5e1' }),
+      text(x + 80, y + 64, `Normalized Score: ${focusGene?.normalized.toFixed(2) || 'N/A'}`, { size: 12, fill: '#94a3b8' }),
+    ],
+    height: 64,
+  }))
+
+  const context = panel('functional-context', rightX, mainTop + focus.height + panelGap, rightWidth, 'Functional Context', (x, y, innerWidth) => {
+    const shapes: string[] = []
+    let offset = 0
+    if (content.categories.length > 0) {
+      shapes.push(text(x, y + offset + 14, 'Biological Categories', { size: 14, fill: '#cbd5e1', weight: 500 }))
+      offset += 26
+      let chipX = x
+      content.categories.forEach((category) => {
+        const chipWidth = estimateWidth(category, 12) + 24
+        if (chipX > x && chipX + chipWidth > x + innerWidth) {
+          chipX = x
+          offset += 32
+        }
+        shapes.push(
+          `<rect x="${round(chipX)}" y="${y + offset}" width="${round(chipWidth)}" height="24" rx="12" fill="#7f5af0" fill-opacity="0.2" stroke="#7f5af0" stroke-opacity="0.3"/>`,
+          text(chipX + chipWidth / 2, y + offset + 16, category, { size: 12, fill: '#7f5af0', weight: 500, anchor: 'middle' }),
+        )
+        chipX += chipWidth + 8
+      })
+      offset += 24
+    }
+    if (content.pathways.length > 0) {
+      if (offset > 0) offset += 16
+      shapes.push(text(x, y + offset + 14, 'Associated Pathways', { size: 14, fill: '#cbd5e1', weight: 500 }))
+      offset += 26
+      content.pathways.forEach((pathway) => {
+        const lines = wrapText(`Related genes: ${pathway.relatedGenes.join(', ')}`, innerWidth - 24, 12)
+        const boxHeight = 12 + 18 + 4 + lines.length * 16 + 8
+        shapes.push(
+          `<rect x="${x}" y="${y + offset}" width="${innerWidth}" height="${boxHeight}" rx="8" fill="#1e293b" fill-opacity="0.5"/>`,
+          text(x + 12, y + offset + 26, pathway.name, { size: 14, fill: '#46c1ff', weight: 500 }),
+          paragraph(x + 12, y + offset + 46, lines, 16, { size: 12, fill: '#94a3b8' }),
+        )
+        offset += boxHeight + 8
+      })
+      offset -= 8
+    }
+    return { shapes, height: offset }
+  })
+
+  const technical = panel(
+    'technical-details',
+    rightX,
+    mainTop + focus.height + context.height + panelGap * 2,
+    rightWidth,
+    'Technical Details',
+    (x, y, innerWidth) => ({
+      shapes: content.technicalDetails.flatMap((detail, idx) => {
+        const cellX = x + (idx % 2) * (innerWidth / 2 + 8)
+        const cellY = y + Math.floor(idx / 2) * 52
+        return [
+          text(cellX, cellY + 14, detail.label, { size: 14, fill: '#94a3b8' }),
+          text(cellX, cellY + 34, detail.value, { size: 14, fill: '#ffffff', weight: 500 }),
+        ]
+      }),
+      height: Math.ceil(content.technicalDetails.length / 2) * 52 - 12,
+    }),
+  )
+
+  // 内容超出默认画幅时向下延展，避免与页脚重叠
+  const leftBottom = mainTop + narrative.height + insights.height + panelGap
+  const rightBottom = mainTop + focus.height + context.height + technical.height + panelGap * 2
+  const height = Math.max(POSTER.height, Math.max(leftBottom, rightBottom) + gap + 48 + padding)
+
+  // 底部信息
+  const footerY = height - padding - 48
+  const footer = [
+    `<g id="footer">`,
+    `<rect x="${padding}" y="${footerY}" width="${contentWidth}" height="48" rx="16" fill="#020617" fill-opacity="0.6" stroke="#ffffff" stroke-opacity="0.05"/>`,
+    text(width / 2, footerY + 28, content.footer, { size: 12, fill: '#94a3b8', anchor: 'middle' }),
+    `</g>`,
+  ]
+
+  return svgDocument(width, height, [
+    `<defs>${defs.join('')}</defs>`,
+    `<g id="background">`,
+    `<rect width="${width}" height="${height}" rx="24" fill="url(#poster-bg)"/>`,
+    `<circle cx="160" cy="40" r="200" fill="url(#poster-glow-aurora)"/>`,
+    `<circle cx="${width - 176}" cy="176" r="220" fill="url(#poster-glow-plasma)"/>`,
+    `<circle cx="${width / 2}" cy="${height - 144}" r="180" fill="url(#poster-glow-ion)"/>`,
+    `</g>`,
+    ...header,
+    ...narrative.shapes,
+    ...insights.shapes,
+    ...focus.shapes,
+    ...context.shapes,
+    ...technical.shapes,
+    ...footer,
+  ])
+}
@@ -0,0 +1,49 @@
+import type { TimelineData } from '../types/timeline'
+import type { PaletteDefinition } from '../types/palette'
+import type { NormalizationSettings } from './normalization'
+import { createGifEncoder, type GifQuantization } from './gif'
+import { TIMELINE_RENDER_CONFIG } from './timelineRenderer'
+import { renderTimelineOffline, type ExportHooks, type OfflineRenderOptions } from './offlineRender'
+
+export type GifExportOptions = OfflineRenderOptions & {
+  loopCount: number // 0 = 无限循环
+  quantization: GifQuantization
+  colors: number
+}
+
+export const DEFAULT_GIF_OPTIONS: GifExportOptions = {
+  scale: 0.75,
+  fps: 15,
+  loopCount: 0,
+  quantization: 'median-cut',
+  colors: 128,
+}
+
+/**
+ * 逐帧重放时间线动画并编码为 GIF，全部在浏览器内完成
+ */
+export const exportTimelineGif = async (
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  normalization: NormalizationSettings,
+  options: GifExportOptions,
+  { onProgress, signal }: ExportHooks = {},
+) => {
+  const encoder = createGifEncoder({
+    width: Math.round(TIMELINE_RENDER_CONFIG.canvasWidth * options.scale),
+    height: Math.round(TIMELINE_RENDER_CONFIG.canvasHeight * options.scale),
+    loopCount: options.loopCount,
+  })
+  const delay = 100 / options.fps
+
+  for await (const rendered of renderTimelineOffline(timeline, palette, normalization, options, signal)) {
+    encoder.addFrame(rendered.context.getImageData(0, 0, rendered.width, rendered.height).data, {
+      delay,
+      quantization: options.quantization,
+      colors: options.colors,
+    })
+    onProgress?.(rendered.index + 1, rendered.total)
+  }
+
+  return encoder.finish()
+}
@@ -0,0 +1,263 @@
+import type { AnimationFrame, TimelineData } from '../types/timeline'
+import type { PaletteDefinition } from '../types/palette'
+import { calculateAnimationStats } from './animation'
+import { colorForGene } from './color'
+import { normalizeBySymbol, type NormalizationSettings } from './normalization'
+import { getGenePathways } from '../data/geneKnowledge'
+import { computeLayout, type ParticleLayoutId } from './particleLayout'
+
+/**
+ * 时间线动画的粒子模拟与绘制
+ * 页面上的 TimelineAnimator 与离线导出（GIF 等）共用同一套逻辑，保证画面一致
+ */
+
+export type AnimatedParticle = {
+  symbol: string
+  x: number
+  y: number
+  targetX: number
+  targetY: number
+  vx: number
+  vy: number
+  radius: number
+  targetRadius: number
+  color: string
+  targetColor: string
+  value: number
+  normalized: number
+  trail: Array<{ x: number; y: number; alpha: number }>
+}
+
+// 所有坐标都在 canvasWidth × canvasHeight 的逻辑画布中计算，导出其他分辨率时由调用方缩放
+export const TIMELINE_RENDER_CONFIG = {
+  particleCount: 50,
+  trailLength: 8,
+  transitionSpeed: 0.15,
+  minRadius: 6,
+  maxRadius: 25,
+  canvasWidth: 800,
+  canvasHeight: 600,
+}
+
+// 与页面画布 CSS 背景一致，导出时先铺底再叠加粒子层
+export const TIMELINE_BACKGROUND = ['rgba(15, 23, 42, 0.8)', 'rgba(3, 7, 18, 0.95)'] as const
+
+/**
+ * 按第一个时间点初始化粒子，位置由布局决定（默认沿圆环均匀分布）
+ * 相关性嵌入以各基因跨时间点的标准化表达谱为输入
+ */
+export function createParticles(
+  timeline: TimelineData,
+  palette: PaletteDefinition,
+  normalization: NormalizationSettings,
+  layout: ParticleLayoutId = 'ring',
+): AnimatedParticle[] {
+  if (!timeline.timePoints.length) return []
+
+  const stats = calculateAnimationStats(timeline)
+  const firstTimePoint = timeline.timePoints[0]
+  const centerX = TIMELINE_RENDER_CONFIG.canvasWidth / 2
+  const centerY = TIMELINE_RENDER_CONFIG.canvasHeight / 2
+  const distributionRadius = Math.min(TIMELINE_RENDER_CONFIG.canvasWidth, TIMELINE_RENDER_CONFIG.canvasHeight) * 0.3
+  const normalizedValues = normalizeBySymbol(firstTimePoint.genes, normalization)
+  const normalizedByTimePoint = timeline.timePoints.map(tp => normalizeBySymbol(tp.genes, normalization))
+  const points = computeLayout(
+    layout,
+    stats.uniqueGenes.map(symbol => ({
+      symbol,
+      value: normalizedValues.get(symbol) ?? 0,
+      profile: normalizedByTimePoint.map(values => values.get(symbol) ?? 0),
+    })),
+  )
+
+  return stats.uniqueGenes.map((symbol, index) => {
+    const gene = firstTimePoint.genes.find(g => g.symbol === symbol)
+    const value = gene?.value || 0
+    
+    // 计算标准化值
+    const normalized = normalizedValues.get(symbol) ?? 0
+    
+    // 计算颜色和大小
+    const color = colorForGene({ symbol, normalized }, palette)
+    const radius = TIMELINE_RENDER_CONFIG.minRadius + 
+      ((normalized + 3) / 6) * (TIMELINE_RENDER_CONFIG.maxRadius - TIMELINE_RENDER_CONFIG.minRadius)
+
+    const x = centerX + points[index].x * distributionRadius
+    const y = centerY + points[index].y * distributionRadius
+
+    return {
+      symbol,
+      x,
+      y,
+      targetX: x,
+      targetY: y,
+      vx: 0,
+      vy: 0,
+      radius: Math.max(TIMELINE_RENDER_CONFIG.minRadius, radius),
+      targetRadius: Math.max(TIMELINE_RENDER_CONFIG.minRadius, radius),
+      color: color.hex,
+      targetColor: color.hex,
+      value,
+      normalized,
+      trail: [],
+    }
+  })
+}
+
+/**
+ * 推进一帧：更新颜色、大小、通路吸引与轨迹
+ */
+export function updateParticles(
+  particles: AnimatedParticle[],
+  frame: AnimationFrame,
+  palette: PaletteDefinition,
+  normalization: NormalizationSettings,
+) {
+  if (!frame.interpolatedGenes) return
+
+  const normalizedValues = normalizeBySymbol(frame.interpolatedGenes, normalization)
+
+  particles.forEach(particle => {
+    const gene = frame.interpolatedGenes!.find(g => g.symbol === particle.symbol)
+    if (!gene) return
+
+    // 更新数值和标准化值
+    particle.value = gene.value
+    particle.normalized = normalizedValues.get(particle.symbol) ?? 0
+
+    // 更新目标颜色和大小
+    const color = colorForGene(particle, palette)
+    particle.targetColor = color.hex
+    particle.targetRadius = Math.max(
+      TIMELINE_RENDER_CONFIG.minRadius,
+      TIMELINE_RENDER_CONFIG.minRadius + 
+      ((particle.normalized + 3) / 6) * (TIMELINE_RENDER_CONFIG.maxRadius - TIMELINE_RENDER_CONFIG.minRadius)
+    )
+
+    // 基于生物学通路调整位置
+    const pathways = getGenePathways(particle.symbol)
+    if (pathways.length > 0) {
+      // 有通路关系的基因会相互吸引
+      const relatedParticles = particles.filter(p => 
+        p.symbol !== particle.symbol && 
+        pathways.some(pathway => pathway.genes.includes(p.symbol))
+      )
+
+      if (relatedParticles.length > 0) {
+        const avgX = relatedParticles.reduce((sum, p) => sum + p.x, 0) / relatedParticles.length
+        const avgY = relatedParticles.reduce((sum, p) => sum + p.y, 0) / relatedParticles.length
+        
+        // 轻微向相关基因聚集
+        particle.targetX += (avgX - particle.x) * 0.02
+        particle.targetY += (avgY - particle.y) * 0.02
+      }
+    }
+
+    // 平滑过渡
+    particle.x += (particle.targetX - particle.x) * TIMELINE_RENDER_CONFIG.transitionSpeed
+    particle.y += (particle.targetY - particle.y) * TIMELINE_RENDER_CONFIG.transitionSpeed
+    particle.radius += (particle.targetRadius - particle.radius) * TIMELINE_RENDER_CONFIG.transitionSpeed
+    
+    // 颜色插值（简化版，实际应该在RGB空间插值）
+    if (particle.color !== particle.targetColor) {
+      particle.color = particle.targetColor
+    }
+
+    // 更新轨迹
+    particle.trail.unshift({ x: particle.x, y: particle.y, alpha: 1 })
+    if (particle.trail.length > TIMELINE_RENDER_CONFIG.trailLength) {
+      particle.trail.pop()
+    }
+    
+    // 更新轨迹透明度
+    particle.trail.forEach((point, index) => {
+      point.alpha = 1 - (index / TIMELINE_RENDER_CONFIG.trailLength)
+    })
+  })
+}
+
+/**
+ * 在逻辑画布坐标系中绘制当前粒子状态
+ */
+export function renderParticles(ctx: CanvasRenderingContext2D, particles: AnimatedParticle[]) {
+  // 清空画布
+  ctx.fillStyle = 'rgba(3, 7, 18, 0.1)' // 轻微的拖尾效果
+  ctx.fillRect(0, 0, TIMELINE_RENDER_CONFIG.canvasWidth, TIMELINE_RENDER_CONFIG.canvasHeight)
+
+  // 绘制连接线（同一通路的基因）
+  particles.forEach(particle => {
+    const pathways = getGenePathways(particle.symbol)
+    pathways.forEach(pathway => {
+      pathway.genes.forEach(geneSymbol => {
+        if (geneSymbol === particle.symbol) return
+        
+        const relatedParticle = particles.find(p => p.symbol === geneSymbol)
+        if (!relatedParticle) return
+
+        const distance = Math.sqrt(
+          Math.pow(particle.x - relatedParticle.x, 2) + 
+          Math.pow(particle.y - relatedParticle.y, 2)
+        )
+
+        if (distance < 200) { // 只绘制较近的连接
+          ctx.strokeStyle = `rgba(127, 90, 240, ${0.2 * (1 - distance / 200)})`
+          ctx.lineWidth = 1
+          ctx.beginPath()
+          ctx.moveTo(particle.x, particle.y)
+          ctx.lineTo(relatedParticle.x, relatedParticle.y)
+          ctx.stroke()
+        }
+      })
+    })
+  })
+
+  // 绘制粒子轨迹
+  particles.forEach(particle => {
+    particle.trail.forEach((point, index) => {
+      if (index === 0) return // 跳过当前位置
+      
+      ctx.beginPath()
+      ctx.arc(point.x, point.y, particle.radius * 0.3, 0, Math.PI * 2)
+      ctx.fillStyle = `${particle.color}${Math.floor(point.alpha * 50).toString(16).padStart(2, '0')}`
+      ctx.fill()
+    })
+  })
+
+  // 绘制粒子
+  particles.forEach(particle => {
+    // 发光效果
+    ctx.shadowBlur = 15
+    ctx.shadowColor = particle.color
+    
+    // 主粒子
+    ctx.beginPath()
+    ctx.arc(particle.x, particle.y, particle.radius, 0, Math.PI * 2)
+    ctx.fillStyle = particle.color
+    ctx.fill()
+    
+    // 重置阴影
+    ctx.shadowBlur = 0
+    
+    // 边框
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)'
+    ctx.lineWidth = 1
+    ctx.stroke()
+
+    // 基因标签
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
+    ctx.font = '10px monospace'
+    ctx.textAlign = 'center'
+    ctx.fillText(particle.symbol, particle.x, particle.y + particle.radius + 12)
+  })
+}
+
+/**
+ * 铺设与页面一致的径向渐变背景
+ */
+export function paintTimelineBackground(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2)
+  gradient.addColorStop(0, TIMELINE_BACKGROUND[0])
+  gradient.addColorStop(1, TIMELINE_BACKGROUND[1])
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, width, height)
+}
@@ -0,0 +1,143 @@
+import type { ParseResult } from 'papaparse'
+
+export type IssueSeverity = 'error' | 'warning'
+
+export type ValidationIssue = {
+  line: number // 文件中的行号（从 1 开始，表头为第 1 行）
+  column: string | null
+  severity: IssueSeverity
+  reason: string
+}
+
+export type ValidationReport = {
+  issues: ValidationIssue[]
+  totalRows: number
+  validRows: number
+}
+
+export type TableRow = {
+  line: number
+  cells: string[]
+}
+
+export type CsvTable = {
+  headers: string[]
+  rows: TableRow[]
+}
+
+export type RowSchema = {
+  symbolColumn: number
+  numericColumns: number[]
+  // 允许留空、填写时必须为有限数字的列
+  optionalNumericColumns?: number[]
+  // 用于判定重复行的键，默认为 symbol
+  uniqueKey?: (row: TableRow) => string
+  describeDuplicate?: (row: TableRow) => string
+}
+
+const NON_FINITE_PATTERN = /^[-+]?(nan|inf|infinity)$/i
+
+const isBlankRow = (cells: string[]) => cells.every((cell) => cell.trim() === '')
+
+/**
+ * 将 PapaParse 的原始结果转换为带行号的表格（空行被过滤，行号仍与原文件对应）
+ */
+export const toCsvTable = (result: ParseResult<string[]>): CsvTable => {
+  const [headers = [], ...records] = result.data
+  const rows = records
+    .map((cells, index) => ({ line: index + 2, cells }))
+    .filter((row) => !isBlankRow(row.cells))
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+export const issueFromParseError = (error: ParseResult<string[]>['errors'][number]): ValidationIssue => ({
+  line: typeof error.row === 'number' ? error.row + 1 : 0,
+  column: null,
+  severity: 'error',
+  reason: `解析错误：${error.message}`,
+})
+
+const validateNumericCell = (raw: string | undefined): string | null => {
+  const value = (raw ?? '').trim()
+  if (!value) return '缺少数值'
+  if (NON_FINITE_PATTERN.test(value)) return `数值为 ${value}，不是有限数字`
+  const parsed = Number(value)
+  if (Number.isNaN(parsed)) return `无法解析为数字：${value}`
+  if (!Number.isFinite(parsed)) return `数值超出范围：${value}`
+  return null
+}
+
+/**
+ * 按 schema 校验每一行，返回有效行与逐行诊断
+ */
+export const validateRows = (table: CsvTable, schema: RowSchema) => {
+  const issues: ValidationIssue[] = []
+  const validRows: TableRow[] = []
+  const seen = new Map<string, number>()
+  const uniqueKey = schema.uniqueKey ?? ((row: TableRow) => row.cells[schema.symbolColumn]?.trim() ?? '')
+  const symbolHeader = table.headers[schema.symbolColumn] || null
+
+  table.rows.forEach((row) => {
+    let rowValid = true
+    const symbol = (row.cells[schema.symbolColumn] ?? '').trim()
+
+    if (!symbol) {
+      issues.push({ line: row.line, column: symbolHeader, severity: 'error', reason: '基因 symbol 为空' })
+      rowValid = false
+    }
+
+    const numericColumns = [
+      ...schema.numericColumns,
+      ...(schema.optionalNumericColumns ?? []).filter((index) => (row.cells[index] ?? '').trim()),
+    ]
+    numericColumns.forEach((columnIndex) => {
+      const reason = validateNumericCell(row.cells[columnIndex])
+      if (reason) {
+        issues.push({ line: row.line, column: table.headers[columnIndex] || null, severity: 'error', reason })
+        rowValid = false
+      }
+    })
+
+    if (row.cells.length > table.headers.length) {
+      issues.push({
+        line: row.line,
+        column: null,
+        severity: 'warning',
+        reason: `比表头多出 ${row.cells.length - table.headers.length} 列，已忽略`,
+      })
+    }
+
+    if (symbol) {
+      const key = uniqueKey(row)
+      const firstLine = seen.get(key)
+      if (firstLine !== undefined) {
+        const label = schema.describeDuplicate?.(row) ?? symbol
+        issues.push({
+          line: row.line,
+          column: symbolHeader,
+          severity: 'error',
+          reason: `重复的 ${label}（首次出现在第 ${firstLine} 行）`,
+        })
+        rowValid = false
+      } else if (rowValid) {
+        seen.set(key, row.line)
+      }
+    }
+
+    if (rowValid) validRows.push(row)
+  })
+
+  return {
+    validRows,
+    report: {
+      issues,
+      totalRows: table.rows.length,
+      validRows: validRows.length,
+    } satisfies ValidationReport,
+  }
+}
+
+export const countIssues = (report: ValidationReport, severity: IssueSeverity) =>
+  report.issues.filter((issue) => issue.severity === severity).length
+
+export const hasErrors = (report: ValidationReport) => countIssues(report, 'error') > 0
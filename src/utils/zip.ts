@@ -0,0 +1,71 @@
+import { crc32 } from './crc32'
+
+export type ZipEntry = {
+  name: string
+  data: Uint8Array
+  date?: Date
+}
+
+const encoder = new TextEncoder()
+
+// MS-DOS 时间格式（2 秒精度）
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/**
+ * 生成仅存储（不压缩）的 ZIP：PNG 本身已压缩，store 模式足够且实现简单
+ */
+export const createZip = (entries: ZipEntry[]) => {
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name)
+    const { time, date } = toDosDateTime(entry.date ?? new Date())
+    const checksum = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // 解压所需版本
+    local.setUint16(6, 0x0800, true) // 文件名为 UTF-8
+    local.setUint16(8, 0, true) // store
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, checksum, true)
+    header.setUint32(20, entry.data.length, true)
+    header.setUint32(24, entry.data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true) // 本地文件头偏移
+
+    chunks.push(new Uint8Array(local.buffer), name, new Uint8Array(entry.data))
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + entry.data.length
+  })
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' })
+}
@@ -0,0 +1,96 @@
+/**
+ * 粒子模拟 Worker：在后台线程推进物理并绘制到 OffscreenCanvas，
+ * 每收到一次 tick 回传一帧 ImageBitmap 与粒子坐标，主线程只负责贴图、点击检测与导出
+ */
+
+import type { CanvasSurfaceSize } from '../hooks/useCanvasSurface'
+import { IDENTITY_VIEW, type ViewTransform } from '../utils/canvasView'
+import {
+  drawParticleScene,
+  type ParticleStyle,
+  type RenderParticle,
+  type SceneState,
+} from '../utils/particleRenderer'
+import { pinParticle, rescaleSimulation, stepSimulation, type ParticleSimulation } from '../utils/particleSimulation'
+
+export type ParticleWorkerRequest =
+  | { type: 'resize'; size: CanvasSurfaceSize }
+  | { type: 'reset'; generation: number; simulation: ParticleSimulation<RenderParticle> }
+  | { type: 'restyle'; styles: ParticleStyle[] }
+  | { type: 'select'; index: number }
+  | { type: 'highlight'; indices: number[] }
+  | { type: 'view'; view: ViewTransform }
+  | { type: 'pin'; index: number; position: { x: number; y: number } | null }
+  | { type: 'tick' }
+
+export type ParticleWorkerResponse =
+  | { type: 'unsupported' } // OffscreenCanvas 不支持 2d 上下文（如旧版 Safari），主线程改为自行模拟
+  | { type: 'frame'; generation: number; bitmap: ImageBitmap; positions: Float64Array } // positions 为 x0, y0, x1, y1, …
+
+let canvas: OffscreenCanvas | null = null
+let ctx: OffscreenCanvasRenderingContext2D | null = null
+let size: CanvasSurfaceSize | null = null
+let simulation: ParticleSimulation<RenderParticle> = { particles: [], adjacency: [], spacing: 1 }
+let generation = 0
+let scene: SceneState = { selected: -1, highlighted: new Set(), view: IDENTITY_VIEW }
+
+const respond = (message: ParticleWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+const resize = (next: CanvasSurfaceSize) => {
+  if (size) rescaleSimulation(simulation.particles, size, next)
+  size = next
+  const width = Math.round(next.width * next.pixelRatio)
+  const height = Math.round(next.height * next.pixelRatio)
+  if (!canvas) {
+    canvas = new OffscreenCanvas(width, height)
+    ctx = canvas.getContext('2d')
+    if (!ctx) respond({ type: 'unsupported' })
+    return
+  }
+  canvas.width = width
+  canvas.height = height
+}
+
+const tick = () => {
+  if (!canvas || !ctx || !size) return
+  stepSimulation(simulation, size)
+  drawParticleScene(ctx, simulation, size, scene)
+  const positions = new Float64Array(simulation.particles.length * 2)
+  simulation.particles.forEach((particle, index) => {
+    positions[index * 2] = particle.x
+    positions[index * 2 + 1] = particle.y
+  })
+  const bitmap = canvas.transferToImageBitmap()
+  respond({ type: 'frame', generation, bitmap, positions }, [bitmap, positions.buffer])
+}
+
+self.onmessage = (event: MessageEvent<ParticleWorkerRequest>) => {
+  const message = event.data
+  switch (message.type) {
+    case 'resize':
+      resize(message.size)
+      break
+    case 'reset':
+      generation = message.generation
+      simulation = message.simulation
+      break
+    case 'restyle':
+      simulation.particles.forEach((particle, index) => Object.assign(particle, message.styles[index]))
+      break
+    case 'select':
+      scene = { ...scene, selected: message.index }
+      break
+    case 'highlight':
+      scene = { ...scene, highlighted: new Set(message.indices) }
+      break
+    case 'view':
+      scene = { ...scene, view: message.view }
+      break
+    case 'pin':
+      pinParticle(simulation, message.index, message.position)
+      break
+    case 'tick':
+      tick()
+      break
+  }
+}
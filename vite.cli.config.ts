@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// CLI 以 SSR 模式打包：依赖（chroma-js / papaparse）保留为外部模块，由 Node 在运行时解析
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/gene-palette.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'gene-palette.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -1,7 +1,15 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { inlineScript } from './vite.inlineScript'
+
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8')) as { version: string }
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), inlineScript()],
+  define: {
+    // 写入导出 PNG 的来源信息
+    __APP_VERSION__: JSON.stringify(version),
+  },
 })
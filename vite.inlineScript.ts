@@ -0,0 +1,29 @@
+import { resolve } from 'node:path'
+import { build } from 'esbuild'
+import type { Plugin } from 'vite'
+
+const SUFFIX = '?inline-script'
+
+/**
+ * `import code from './entry.ts?inline-script'`：把入口及其依赖打包成一段压缩的 IIFE，以字符串导入
+ * 独立 HTML 导出用它内联运行时，运行时直接复用应用中的模块，不再手工维护一份脚本副本
+ */
+export const inlineScript = (): Plugin => ({
+  name: 'gene-palette:inline-script',
+  async load(id) {
+    if (!id.endsWith(SUFFIX)) return null
+    const result = await build({
+      entryPoints: [id.slice(0, -SUFFIX.length)],
+      bundle: true,
+      write: false,
+      format: 'iife',
+      target: 'es2020',
+      minify: true,
+      metafile: true,
+      logLevel: 'silent',
+    })
+    // 开发模式下依赖的模块变化时重新打包
+    Object.keys(result.metafile.inputs).forEach((input) => this.addWatchFile(resolve(input)))
+    return `export default ${JSON.stringify(result.outputFiles[0].text)}`
+  },
+})